@@ -0,0 +1,62 @@
+import { ContributionType, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// One-off backfill for savings goals created before the contributions ledger existed:
+// their current amount is recorded as an opening deposit, so the ledger adds up to it
+async function main() {
+  console.log('Backfilling goal contributions...');
+
+  const goals = await prisma.savingsGoal.findMany({
+    where: {
+      currentAmount: { gt: 0 },
+      contributions: { none: {} },
+    },
+    select: { id: true },
+  });
+
+  let backfilled = 0;
+
+  for (const { id } of goals) {
+    const created = await prisma.$transaction(async (tx) => {
+      // Re-check inside the transaction, the goal may have been funded since it was listed
+      const goal = await tx.savingsGoal.findFirst({
+        where: { id, contributions: { none: {} } },
+      });
+
+      if (!goal || goal.currentAmount <= 0) return false;
+
+      // Writing the goal first makes a concurrent backfill of the same goal fail with a write conflict
+      await tx.savingsGoal.update({
+        where: { id },
+        data: { updatedAt: new Date() },
+      });
+
+      await tx.goalContribution.create({
+        data: {
+          userId: goal.userId,
+          goalId: goal.id,
+          type: ContributionType.DEPOSIT,
+          amount: goal.currentAmount,
+          date: goal.createdAt,
+          note: 'Opening balance',
+        },
+      });
+
+      return true;
+    });
+
+    if (created) backfilled++;
+  }
+
+  console.log(`Backfilled ${backfilled} of ${goals.length} savings goals`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error during backfill:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
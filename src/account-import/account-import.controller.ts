@@ -0,0 +1,51 @@
+import { Body, Controller, HttpCode, HttpStatus, Post, UploadedFile, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiBody, ApiConsumes, ApiOkResponse, ApiOperation, ApiTags, ApiUnauthorizedResponse } from '@nestjs/swagger';
+import { JwtGuard } from 'src/auth/guard';
+import { GetUser } from 'src/auth/decorator';
+import { AccountImportService } from './account-import.service';
+import { RestoreAccountDto } from './dto/restore-account.dto';
+import { RestoreResultModel } from './models/restore-result.model';
+
+// Largest export archive accepted for a restore
+const MAX_ARCHIVE_FILE_SIZE = 50 * 1024 * 1024;
+
+@ApiTags('import')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
+@Controller('import')
+export class AccountImportController {
+  constructor(private accountImportService: AccountImportService) {}
+
+  /**
+   * Restore account data from an export
+   * Runs as a dry run by default, returning what would be restored
+   * 
+   * @param userId - Current authenticated user ID
+   * @param file - Export archive or account.json
+   * @param dto - Restore mode and dry-run flag
+   * @returns Restore report
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('account')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_ARCHIVE_FILE_SIZE } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: RestoreAccountDto })
+  @ApiOperation({
+    summary: 'Restore account data',
+    description: 'Recreates categories, transactions, recurring transactions, bills, budgets, goals and plan items from a GET /export archive with new IDs. MERGE adds them to the account; REPLACE deletes the account data first.',
+  })
+  @ApiOkResponse({
+    description: 'Restore report',
+    type: RestoreResultModel,
+  })
+  @ApiBadRequestResponse({ description: 'Missing file, or file is not a valid account export' })
+  restoreAccount(
+    @GetUser('id') userId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: RestoreAccountDto,
+  ) {
+    return this.accountImportService.restoreAccount(userId, file, dto);
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AccountImportController } from './account-import.controller';
+import { AccountImportService } from './account-import.service';
+
+@Module({
+  controllers: [AccountImportController],
+  providers: [AccountImportService],
+})
+export class AccountImportModule {}
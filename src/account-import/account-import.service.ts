@@ -0,0 +1,766 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { AccountType, BillFrequency, BudgetTimeframe, CategoryType, ContributionType, Prisma, RuleMatchType, TransactionType } from '@prisma/client';
+import * as AdmZip from 'adm-zip';
+import { createHash } from 'crypto';
+import { ObjectId } from 'mongodb';
+import { inflateRawSync } from 'zlib';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { EXPORT_VERSION } from 'src/export/export.service';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { getCategoryPath } from 'src/categories/category-tree';
+import { RestoreAccountDto, RestoreModeEnum } from './dto/restore-account.dto';
+
+// Records of account.json as parsed from JSON, dates are ISO strings
+type ExportRecord = Record<string, any>;
+
+export interface SkippedRecord {
+  entity: string;
+  id: string | null;
+  reason: string;
+}
+
+// Largest account.json accepted once extracted from the archive
+export const MAX_ACCOUNT_DOCUMENT_SIZE = 100 * 1024 * 1024;
+
+// Restores write every record in one transaction, which takes longer than the default 5 seconds
+const RESTORE_TRANSACTION_TIMEOUT = 120000;
+
+@Injectable()
+export class AccountImportService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Restore the data of an export archive into the account of the current user
+   * Every record gets a new ID and references between records are remapped to the new IDs
+   *
+   * @param userId - Current authenticated user ID
+   * @param file - Uploaded export archive or account.json
+   * @param dto - Restore mode and dry-run flag
+   * @returns Report of the records deleted, created, matched and skipped
+   */
+  async restoreAccount(userId: string, file: Express.Multer.File | undefined, dto: RestoreAccountDto) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    const { document, documentHash } = this.readAccountDocument(file.buffer);
+    const mode = dto.mode || RestoreModeEnum.MERGE;
+    const dryRun = dto.dryRun !== false;
+
+    // Merging a document a second time would duplicate everything it contains
+    if (mode === RestoreModeEnum.MERGE) {
+      const previous = await this.prisma.accountRestore.findFirst({
+        where: { userId, documentHash },
+      });
+
+      if (previous) {
+        throw new BadRequestException(this.alreadyRestoredMessage);
+      }
+    }
+
+    // Merging reuses the user's categories and accounts with the same name and type instead of duplicating them
+    const existingCategories = mode === RestoreModeEnum.MERGE
+      ? await this.prisma.category.findMany({
+        where: { userId, ...NOT_DELETED },
+        select: { id: true, name: true, type: true },
+      })
+      : [];
+    const existingAccounts = mode === RestoreModeEnum.MERGE
+      ? await this.prisma.account.findMany({
+        where: { userId },
+        select: { id: true, name: true, type: true },
+      })
+      : [];
+
+    const plan = this.buildRestorePlan(userId, document, existingCategories, existingAccounts);
+    const deleted = mode === RestoreModeEnum.REPLACE ? await this.countAccountData(userId) : null;
+
+    if (!dryRun) {
+      try {
+        await this.prisma.$transaction(async (prisma) => {
+          if (mode === RestoreModeEnum.REPLACE) {
+            await this.deleteAccountData(prisma, userId);
+          }
+
+          // Claim the document first, a concurrent merge of the same one fails on the unique index
+          await prisma.accountRestore.create({
+            data: {
+              userId,
+              documentHash,
+              exportedAt: this.date(document.exportedAt),
+            },
+          });
+
+          // Create records in dependency order; IDs were assigned up front, so references are already final
+          await prisma.category.createMany({ data: plan.categories });
+          await prisma.categoryRule.createMany({ data: plan.categoryRules });
+          await prisma.account.createMany({ data: plan.accounts });
+          await prisma.bill.createMany({ data: plan.bills });
+          await prisma.recurringTransaction.createMany({ data: plan.recurringTransactions });
+          await prisma.transaction.createMany({ data: plan.transactions });
+          await prisma.transactionSplit.createMany({ data: plan.transactionSplits });
+          await prisma.billPayment.createMany({ data: plan.billPayments });
+          await prisma.budget.createMany({ data: plan.budgets });
+          await prisma.categoryAllocation.createMany({ data: plan.categoryAllocations });
+          await prisma.savingsGoal.createMany({ data: plan.savingsGoals });
+          await prisma.goalContribution.createMany({ data: plan.goalContributions });
+          await prisma.planItem.createMany({ data: plan.planItems });
+        }, { timeout: RESTORE_TRANSACTION_TIMEOUT });
+      } catch (error) {
+        if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new BadRequestException(this.alreadyRestoredMessage);
+        }
+        throw error;
+      }
+    }
+
+    return {
+      dryRun,
+      mode,
+      exportedAt: document.exportedAt ?? null,
+      deleted,
+      created: {
+        categories: plan.categories.length,
+        accounts: plan.accounts.length,
+        transactions: plan.transactions.length,
+        transactionSplits: plan.transactionSplits.length,
+        categoryRules: plan.categoryRules.length,
+        recurringTransactions: plan.recurringTransactions.length,
+        bills: plan.bills.length,
+        billPayments: plan.billPayments.length,
+        budgets: plan.budgets.length,
+        categoryAllocations: plan.categoryAllocations.length,
+        savingsGoals: plan.savingsGoals.length,
+        goalContributions: plan.goalContributions.length,
+        planItems: plan.planItems.length,
+      },
+      matchedCategories: plan.matchedCategories,
+      matchedAccounts: plan.matchedAccounts,
+      skipped: plan.skipped,
+    };
+  }
+
+  private readonly alreadyRestoredMessage =
+    'This export was already restored into the account, merging it again would duplicate its data. Use mode=REPLACE to start over';
+
+  // Helper method to read account.json from an export archive, or from the uploaded document itself
+  private readAccountDocument(buffer: Buffer): { document: ExportRecord; documentHash: string } {
+    let json: string;
+
+    // ZIP archives start with the "PK" signature
+    if (buffer.subarray(0, 2).toString('latin1') === 'PK') {
+      let entry: AdmZip.IZipEntry | null;
+
+      try {
+        entry = new AdmZip(buffer).getEntry('account.json');
+      } catch {
+        throw new BadRequestException('File is not a valid ZIP archive');
+      }
+
+      if (!entry) {
+        throw new BadRequestException('Archive does not contain account.json');
+      }
+
+      json = this.extractEntry(entry).toString('utf8');
+    } else {
+      json = buffer.toString('utf8');
+    }
+
+    let document: unknown;
+
+    try {
+      document = JSON.parse(json);
+    } catch {
+      throw new BadRequestException('account.json is not valid JSON');
+    }
+
+    if (!document || typeof document !== 'object' || typeof (document as ExportRecord).version !== 'number') {
+      throw new BadRequestException('File is not an account export');
+    }
+
+    if ((document as ExportRecord).version > EXPORT_VERSION) {
+      throw new BadRequestException('Export was created by a newer version and cannot be restored');
+    }
+
+    return {
+      document: document as ExportRecord,
+      documentHash: createHash('sha256').update(json).digest('hex'),
+    };
+  }
+
+  // Helper method to decompress an archive entry, stopping as soon as it grows past the size limit
+  // The sizes in the entry header come from the uploader and are not trusted
+  private extractEntry(entry: AdmZip.IZipEntry): Buffer {
+    const compressed = entry.getCompressedData();
+    let data: Buffer;
+
+    switch (entry.header.method) {
+      // Stored
+      case 0:
+        data = compressed;
+        break;
+      // Deflated
+      case 8:
+        try {
+          data = inflateRawSync(compressed, { maxOutputLength: MAX_ACCOUNT_DOCUMENT_SIZE + 1 });
+        } catch (error) {
+          if (error instanceof RangeError) {
+            throw new BadRequestException('account.json is too large');
+          }
+          throw new BadRequestException('account.json could not be decompressed');
+        }
+        break;
+      default:
+        throw new BadRequestException('account.json uses an unsupported compression method');
+    }
+
+    if (data.length > MAX_ACCOUNT_DOCUMENT_SIZE) {
+      throw new BadRequestException('account.json is too large');
+    }
+
+    return data;
+  }
+
+  // Helper method to turn the export document into records for the user, with new IDs and remapped references
+  private buildRestorePlan(
+    userId: string,
+    document: ExportRecord,
+    existingCategories: { id: string; name: string; type: string }[],
+    existingAccounts: { id: string; name: string; type: string }[],
+  ) {
+    const skipped: SkippedRecord[] = [];
+    const skip = (entity: string, record: ExportRecord, reason: string) => {
+      skipped.push({ entity, id: typeof record?.id === 'string' ? record.id : null, reason });
+    };
+
+    // Old ID -> new ID of each record restored so far
+    const categoryIds = new Map<string, string>();
+    const accountIds = new Map<string, string>();
+    const billIds = new Map<string, string>();
+    const recurringIds = new Map<string, string>();
+    const transactionIds = new Map<string, string>();
+
+    // Categories
+    const categories: Prisma.CategoryCreateManyInput[] = [];
+    let matchedCategories = 0;
+
+    for (const record of this.list(document.categories)) {
+      const name = this.text(record.name);
+      const type = this.enumValue(record.type, CategoryType);
+
+      if (!name || !type) {
+        skip('category', record, 'Missing name or invalid type');
+        continue;
+      }
+
+      const existing = existingCategories.find(category =>
+        category.type === type && category.name.toLowerCase() === name.toLowerCase());
+
+      if (existing) {
+        categoryIds.set(record.id, existing.id);
+        matchedCategories++;
+        continue;
+      }
+
+      const id = this.newId();
+      categoryIds.set(record.id, id);
+      categories.push({
+        id,
+        userId,
+        name,
+        type,
+        description: this.text(record.description),
+        color: this.text(record.color) || '#9E9E9E',
+        icon: this.text(record.icon) || 'category',
+        isDefault: record.isDefault === true,
+        templateKey: this.text(record.templateKey),
+      });
+    }
+
+    // Parents are linked once every category has its new ID; a parent of another type or one
+    // that would close a loop leaves the subcategory at the top level
+    const categoryTypes = new Map<string, string>([
+      ...existingCategories.map(category => [category.id, category.type] as const),
+      ...categories.map(category => [category.id!, category.type] as const),
+    ]);
+    const categoryParents = new Map<string, string | null>();
+    const restoredCategories = this.list(document.categories).filter(record => categoryIds.has(record.id));
+
+    for (const category of categories) {
+      const record = restoredCategories.find(candidate => categoryIds.get(candidate.id) === category.id);
+      const parentId = record?.parentId ? categoryIds.get(record.parentId) : undefined;
+      if (!parentId) continue;
+
+      if (categoryTypes.get(parentId) !== category.type || getCategoryPath(parentId, categoryParents).includes(category.id!)) {
+        skip('category', record!, 'Parent category has another type or forms a loop, restored as a top-level category');
+        continue;
+      }
+
+      category.parentId = parentId;
+      categoryParents.set(category.id!, parentId);
+    }
+
+    // Accounts
+    const accounts: Prisma.AccountCreateManyInput[] = [];
+    let matchedAccounts = 0;
+
+    for (const record of this.list(document.accounts)) {
+      const name = this.text(record.name);
+      const type = this.enumValue(record.type, AccountType);
+      const currency = this.text(record.currency);
+
+      if (!name || !type || !currency) {
+        skip('account', record, 'Missing name or currency, or invalid type');
+        continue;
+      }
+
+      const existing = existingAccounts.find(account =>
+        account.type === type && account.name.toLowerCase() === name.toLowerCase());
+
+      if (existing) {
+        accountIds.set(record.id, existing.id);
+        matchedAccounts++;
+        continue;
+      }
+
+      const id = this.newId();
+      accountIds.set(record.id, id);
+      accounts.push({
+        id,
+        userId,
+        name,
+        type,
+        openingBalance: this.number(record.openingBalance) ?? 0,
+        currency,
+      });
+    }
+
+    // Category rules
+    const categoryRules: Prisma.CategoryRuleCreateManyInput[] = [];
+
+    for (const record of this.list(document.categoryRules)) {
+      const categoryId = categoryIds.get(record.categoryId);
+      const name = this.text(record.name);
+
+      if (!categoryId) {
+        skip('categoryRule', record, 'Category was not restored');
+        continue;
+      }
+
+      if (!name) {
+        skip('categoryRule', record, 'Missing name');
+        continue;
+      }
+
+      categoryRules.push({
+        id: this.newId(),
+        userId,
+        categoryId,
+        name,
+        priority: Number.isInteger(record.priority) ? record.priority : 0,
+        enabled: record.enabled !== false,
+        descriptionPattern: this.text(record.descriptionPattern),
+        matchType: this.enumValue(record.matchType, RuleMatchType) ?? RuleMatchType.CONTAINS,
+        minAmount: this.number(record.minAmount),
+        maxAmount: this.number(record.maxAmount),
+        type: this.enumValue(record.type, TransactionType),
+        notes: this.text(record.notes),
+      });
+    }
+
+    // Bills
+    const bills: Prisma.BillCreateManyInput[] = [];
+
+    for (const record of this.list(document.bills)) {
+      const categoryId = categoryIds.get(record.categoryId);
+      const name = this.text(record.name);
+      const amount = this.number(record.amount);
+      const dueDate = this.date(record.dueDate);
+      const frequency = this.enumValue(record.frequency, BillFrequency);
+
+      if (!categoryId) {
+        skip('bill', record, 'Category was not restored');
+        continue;
+      }
+
+      if (!name || amount === null || !dueDate || !frequency) {
+        skip('bill', record, 'Missing or invalid name, amount, due date or frequency');
+        continue;
+      }
+
+      const id = this.newId();
+      billIds.set(record.id, id);
+      bills.push({
+        id,
+        userId,
+        categoryId,
+        name,
+        amount,
+        dueDate,
+        frequency,
+        autopay: record.autopay === true,
+        notes: this.text(record.notes),
+      });
+    }
+
+    // Recurring transactions
+    const recurringTransactions: Prisma.RecurringTransactionCreateManyInput[] = [];
+
+    for (const record of this.list(document.recurringTransactions)) {
+      const categoryId = categoryIds.get(record.categoryId);
+      const amount = this.number(record.amount);
+      const type = this.enumValue(record.type, TransactionType);
+      const frequency = this.enumValue(record.frequency, BillFrequency);
+      const startDate = this.date(record.startDate);
+
+      if (!categoryId) {
+        skip('recurringTransaction', record, 'Category was not restored');
+        continue;
+      }
+
+      if (amount === null || !type || !frequency || !startDate) {
+        skip('recurringTransaction', record, 'Missing or invalid amount, type, frequency or start date');
+        continue;
+      }
+
+      const id = this.newId();
+      recurringIds.set(record.id, id);
+      recurringTransactions.push({
+        id,
+        userId,
+        categoryId,
+        description: this.text(record.description),
+        amount,
+        type,
+        notes: this.text(record.notes),
+        frequency,
+        startDate,
+        endDate: this.date(record.endDate),
+        occurrenceLimit: this.number(record.occurrenceLimit),
+        occurrenceIndex: this.number(record.occurrenceIndex) ?? 0,
+        nextOccurrence: this.date(record.nextOccurrence),
+        skippedDates: this.list(record.skippedDates)
+          .map(value => this.date(value))
+          .filter((value): value is Date => value !== null),
+        paused: record.paused === true,
+        completed: record.completed === true,
+      });
+    }
+
+    // Transactions and their split lines
+    const transactions: Prisma.TransactionCreateManyInput[] = [];
+    const transactionSplits: Prisma.TransactionSplitCreateManyInput[] = [];
+
+    for (const record of this.list(document.transactions)) {
+      const categoryId = categoryIds.get(record.categoryId);
+      const amount = this.number(record.amount);
+      const type = this.enumValue(record.type, TransactionType);
+      const date = this.date(record.date);
+      // Transfers have no category
+      const isTransfer = type === TransactionType.TRANSFER;
+
+      if (!categoryId && !isTransfer) {
+        skip('transaction', record, 'Category was not restored');
+        continue;
+      }
+
+      if (amount === null || !type || !date) {
+        skip('transaction', record, 'Missing or invalid amount, type or date');
+        continue;
+      }
+
+      const id = this.newId();
+      transactionIds.set(record.id, id);
+      transactions.push({
+        id,
+        userId,
+        categoryId: isTransfer ? null : categoryId,
+        amount,
+        type,
+        date,
+        description: this.text(record.description),
+        notes: this.text(record.notes),
+        // Links to records that were not restored are dropped
+        billId: billIds.get(record.billId) ?? null,
+        accountId: accountIds.get(record.accountId) ?? null,
+        transferAccountId: isTransfer ? accountIds.get(record.transferAccountId) ?? null : null,
+        recurringTransactionId: recurringIds.get(record.recurringTransactionId) ?? null,
+        occurrenceDate: this.date(record.occurrenceDate),
+        externalId: this.text(record.externalId),
+      });
+
+      // Splits must add up to the amount, so they are restored all together or not at all
+      const splits = this.list(record.splits).map(split => ({
+        split,
+        categoryId: categoryIds.get(split.categoryId),
+        amount: this.number(split.amount),
+      }));
+
+      if (splits.some(split => !split.categoryId || split.amount === null)) {
+        skip('transactionSplit', record, 'A split category was not restored or a split amount is invalid, the transaction is restored without splits');
+        continue;
+      }
+
+      for (const { split, categoryId: splitCategoryId, amount: splitAmount } of splits) {
+        transactionSplits.push({
+          id: this.newId(),
+          transactionId: id,
+          categoryId: splitCategoryId!,
+          amount: splitAmount!,
+          note: this.text(split.note),
+        });
+      }
+    }
+
+    // Bill payments
+    const billPayments: Prisma.BillPaymentCreateManyInput[] = [];
+
+    for (const record of this.list(document.billPayments)) {
+      const billId = billIds.get(record.billId);
+      const dueDate = this.date(record.dueDate);
+      const paidDate = this.date(record.paidDate);
+      const amountPaid = this.number(record.amountPaid);
+
+      if (!billId) {
+        skip('billPayment', record, 'Bill was not restored');
+        continue;
+      }
+
+      if (!dueDate || !paidDate || amountPaid === null) {
+        skip('billPayment', record, 'Missing or invalid dates or amount');
+        continue;
+      }
+
+      billPayments.push({
+        id: this.newId(),
+        userId,
+        billId,
+        dueDate,
+        paidDate,
+        amountPaid,
+        automatic: record.automatic === true,
+        transactionId: transactionIds.get(record.transactionId) ?? null,
+      });
+    }
+
+    // Budgets and their category allocations
+    const budgets: Prisma.BudgetCreateManyInput[] = [];
+    const categoryAllocations: Prisma.CategoryAllocationCreateManyInput[] = [];
+
+    for (const record of this.list(document.budgets)) {
+      const name = this.text(record.name);
+      const amount = this.number(record.amount);
+      const startDate = this.date(record.startDate);
+      const endDate = this.date(record.endDate);
+      const type = this.enumValue(record.type, BudgetTimeframe);
+
+      if (!name || amount === null || !startDate || !endDate || !type) {
+        skip('budget', record, 'Missing or invalid name, amount, dates or type');
+        continue;
+      }
+
+      const id = this.newId();
+      budgets.push({
+        id,
+        userId,
+        name,
+        description: this.text(record.description),
+        amount,
+        startDate,
+        endDate,
+        type,
+      });
+
+      for (const allocation of this.list(record.categoryAllocations)) {
+        const categoryId = categoryIds.get(allocation.categoryId);
+        const allocationAmount = this.number(allocation.amount);
+
+        if (!categoryId || allocationAmount === null) {
+          skip('categoryAllocation', allocation, 'Category was not restored or amount is invalid');
+          continue;
+        }
+
+        categoryAllocations.push({
+          id: this.newId(),
+          budgetId: id,
+          categoryId,
+          amount: allocationAmount,
+        });
+      }
+    }
+
+    // Savings goals and their contributions
+    const savingsGoals: Prisma.SavingsGoalCreateManyInput[] = [];
+    const goalContributions: Prisma.GoalContributionCreateManyInput[] = [];
+
+    for (const record of this.list(document.savingsGoals)) {
+      const name = this.text(record.name);
+      const targetAmount = this.number(record.targetAmount);
+
+      if (!name || targetAmount === null) {
+        skip('savingsGoal', record, 'Missing name or invalid target amount');
+        continue;
+      }
+
+      const id = this.newId();
+      let contributedAmount = 0;
+
+      for (const contribution of this.list(record.contributions)) {
+        const type = this.enumValue(contribution.type, ContributionType);
+        const amount = this.number(contribution.amount);
+        const date = this.date(contribution.date);
+
+        if (!type || amount === null || !date) {
+          skip('goalContribution', contribution, 'Missing or invalid type, amount or date');
+          continue;
+        }
+
+        contributedAmount += type === ContributionType.DEPOSIT ? amount : -amount;
+        goalContributions.push({
+          id: this.newId(),
+          userId,
+          goalId: id,
+          type,
+          amount,
+          date,
+          note: this.text(contribution.note),
+          transactionId: transactionIds.get(contribution.transactionId) ?? null,
+        });
+      }
+
+      savingsGoals.push({
+        id,
+        userId,
+        name,
+        targetAmount,
+        // The current amount is derived from the contributions, exports made before the ledger only have the amount
+        currentAmount: Array.isArray(record.contributions) ? contributedAmount : this.number(record.currentAmount) ?? 0,
+        targetDate: this.date(record.targetDate),
+        completed: record.completed === true,
+        notes: this.text(record.notes),
+      });
+    }
+
+    // Plan items
+    const planItems: Prisma.PlanItemCreateManyInput[] = [];
+
+    for (const record of this.list(document.planItems)) {
+      const description = this.text(record.description);
+      const amount = this.number(record.amount);
+      const planType = this.text(record.planType);
+      const itemType = this.text(record.itemType);
+
+      if (!description || amount === null || !planType || !itemType) {
+        skip('planItem', record, 'Missing or invalid description, amount, plan type or item type');
+        continue;
+      }
+
+      planItems.push({
+        id: this.newId(),
+        userId,
+        description,
+        amount,
+        notes: this.text(record.notes),
+        planType,
+        itemType,
+        categoryId: categoryIds.get(record.categoryId) ?? null,
+      });
+    }
+
+    return {
+      categories,
+      categoryRules,
+      accounts,
+      bills,
+      recurringTransactions,
+      transactions,
+      transactionSplits,
+      billPayments,
+      budgets,
+      categoryAllocations,
+      savingsGoals,
+      goalContributions,
+      planItems,
+      matchedCategories,
+      matchedAccounts,
+      skipped,
+    };
+  }
+
+  // Helper method to count the data a replace would delete
+  private async countAccountData(userId: string) {
+    const [
+      categories,
+      accounts,
+      transactions,
+      recurringTransactions,
+      bills,
+      budgets,
+      savingsGoals,
+      planItems,
+    ] = await Promise.all([
+      this.prisma.category.count({ where: { userId } }),
+      this.prisma.account.count({ where: { userId } }),
+      this.prisma.transaction.count({ where: { userId } }),
+      this.prisma.recurringTransaction.count({ where: { userId } }),
+      this.prisma.bill.count({ where: { userId } }),
+      this.prisma.budget.count({ where: { userId } }),
+      this.prisma.savingsGoal.count({ where: { userId } }),
+      this.prisma.planItem.count({ where: { userId } }),
+    ]);
+
+    return { categories, accounts, transactions, recurringTransactions, bills, budgets, savingsGoals, planItems };
+  }
+
+  // Helper method to delete all financial data of the user, dependants first
+  private async deleteAccountData(prisma: Prisma.TransactionClient, userId: string) {
+    await prisma.autopayLog.deleteMany({ where: { userId } });
+    await prisma.billPayment.deleteMany({ where: { userId } });
+    await prisma.transactionSplit.deleteMany({ where: { transaction: { userId } } });
+    await prisma.transaction.deleteMany({ where: { userId } });
+    await prisma.importBatch.deleteMany({ where: { userId } });
+    await prisma.recurringTransaction.deleteMany({ where: { userId } });
+    await prisma.bill.deleteMany({ where: { userId } });
+    await prisma.categoryAllocation.deleteMany({ where: { budget: { userId } } });
+    await prisma.budget.deleteMany({ where: { userId } });
+    await prisma.goalContribution.deleteMany({ where: { userId } });
+    await prisma.savingsGoal.deleteMany({ where: { userId } });
+    await prisma.planItem.deleteMany({ where: { userId } });
+    await prisma.categoryRule.deleteMany({ where: { userId } });
+    await prisma.category.deleteMany({ where: { userId } });
+    await prisma.account.deleteMany({ where: { userId } });
+    await prisma.accountRestore.deleteMany({ where: { userId } });
+  }
+
+  // Helper methods to assign IDs and read loosely typed values of the export document
+  private newId() {
+    return new ObjectId().toHexString();
+  }
+
+  private list(value: unknown): ExportRecord[] {
+    return Array.isArray(value) ? value.filter(item => item !== null && item !== undefined) : [];
+  }
+
+  private text(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() !== '' ? value : null;
+  }
+
+  private number(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  }
+
+  private date(value: unknown): Date | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    const date = new Date(value);
+
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private enumValue<T extends Record<string, string>>(value: unknown, values: T): T[keyof T] | null {
+    return Object.values(values).includes(value as string) ? value as T[keyof T] : null;
+  }
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export enum RestoreModeEnum {
+  MERGE = 'MERGE',
+  REPLACE = 'REPLACE',
+}
+
+export class RestoreAccountDto {
+  @ApiProperty({
+    description: 'Export archive (ZIP) or its account.json document',
+    type: 'string',
+    format: 'binary',
+  })
+  file: any;
+
+  @ApiProperty({
+    description: 'MERGE adds the exported data to the account; REPLACE deletes the account data first',
+    enum: RestoreModeEnum,
+    example: RestoreModeEnum.MERGE,
+    default: RestoreModeEnum.MERGE,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(RestoreModeEnum)
+  mode?: RestoreModeEnum = RestoreModeEnum.MERGE;
+
+  @ApiProperty({
+    description: 'Only report what would be restored without changing any data',
+    example: true,
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  // Multipart fields arrive as strings
+  @Transform(({ value }) => value === true || value === 'true')
+  dryRun?: boolean = true;
+}
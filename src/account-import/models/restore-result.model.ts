@@ -0,0 +1,119 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RestoreModeEnum } from '../dto/restore-account.dto';
+
+class RestoreCounts {
+  @ApiProperty({ description: 'Categories', example: 12 })
+  categories: number;
+
+  @ApiProperty({ description: 'Accounts', example: 3 })
+  accounts: number;
+
+  @ApiProperty({ description: 'Transactions', example: 420 })
+  transactions: number;
+
+  @ApiProperty({ description: 'Recurring transactions', example: 3 })
+  recurringTransactions: number;
+
+  @ApiProperty({ description: 'Bills', example: 5 })
+  bills: number;
+
+  @ApiProperty({ description: 'Budgets', example: 6 })
+  budgets: number;
+
+  @ApiProperty({ description: 'Savings goals', example: 2 })
+  savingsGoals: number;
+
+  @ApiProperty({ description: 'Plan items', example: 8 })
+  planItems: number;
+}
+
+class CreatedCounts extends RestoreCounts {
+  @ApiProperty({ description: 'Transaction split lines', example: 12 })
+  transactionSplits: number;
+
+  @ApiProperty({ description: 'Category rules', example: 6 })
+  categoryRules: number;
+
+  @ApiProperty({ description: 'Savings goal contributions', example: 14 })
+  goalContributions: number;
+
+  @ApiProperty({ description: 'Bill payments', example: 30 })
+  billPayments: number;
+
+  @ApiProperty({ description: 'Budget category allocations', example: 14 })
+  categoryAllocations: number;
+}
+
+class SkippedRecordModel {
+  @ApiProperty({
+    description: 'Kind of record',
+    example: 'transaction',
+  })
+  entity: string;
+
+  @ApiProperty({
+    description: 'ID of the record in the export',
+    example: '64a1f0c2e4b0a1b2c3d4e5f6',
+    nullable: true,
+  })
+  id: string | null;
+
+  @ApiProperty({
+    description: 'Why the record was not restored',
+    example: 'Category was not restored',
+  })
+  reason: string;
+}
+
+export class RestoreResultModel {
+  @ApiProperty({
+    description: 'Whether this was a dry run',
+    example: true,
+  })
+  dryRun: boolean;
+
+  @ApiProperty({
+    description: 'Restore mode',
+    enum: RestoreModeEnum,
+    example: RestoreModeEnum.MERGE,
+  })
+  mode: RestoreModeEnum;
+
+  @ApiProperty({
+    description: 'Date the export was created',
+    example: '2023-05-15T14:30:00Z',
+    nullable: true,
+  })
+  exportedAt: string | null;
+
+  @ApiProperty({
+    description: 'Records deleted before restoring (REPLACE mode only)',
+    type: RestoreCounts,
+    nullable: true,
+  })
+  deleted: RestoreCounts | null;
+
+  @ApiProperty({
+    description: 'Records created from the export',
+    type: CreatedCounts,
+  })
+  created: CreatedCounts;
+
+  @ApiProperty({
+    description: 'Exported categories matched to existing categories with the same name and type (MERGE mode only)',
+    example: 10,
+  })
+  matchedCategories: number;
+
+  @ApiProperty({
+    description: 'Exported accounts matched to existing accounts with the same name and type (MERGE mode only)',
+    example: 2,
+  })
+  matchedAccounts: number;
+
+  @ApiProperty({
+    description: 'Records that could not be restored',
+    type: [SkippedRecordModel],
+  })
+  skipped: SkippedRecordModel[];
+}
@@ -0,0 +1,195 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Query, UseGuards } from '@nestjs/common';
+import { AccountsService } from './accounts.service';
+import { CreateAccountDto, UpdateAccountDto } from './dto';
+import { JwtGuard } from 'src/auth/guard';
+import { GetUser } from 'src/auth/decorator';
+import { ParseDatePipe } from 'src/transactions/pipes/parse-date.pipe';
+import { SupportsDisplayFormat } from 'src/common/formatting';
+import { ApiBearerAuth, ApiCreatedResponse, ApiForbiddenResponse, ApiNoContentResponse, ApiNotFoundResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse } from '@nestjs/swagger';
+import { AccountModel, AccountTransactionsModel } from './models/account.model';
+
+@ApiTags('accounts')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
+@SupportsDisplayFormat()
+@Controller('accounts')
+export class AccountsController {
+  constructor(private accountService: AccountsService) {}
+
+  /**
+   * Get all accounts for the authenticated user
+   * 
+   * @param userId - Current authenticated user ID
+   * @returns Array of accounts with their current balance
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all accounts',
+    description: 'Retrieves all accounts of the current user with their current balance',
+  })
+  @ApiOkResponse({
+    description: 'List of accounts retrieved successfully',
+    type: [AccountModel],
+  })
+  getAccounts(@GetUser('id') userId: string) {
+    return this.accountService.getAccounts(userId);
+  }
+
+  /**
+   * Get an account by ID
+   * 
+   * @param userId - Current authenticated user ID
+   * @param accountId - ID of the account to retrieve
+   * @returns The requested account with its current balance
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get an account by ID',
+    description: 'Retrieves a specific account with its current balance',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Account ID',
+  })
+  @ApiOkResponse({
+    description: 'Account retrieved successfully',
+    type: AccountModel,
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Account with the given ID does not exist' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this account' })
+  getAccountById(
+    @GetUser('id') userId: string,
+    @Param('id') accountId: string,
+  ) {
+    return this.accountService.getAccountById(userId, accountId);
+  }
+
+  /**
+   * Get the transactions of an account with the running balance
+   * 
+   * @param userId - Current authenticated user ID
+   * @param accountId - ID of the account
+   * @param fromDate - Optional start date for filtering
+   * @param toDate - Optional end date for filtering
+   * @returns Transactions in chronological order with the balance after each one
+   */
+  @Get(':id/transactions')
+  @ApiOperation({
+    summary: 'Get account transactions with running balance',
+    description: 'Retrieves the transactions of an account in chronological order, each with the account balance after it',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Account ID',
+  })
+  @ApiQuery({
+    name: 'fromDate',
+    required: false,
+    type: String,
+    description: 'Start date for filtering (ISO format)',
+  })
+  @ApiQuery({
+    name: 'toDate',
+    required: false,
+    type: String,
+    description: 'End date for filtering (ISO format)',
+  })
+  @ApiOkResponse({
+    description: 'Account transactions retrieved successfully',
+    type: AccountTransactionsModel,
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Account with the given ID does not exist' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this account' })
+  getAccountTransactions(
+    @GetUser('id') userId: string,
+    @Param('id') accountId: string,
+    @Query('fromDate', ParseDatePipe) fromDate?: Date,
+    @Query('toDate', ParseDatePipe) toDate?: Date,
+  ) {
+    return this.accountService.getAccountTransactions(userId, accountId, fromDate, toDate);
+  }
+
+  /**
+   * Create a new account
+   * 
+   * @param userId - Current authenticated user ID
+   * @param dto - Account creation data
+   * @returns The created account
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create a new account',
+    description: 'Creates a new checking, savings, credit card or cash account for the current user',
+  })
+  @ApiCreatedResponse({
+    description: 'The account has been successfully created',
+    type: AccountModel,
+  })
+  createAccount(
+    @GetUser('id') userId: string,
+    @Body() dto: CreateAccountDto,
+  ) {
+    return this.accountService.createAccount(userId, dto);
+  }
+
+  /**
+   * Update an existing account
+   * 
+   * @param userId - Current authenticated user ID
+   * @param accountId - ID of the account to update
+   * @param dto - Account update data
+   * @returns The updated account
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update an account',
+    description: 'Updates an existing account by ID',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Account ID',
+  })
+  @ApiOkResponse({
+    description: 'The account has been successfully updated',
+    type: AccountModel,
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this account' })
+  @ApiNotFoundResponse({ description: 'Not Found - Account with the given ID does not exist' })
+  updateAccount(
+    @GetUser('id') userId: string,
+    @Param('id') accountId: string,
+    @Body() dto: UpdateAccountDto,
+  ) {
+    return this.accountService.updateAccount(userId, accountId, dto);
+  }
+
+  /**
+   * Delete an account
+   * 
+   * @param userId - Current authenticated user ID
+   * @param accountId - ID of the account to delete
+   * @returns No content on success
+   */
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete an account',
+    description: 'Deletes an account. Cannot delete accounts that still have transactions.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Account ID',
+  })
+  @ApiNoContentResponse({
+    description: 'The account has been successfully deleted',
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this account, or it still has transactions' })
+  @ApiNotFoundResponse({ description: 'Not Found - Account with the given ID does not exist' })
+  deleteAccount(
+    @GetUser('id') userId: string,
+    @Param('id') accountId: string,
+  ) {
+    return this.accountService.deleteAccount(userId, accountId);
+  }
+}
@@ -0,0 +1,283 @@
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CalendarService } from 'src/common/calendar';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { TransactionTypeEnum } from 'src/transactions/dto/create-transaction.dto';
+import { getBalanceEffect } from 'src/transactions/transfers';
+import { CreateAccountDto, UpdateAccountDto } from './dto';
+
+@Injectable()
+export class AccountsService {
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+  ) {}
+
+  // Get all accounts of the user with their current balance
+  async getAccounts(userId: string) {
+    return this.getAccountBalances(userId);
+  }
+
+  // Get a specific account with its current balance
+  async getAccountById(userId: string, accountId: string) {
+    const account = await this.verifyOwnership(userId, accountId);
+    const balances = await this.sumTransactions([accountId]);
+
+    return {
+      ...account,
+      balance: account.openingBalance + (balances.get(accountId) || 0),
+    };
+  }
+
+  // Create a new account, in the currency of the user preferences unless another one is given
+  async createAccount(userId: string, dto: CreateAccountDto) {
+    let currency = dto.currency;
+
+    if (!currency) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { currency: true },
+      });
+      currency = user?.currency || 'USD';
+    }
+
+    const account = await this.prisma.account.create({
+      data: {
+        userId,
+        name: dto.name,
+        type: dto.type,
+        openingBalance: dto.openingBalance ?? 0,
+        currency,
+      },
+    });
+
+    return { ...account, balance: account.openingBalance };
+  }
+
+  // Update an existing account
+  async updateAccount(userId: string, accountId: string, dto: UpdateAccountDto) {
+    // Check if account exists and belongs to the user
+    const account = await this.verifyOwnership(userId, accountId);
+
+    // Amounts already recorded are in the old currency, and transfers must stay within one currency.
+    // Trashed transactions count too, since they keep the account and can be restored
+    if (dto.currency && dto.currency !== account.currency) {
+      const transactionCount = await this.prisma.transaction.count({
+        where: {
+          OR: [{ accountId }, { transferAccountId: accountId }],
+        },
+      });
+
+      if (transactionCount > 0) {
+        throw new ForbiddenException('Cannot change the currency of an account that has transactions');
+      }
+    }
+
+    await this.prisma.account.update({
+      where: { id: accountId },
+      data: {
+        ...(dto.name && { name: dto.name }),
+        ...(dto.type && { type: dto.type }),
+        ...(dto.openingBalance !== undefined && { openingBalance: dto.openingBalance }),
+        ...(dto.currency && { currency: dto.currency }),
+      },
+    });
+
+    return this.getAccountById(userId, accountId);
+  }
+
+  // Delete an account that no longer has transactions
+  async deleteAccount(userId: string, accountId: string) {
+    // Check if account exists and belongs to the user
+    await this.verifyOwnership(userId, accountId);
+
+    // Trashed transactions do not count, they are detached from the account instead
+    const transactionCount = await this.prisma.transaction.count({
+      where: {
+        OR: [{ accountId }, { transferAccountId: accountId }],
+        ...NOT_DELETED,
+      },
+    });
+
+    if (transactionCount > 0) {
+      throw new ForbiddenException(
+        'Cannot delete an account that has transactions. ' +
+        'Please move those transactions to a different account first.'
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.transaction.updateMany({
+        where: { accountId },
+        data: { accountId: null },
+      }),
+      this.prisma.transaction.updateMany({
+        where: { transferAccountId: accountId },
+        data: { transferAccountId: null },
+      }),
+      this.prisma.account.delete({
+        where: { id: accountId },
+      }),
+    ]);
+
+    return { message: 'Account deleted successfully' };
+  }
+
+  /**
+   * Get the transactions of an account in chronological order with the balance after each one
+   * Transfers appear in both accounts, as money out of one and into the other
+   * The running balance starts from the balance carried into the period, so it matches the
+   * current balance when no end date is given
+   *
+   * @param userId - Current authenticated user ID
+   * @param accountId - ID of the account
+   * @param fromDate - Optional start date of the period
+   * @param toDate - Optional end date of the period
+   * @returns Balances at the start and end of the period and the transactions with their running balance
+   */
+  async getAccountTransactions(userId: string, accountId: string, fromDate?: Date, toDate?: Date) {
+    const account = await this.verifyOwnership(userId, accountId);
+
+    // Date-only filters cover whole days in the user's timezone
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const startDate = fromDate ? this.calendar.resolveDateFilter(fromDate, userCalendar, 'start') : undefined;
+    const endDate = toDate ? this.calendar.resolveDateFilter(toDate, userCalendar, 'end') : undefined;
+
+    // Balance carried into the period by the transactions before it
+    const carried = startDate
+      ? (await this.sumTransactions([accountId], { lt: startDate })).get(accountId) || 0
+      : 0;
+    const openingBalance = account.openingBalance + carried;
+
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        OR: [{ accountId }, { transferAccountId: accountId }],
+        ...NOT_DELETED,
+        ...((startDate || endDate) && {
+          date: {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+          },
+        }),
+      },
+      include: {
+        category: {
+          select: {
+            id: true,
+            name: true,
+            icon: true,
+            color: true,
+          },
+        },
+        splits: {
+          include: {
+            category: {
+              select: {
+                id: true,
+                name: true,
+                icon: true,
+                color: true,
+              },
+            },
+          },
+        },
+      },
+      // Transactions of the same day keep the order they were recorded in
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    let runningBalance = openingBalance;
+    const items = transactions.map(transaction => {
+      runningBalance += getBalanceEffect(transaction, accountId);
+      return { ...transaction, runningBalance };
+    });
+
+    return {
+      account,
+      openingBalance,
+      closingBalance: runningBalance,
+      transactions: items,
+    };
+  }
+
+  /**
+   * Get the accounts of a user with their balance
+   *
+   * @param userId - Current authenticated user ID
+   * @param asOf - Optional date, only transactions up to it count towards the balances
+   * @returns Accounts sorted by name, each with its balance
+   */
+  async getAccountBalances(userId: string, asOf?: Date) {
+    const accounts = await this.prisma.account.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+
+    const balances = await this.sumTransactions(
+      accounts.map(account => account.id),
+      asOf && { lte: asOf },
+    );
+
+    return accounts.map(account => ({
+      ...account,
+      balance: account.openingBalance + (balances.get(account.id) || 0),
+    }));
+  }
+
+  // Helper method to verify ownership
+  private async verifyOwnership(userId: string, accountId: string) {
+    const account = await this.prisma.account.findUnique({
+      where: { id: accountId },
+    });
+
+    if (!account) {
+      throw new NotFoundException('Account not found');
+    }
+
+    if (account.userId !== userId) {
+      throw new ForbiddenException('Access to resource denied');
+    }
+
+    return account;
+  }
+
+  // Helper method to get the net amount the transactions of each account added to its balance
+  private async sumTransactions(accountIds: string[], dateFilter?: { lt?: Date; lte?: Date }) {
+    const totals = new Map<string, number>();
+    if (accountIds.length === 0) return totals;
+
+    const where = {
+      ...NOT_DELETED,
+      ...(dateFilter && { date: dateFilter }),
+    };
+
+    const [groups, transfersIn] = await Promise.all([
+      this.prisma.transaction.groupBy({
+        by: ['accountId', 'type'],
+        where: { ...where, accountId: { in: accountIds } },
+        _sum: { amount: true },
+      }),
+      this.prisma.transaction.groupBy({
+        by: ['transferAccountId'],
+        where: { ...where, type: TransactionTypeEnum.TRANSFER, transferAccountId: { in: accountIds } },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const add = (accountId: string | null, amount: number) => {
+      if (accountId) totals.set(accountId, (totals.get(accountId) || 0) + amount);
+    };
+
+    // Income adds to the account, expenses and transfers out take from it
+    for (const group of groups) {
+      const amount = group._sum.amount || 0;
+      add(group.accountId, group.type === TransactionTypeEnum.INCOME ? amount : -amount);
+    }
+
+    for (const group of transfersIn) {
+      add(group.transferAccountId, group._sum.amount || 0);
+    }
+
+    return totals;
+  }
+}
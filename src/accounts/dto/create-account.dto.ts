@@ -0,0 +1,47 @@
+import { IsEnum, IsISO4217CurrencyCode, IsNotEmpty, IsNumber, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum AccountTypeEnum {
+  CHECKING = 'CHECKING',
+  SAVINGS = 'SAVINGS',
+  CREDIT_CARD = 'CREDIT_CARD',
+  CASH = 'CASH',
+}
+
+export class CreateAccountDto {
+  @ApiProperty({
+    description: 'Account name',
+    example: 'Main checking',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Account type',
+    enum: AccountTypeEnum,
+    example: AccountTypeEnum.CHECKING,
+  })
+  @IsEnum(AccountTypeEnum)
+  @IsNotEmpty()
+  type: AccountTypeEnum;
+
+  @ApiProperty({
+    description: 'Balance before the first recorded transaction, negative for money owed on a credit card',
+    example: 1250.75,
+    required: false,
+    default: 0,
+  })
+  @IsNumber()
+  @IsOptional()
+  openingBalance?: number;
+
+  @ApiProperty({
+    description: 'ISO 4217 currency code, defaults to the currency of the user preferences',
+    example: 'USD',
+    required: false,
+  })
+  @IsISO4217CurrencyCode()
+  @IsOptional()
+  currency?: string;
+}
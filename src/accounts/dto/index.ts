@@ -0,0 +1,2 @@
+export * from './create-account.dto';
+export * from './update-account.dto';
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateAccountDto } from './create-account.dto';
+
+export class UpdateAccountDto extends PartialType(CreateAccountDto) {}
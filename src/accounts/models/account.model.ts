@@ -0,0 +1,94 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AccountTypeEnum } from '../dto/create-account.dto';
+import { TransactionModel } from 'src/transactions/models/transaction.model';
+
+export class AccountModel {
+  @ApiProperty({
+    description: 'Unique identifier',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User ID who owns this account',
+    example: 'cl9ebq7xj000023l29wbg5b2j',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Account name',
+    example: 'Main checking',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Account type',
+    enum: AccountTypeEnum,
+    example: AccountTypeEnum.CHECKING,
+  })
+  type: AccountTypeEnum;
+
+  @ApiProperty({
+    description: 'Balance before the first recorded transaction',
+    example: 1250.75,
+  })
+  openingBalance: number;
+
+  @ApiProperty({
+    description: 'ISO 4217 currency code',
+    example: 'USD',
+  })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Current balance: the opening balance plus income and transfers in, minus expenses and transfers out',
+    example: 2830.4,
+  })
+  balance: number;
+
+  @ApiProperty({
+    description: 'Date when the account was created',
+    example: '2023-04-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Date when the account was last updated',
+    example: '2023-05-20T14:15:30.000Z',
+  })
+  updatedAt: Date;
+}
+
+class AccountTransactionModel extends TransactionModel {
+  @ApiProperty({
+    description: 'Balance of the account after this transaction',
+    example: 2710.15,
+  })
+  runningBalance: number;
+}
+
+export class AccountTransactionsModel {
+  @ApiProperty({
+    description: 'The account',
+    type: AccountModel,
+  })
+  account: AccountModel;
+
+  @ApiProperty({
+    description: 'Balance at the start of the period',
+    example: 1250.75,
+  })
+  openingBalance: number;
+
+  @ApiProperty({
+    description: 'Balance at the end of the period',
+    example: 2830.4,
+  })
+  closingBalance: number;
+
+  @ApiProperty({
+    description: 'Transactions of the period in chronological order',
+    type: [AccountTransactionModel],
+  })
+  transactions: AccountTransactionModel[];
+}
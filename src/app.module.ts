@@ -1,30 +1,54 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from './prisma/prisma.module';
 import { AuthModule } from './auth/auth.module';
+import { MailModule } from './mail/mail.module';
+import { FormattingModule } from './common/formatting/formatting.module';
+import { CalendarModule } from './common/calendar/calendar.module';
 import { UserModule } from './users/users.module';
 import { SavingsGoalsModule } from './savings-goals/savings-goals.module';
 import { CategoriesModule } from './categories/categories.module';
 import { TransactionsModule } from './transactions/transactions.module';
+import { CategoryRulesModule } from './category-rules/category-rules.module';
+import { AccountsModule } from './accounts/accounts.module';
 import { BillsModule } from './bills/bills.module';
 import { PlansModule } from './plans/plans.module';
 import { DashboardModule } from './dashboard/dashboard.module';
 import { StatisticsModule } from './statistics/statistics.module';
+import { BudgetsModule } from './budgets/budgets.module';
+import { SettingsModule } from './settings/settings.module';
+import { RecurringTransactionsModule } from './recurring-transactions/recurring-transactions.module';
+import { ExportModule } from './export/export.module';
+import { AccountImportModule } from './account-import/account-import.module';
+import { TrashModule } from './trash/trash.module';
 import { HealthController } from './health/health.controller';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
+    ScheduleModule.forRoot(),
     PrismaModule,
+    MailModule,
+    FormattingModule,
+    CalendarModule,
     UserModule,
     AuthModule,
     SavingsGoalsModule,
     CategoriesModule,
     TransactionsModule,
+    CategoryRulesModule,
+    AccountsModule,
     BillsModule,
     PlansModule,
     DashboardModule,
     StatisticsModule,
+    BudgetsModule,
+    SettingsModule,
+    RecurringTransactionsModule,
+    ExportModule,
+    AccountImportModule,
+    TrashModule,
   ],
   controllers: [HealthController],
 })
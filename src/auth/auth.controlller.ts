@@ -1,13 +1,19 @@
-import { Body, Controller, Post } from "@nestjs/common";
+import { Body, Controller, Delete, Get, Headers, HttpCode, HttpStatus, Ip, Param, Post, UseGuards } from "@nestjs/common";
 import { AuthService } from "./auth.service";
-import { AuthDto, ForgotPasswordDto, ResetPasswordDto } from "./dto";
-import { ApiCreatedResponse, ApiOkResponse, ApiOperation, ApiTags, ApiBadRequestResponse, ApiConflictResponse, ApiUnauthorizedResponse, ApiNotFoundResponse } from "@nestjs/swagger";
-import { AuthUserResponse, ForgotPasswordResponse, ResetPasswordResponse } from "./models/auth.model";
+import { AuthDto, ForgotPasswordDto, RefreshTokenDto, ResetPasswordDto } from "./dto";
+import { SessionsService } from "./sessions.service";
+import { JwtGuard } from "./guard";
+import { GetUser } from "./decorator";
+import { ApiCreatedResponse, ApiOkResponse, ApiOperation, ApiTags, ApiBadRequestResponse, ApiConflictResponse, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiBearerAuth, ApiNoContentResponse, ApiNotFoundResponse, ApiParam } from "@nestjs/swagger";
+import { AuthUserResponse, ForgotPasswordResponse, MessageResponse, ResetPasswordResponse, SessionResponse, TokenPairResponse } from "./models/auth.model";
 
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
-    constructor(private authService: AuthService) {}
+    constructor(
+        private authService: AuthService,
+        private sessionsService: SessionsService,
+    ) {}
 
     @Post('register')
     @ApiOperation({
@@ -24,14 +30,18 @@ export class AuthController {
     @ApiConflictResponse({
         description: 'Email already in use',
     })
-    signup(@Body() dto: AuthDto) {
-        return this.authService.signup(dto);
+    signup(
+        @Body() dto: AuthDto,
+        @Headers('user-agent') userAgent?: string,
+        @Ip() ipAddress?: string,
+    ) {
+        return this.authService.signup(dto, { userAgent, ipAddress });
     }
 
     @Post('login')
     @ApiOperation({
         summary: 'User login',
-        description: 'Authenticates a user and returns a JWT token',
+        description: 'Authenticates a user and returns a JWT access token and a refresh token for a new device session',
     })
     @ApiOkResponse({
         description: 'User has been successfully authenticated',
@@ -40,14 +50,18 @@ export class AuthController {
     @ApiUnauthorizedResponse({
         description: 'Invalid credentials',
     })
-    signin(@Body() dto: AuthDto) {
-        return this.authService.signin(dto);
+    signin(
+        @Body() dto: AuthDto,
+        @Headers('user-agent') userAgent?: string,
+        @Ip() ipAddress?: string,
+    ) {
+        return this.authService.signin(dto, { userAgent, ipAddress });
     }
 
     @Post('forgot-password')
     @ApiOperation({
         summary: 'Forgot password',
-        description: 'Initiates the password reset process',
+        description: 'Emails a single-use password reset token that expires after a limited time',
     })
     @ApiOkResponse({
         description: 'Password reset process initiated',
@@ -67,12 +81,94 @@ export class AuthController {
         type: ResetPasswordResponse,
     })
     @ApiBadRequestResponse({
-        description: 'Invalid token or password',
+        description: 'Invalid password',
     })
-    @ApiNotFoundResponse({
-        description: 'User not found',
+    @ApiForbiddenResponse({
+        description: 'Reset token is invalid, expired or already used',
     })
     resetPassword(@Body() dto: ResetPasswordDto) {
         return this.authService.resetPassword(dto);
     }
+
+    @Post('refresh')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Refresh access token',
+        description: 'Exchanges a refresh token for a new access token and a new refresh token. Reusing an already rotated refresh token revokes the whole session.',
+    })
+    @ApiOkResponse({
+        description: 'Tokens have been successfully refreshed',
+        type: TokenPairResponse,
+    })
+    @ApiUnauthorizedResponse({
+        description: 'Refresh token is invalid, expired, revoked or was reused',
+    })
+    refresh(@Body() dto: RefreshTokenDto) {
+        return this.authService.refresh(dto);
+    }
+
+    @Post('logout')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Logout',
+        description: 'Revokes the session the refresh token belongs to',
+    })
+    @ApiOkResponse({
+        description: 'Session has been revoked',
+        type: MessageResponse,
+    })
+    @ApiUnauthorizedResponse({
+        description: 'Invalid refresh token',
+    })
+    logout(@Body() dto: RefreshTokenDto) {
+        return this.authService.logout(dto);
+    }
+
+    @Get('sessions')
+    @UseGuards(JwtGuard)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({
+        summary: 'List active sessions',
+        description: 'Lists the devices currently signed in to the account',
+    })
+    @ApiOkResponse({
+        description: 'Active sessions retrieved successfully',
+        type: [SessionResponse],
+    })
+    @ApiUnauthorizedResponse({
+        description: 'Unauthorized - JWT token is missing or invalid',
+    })
+    getSessions(
+        @GetUser('id') userId: string,
+        @GetUser('sessionId') sessionId?: string,
+    ) {
+        return this.sessionsService.getSessions(userId, sessionId);
+    }
+
+    @Delete('sessions/:id')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @UseGuards(JwtGuard)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({
+        summary: 'Revoke a session',
+        description: 'Signs a device out by revoking its session and refresh tokens',
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Session ID',
+    })
+    @ApiNoContentResponse({
+        description: 'The session has been successfully revoked',
+    })
+    @ApiUnauthorizedResponse({
+        description: 'Unauthorized - JWT token is missing or invalid',
+    })
+    @ApiForbiddenResponse({ description: 'Forbidden - User does not own this session' })
+    @ApiNotFoundResponse({ description: 'Not Found - Session with the given ID does not exist' })
+    revokeSession(
+        @GetUser('id') userId: string,
+        @Param('id') sessionId: string,
+    ) {
+        return this.sessionsService.revokeSession(userId, sessionId);
+    }
 }
\ No newline at end of file
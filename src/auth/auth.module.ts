@@ -1,13 +1,15 @@
 import { Module } from "@nestjs/common";
 import { AuthController } from "./auth.controlller";
 import { AuthService } from "./auth.service";
+import { SessionsService } from "./sessions.service";
 import { JwtModule } from "@nestjs/jwt";
 import { JwtStrategy } from "./strategy";
 import { ConfigModule, ConfigService } from "@nestjs/config";
 
 @Module({
     controllers: [AuthController],
-    providers: [AuthService, JwtStrategy],
+    providers: [AuthService, SessionsService, JwtStrategy],
+    exports: [SessionsService],
     imports: [
         JwtModule.registerAsync({
             imports: [ConfigModule],
@@ -1,11 +1,16 @@
-import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { AuthDto, ForgotPasswordDto, ResetPasswordDto } from './dto';
+import { AuthDto, ForgotPasswordDto, RefreshTokenDto, ResetPasswordDto } from './dto';
 import * as argon from 'argon2';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
-import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes } from 'crypto';
+import { MailService } from 'src/mail/mail.service';
+import { SessionClientInfo, SessionsService } from './sessions.service';
+import { DEFAULT_CATEGORY_TEMPLATES, resolveCategoryTemplate } from 'src/categories/default-categories';
+
+const DEFAULT_RESET_TOKEN_TTL_MINUTES = 60;
 
 @Injectable()
 export class AuthService {
@@ -13,22 +18,30 @@ export class AuthService {
     private prisma: PrismaService,
     private config: ConfigService,
     private jwt: JwtService,
+    private mail: MailService,
+    private sessions: SessionsService,
   ) {}
 
-  async signup(dto: AuthDto) {
+  async signup(dto: AuthDto, client: SessionClientInfo = {}) {
     const hashedPassword = await argon.hash(dto.password);
+    const categoryTemplate = resolveCategoryTemplate(dto.categoryTemplate, this.config.get<string>('DEFAULT_CATEGORY_TEMPLATE'));
 
     try {
+      // New users start with the default categories of their template
       const user = await this.prisma.user.create({
         data: {
           email: dto.email,
           password: hashedPassword,
           firstName: dto.firstName || null,
           lastName: dto.lastName || null,
+          categoryTemplate,
+          categories: {
+            create: DEFAULT_CATEGORY_TEMPLATES[categoryTemplate].map(category => ({ ...category, isDefault: false })),
+          },
         },
       });
 
-      const token = await this.signToken(user.id, user.email);
+      const token = await this.issueTokens(user.id, user.email, { deviceName: dto.deviceName, ...client });
 
       const { password, ...userWithoutPassword } = user;
       return {
@@ -45,7 +58,7 @@ export class AuthService {
     }
   }
 
-  async signin(dto: AuthDto) {
+  async signin(dto: AuthDto, client: SessionClientInfo = {}) {
     const user = await this.prisma.user.findUnique({
       where: {
         email: dto.email,
@@ -58,7 +71,7 @@ export class AuthService {
 
     if (!passwordMatches) throw new ForbiddenException('Invalid credentials');
 
-    const token = await this.signToken(user.id, user.email);
+    const token = await this.issueTokens(user.id, user.email, { deviceName: dto.deviceName, ...client });
 
     const { password, ...userWithoutPassword } = user;
     return {
@@ -68,54 +81,142 @@ export class AuthService {
   }
 
   async forgotPassword(dto: ForgotPasswordDto) {
+    const message = 'If your email exists in our system, you will receive a password reset link';
+
     const user = await this.prisma.user.findUnique({
       where: { email: dto.email },
     });
 
     if (!user) {
-      return { message: 'If your email exists in our system, you will receive a password reset link' };
+      return { message };
     }
 
-    const resetToken = uuidv4();
-    
-    console.log(`Reset token for ${dto.email}: ${resetToken}`);
+    const resetToken = randomBytes(32).toString('hex');
+    const ttlMinutes = Number(this.config.get('PASSWORD_RESET_TOKEN_TTL_MINUTES')) || DEFAULT_RESET_TOKEN_TTL_MINUTES;
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    // Only the most recently requested token stays valid
+    await this.prisma.$transaction([
+      this.prisma.passwordResetToken.updateMany({
+        where: { userId: user.id, used: false },
+        data: { used: true, usedAt: new Date() },
+      }),
+      this.prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: this.hashResetToken(resetToken),
+          expiresAt,
+        },
+      }),
+    ]);
+
+    await this.mail.sendPasswordReset(user.email, resetToken, expiresAt);
 
-    return { 
-      message: 'If your email exists in our system, you will receive a password reset link',
+    return {
+      message,
       resetToken: process.env.NODE_ENV === 'development' ? resetToken : undefined
     };
   }
 
   async resetPassword(dto: ResetPasswordDto) {
-    if (!dto.token || dto.token.length < 10) {
-      throw new ForbiddenException('Invalid reset token');
-    }
-
     const user = await this.prisma.user.findUnique({
       where: { email: dto.email },
     });
 
+    // Same error for unknown emails so the endpoint does not reveal accounts
     if (!user) {
-      throw new NotFoundException('User not found');
+      throw new ForbiddenException('Invalid or expired reset token');
+    }
+
+    const resetToken = await this.prisma.passwordResetToken.findFirst({
+      where: {
+        userId: user.id,
+        tokenHash: this.hashResetToken(dto.token),
+        used: false,
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (!resetToken) {
+      throw new ForbiddenException('Invalid or expired reset token');
     }
 
     const hashedPassword = await argon.hash(dto.newPassword);
 
-    await this.prisma.user.update({
-      where: { id: user.id },
-      data: { password: hashedPassword },
+    await this.prisma.$transaction(async (prisma) => {
+      const now = new Date();
+
+      // Conditional update so two concurrent resets with the same token cannot both succeed
+      const { count } = await prisma.passwordResetToken.updateMany({
+        where: { id: resetToken.id, used: false, expiresAt: { gt: now } },
+        data: { used: true, usedAt: now },
+      });
+
+      if (count === 0) {
+        throw new ForbiddenException('Invalid or expired reset token');
+      }
+
+      // Invalidate every other outstanding token for the user and update the password
+      await prisma.passwordResetToken.updateMany({
+        where: { userId: user.id, used: false },
+        data: { used: true, usedAt: now },
+      });
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { password: hashedPassword },
+      });
     });
 
+    // Sign out every device that may have been using the old password
+    await this.sessions.revokeAllSessions(user.id);
+
     return { message: 'Password has been successfully reset' };
   }
 
+  async refresh(dto: RefreshTokenDto) {
+    const { session, refreshToken } = await this.sessions.rotateRefreshToken(dto.refreshToken);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: session.userId },
+    });
+
+    if (!user) throw new UnauthorizedException('Invalid refresh token');
+
+    const token = await this.signToken(user.id, user.email, session.id);
+
+    return {
+      ...token,
+      refresh_token: refreshToken,
+      session_id: session.id,
+    };
+  }
+
+  async logout(dto: RefreshTokenDto) {
+    return this.sessions.revokeByRefreshToken(dto.refreshToken);
+  }
+
+  // Start a device session and return both access and refresh tokens
+  async issueTokens(userId: string, email: string, client: SessionClientInfo = {}) {
+    const { session, refreshToken } = await this.sessions.createSession(userId, client);
+    const token = await this.signToken(userId, email, session.id);
+
+    return {
+      ...token,
+      refresh_token: refreshToken,
+      session_id: session.id,
+    };
+  }
+
   async signToken(
     userId: string,
     email: string,
+    sessionId?: string,
   ): Promise<{ access_token: string }> {
     const payload = {
       sub: userId,
       email,
+      ...(sessionId && { sid: sessionId }),
     };
 
     const secret = this.config.get('JWT_SECRET');
@@ -129,4 +230,9 @@ export class AuthService {
       access_token: token,
     };
   }
+
+  // Reset tokens are stored as SHA-256 hashes so a database leak cannot be replayed
+  private hashResetToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
 }
@@ -1,5 +1,6 @@
-import { IsEmail, IsNotEmpty, IsOptional, IsString } from "class-validator";
+import { IsEmail, IsIn, IsNotEmpty, IsOptional, IsString } from "class-validator";
 import { ApiProperty } from "@nestjs/swagger";
+import { CATEGORY_TEMPLATE_NAMES } from "src/categories/default-categories";
 
 export class AuthDto {
     @ApiProperty({
@@ -36,4 +37,23 @@ export class AuthDto {
     @IsString()
     @IsOptional()
     lastName?: string;
+
+    @ApiProperty({
+        description: 'Name of the device signing in, shown in the sessions list',
+        example: 'iPhone 15',
+        required: false,
+    })
+    @IsString()
+    @IsOptional()
+    deviceName?: string;
+
+    @ApiProperty({
+        description: 'Language of the default categories created at registration, defaults to the server setting',
+        enum: CATEGORY_TEMPLATE_NAMES,
+        example: 'en',
+        required: false,
+    })
+    @IsIn(CATEGORY_TEMPLATE_NAMES)
+    @IsOptional()
+    categoryTemplate?: string;
 }
\ No newline at end of file
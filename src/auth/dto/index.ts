@@ -1,3 +1,4 @@
 export * from "./auth.dto";
 export * from "./forgot-password.dto";
-export * from "./reset-password.dto";
\ No newline at end of file
+export * from "./reset-password.dto";
+export * from "./refresh-token.dto";
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from "class-validator";
+import { ApiProperty } from "@nestjs/swagger";
+
+export class RefreshTokenDto {
+    @ApiProperty({
+        description: 'Refresh token issued at login, registration or the previous refresh',
+        example: '3f1c9a7e5b2d4c6f8a0e1b3d5f7a9c1e3b5d7f9a1c3e5b7d9f1a3c5e7b9d1f3a5c7e9b1d3f5a7c9e1b3d5f7a9c',
+    })
+    @IsString()
+    @IsNotEmpty()
+    refreshToken: string;
+}
@@ -11,8 +11,8 @@ export class ResetPasswordDto {
     email: string;
 
     @ApiProperty({
-        description: 'Reset token received in email or from forgotten password endpoint',
-        example: 'a1b2c3d4-5678-90ab-cdef-ghijklmnopqr',
+        description: 'Single-use reset token received by email',
+        example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
     })
     @IsString()
     @IsNotEmpty()
@@ -1,5 +1,6 @@
 export * from './auth.module';
 export * from './auth.service';
+export * from './sessions.service';
 export * from './auth.controlller';
 export * from './decorator';
 export * from './guard';
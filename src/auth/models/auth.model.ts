@@ -52,11 +52,30 @@ export class AuthUserResponse {
   })
   currency: string;
 
+  @ApiProperty({
+    description: 'Template of the default categories created at registration',
+    example: 'en',
+    nullable: true,
+  })
+  categoryTemplate: string | null;
+
   @ApiProperty({
     description: 'JWT access token for authentication',
     example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
   })
   access_token: string;
+
+  @ApiProperty({
+    description: 'Long-lived refresh token, rotated on every use',
+    example: '3f1c9a7e5b2d4c6f8a0e1b3d5f7a9c1e3b5d7f9a1c3e5b7d9f1a3c5e7b9d1f3a5c7e9b1d3f5a7c9e1b3d5f7a9c',
+  })
+  refresh_token: string;
+
+  @ApiProperty({
+    description: 'ID of the device session the tokens belong to',
+    example: '665f1c2e8b3a4d5e6f708192',
+  })
+  session_id: string;
 }
 
 export class ForgotPasswordResponse {
@@ -68,7 +87,7 @@ export class ForgotPasswordResponse {
 
   @ApiProperty({
     description: 'Reset token (only in development mode)',
-    example: 'a1b2c3d4-5678-90ab-cdef-ghijklmnopqr',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
     required: false,
   })
   resetToken?: string;
@@ -80,4 +99,85 @@ export class ResetPasswordResponse {
     example: 'Password has been successfully reset',
   })
   message: string;
-} 
\ No newline at end of file
+} 
+
+export class TokenPairResponse {
+  @ApiProperty({
+    description: 'JWT access token for authentication',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  access_token: string;
+
+  @ApiProperty({
+    description: 'New refresh token; the one sent in the request can no longer be used',
+    example: '3f1c9a7e5b2d4c6f8a0e1b3d5f7a9c1e3b5d7f9a1c3e5b7d9f1a3c5e7b9d1f3a5c7e9b1d3f5a7c9e1b3d5f7a9c',
+  })
+  refresh_token: string;
+
+  @ApiProperty({
+    description: 'ID of the device session the tokens belong to',
+    example: '665f1c2e8b3a4d5e6f708192',
+  })
+  session_id: string;
+}
+
+export class SessionResponse {
+  @ApiProperty({
+    description: 'Session ID',
+    example: '665f1c2e8b3a4d5e6f708192',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Device name provided at login',
+    example: 'iPhone 15',
+    nullable: true,
+  })
+  deviceName: string | null;
+
+  @ApiProperty({
+    description: 'User agent of the client that created the session',
+    example: 'BudgetBuddy/2.3.0 (iOS 17.5)',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    description: 'IP address the session was created from',
+    example: '203.0.113.42',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    description: 'Date when the session was created',
+    example: '2024-05-01T08:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Date when the session last refreshed its tokens',
+    example: '2024-05-20T17:45:00.000Z',
+  })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    description: 'Date when the session expires unless refreshed',
+    example: '2024-06-19T17:45:00.000Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'Whether this is the session making the request',
+    example: true,
+  })
+  current: boolean;
+}
+
+export class MessageResponse {
+  @ApiProperty({
+    description: 'Response message',
+    example: 'Logged out successfully',
+  })
+  message: string;
+}
\ No newline at end of file
@@ -0,0 +1,213 @@
+import { ForbiddenException, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+export interface SessionClientInfo {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  // Start a new device session and issue its first refresh token
+  async createSession(userId: string, client: SessionClientInfo = {}) {
+    const session = await this.prisma.session.create({
+      data: {
+        userId,
+        deviceName: client.deviceName,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+        expiresAt: this.getRefreshTokenExpiry(),
+      },
+    });
+
+    const refreshToken = await this.issueRefreshToken(session.id);
+
+    return { session, refreshToken };
+  }
+
+  // Exchange a refresh token for a new one, revoking the whole family on reuse
+  async rotateRefreshToken(refreshToken: string) {
+    const storedToken = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: { session: true },
+    });
+
+    if (!storedToken || storedToken.session.revoked) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (storedToken.used) {
+      await this.revokeSessionById(storedToken.sessionId);
+      throw new UnauthorizedException('Refresh token reuse detected, session has been revoked');
+    }
+
+    const now = new Date();
+    if (storedToken.expiresAt <= now || storedToken.session.expiresAt <= now) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    // Conditional update so two concurrent refreshes cannot both succeed
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: storedToken.id, used: false },
+      data: { used: true, usedAt: now },
+    });
+
+    if (count === 0) {
+      await this.revokeSessionById(storedToken.sessionId);
+      throw new UnauthorizedException('Refresh token reuse detected, session has been revoked');
+    }
+
+    const session = await this.prisma.session.update({
+      where: { id: storedToken.sessionId },
+      data: {
+        lastUsedAt: now,
+        expiresAt: this.getRefreshTokenExpiry(),
+      },
+    });
+
+    const newRefreshToken = await this.issueRefreshToken(session.id);
+
+    return { session, refreshToken: newRefreshToken };
+  }
+
+  // Revoke the session a refresh token belongs to (logout)
+  async revokeByRefreshToken(refreshToken: string) {
+    const storedToken = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+    });
+
+    if (!storedToken) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    await this.revokeSessionById(storedToken.sessionId);
+
+    return { message: 'Logged out successfully' };
+  }
+
+  // Get all active sessions for a user
+  async getSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        revoked: false,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map(session => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  // Revoke a single session owned by the user
+  async revokeSession(userId: string, sessionId: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    if (session.userId !== userId) {
+      throw new ForbiddenException('Access to resource denied');
+    }
+
+    await this.revokeSessionById(sessionId);
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  // Revoke every session of a user (e.g. after a password change), optionally keeping one
+  async revokeAllSessions(userId: string, exceptSessionId?: string) {
+    const now = new Date();
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        revoked: false,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      select: { id: true },
+    });
+    const sessionIds = sessions.map(session => session.id);
+
+    await this.prisma.$transaction([
+      this.prisma.session.updateMany({
+        where: { id: { in: sessionIds } },
+        data: { revoked: true, revokedAt: now },
+      }),
+      this.prisma.refreshToken.updateMany({
+        where: { sessionId: { in: sessionIds }, used: false },
+        data: { used: true, usedAt: now },
+      }),
+    ]);
+  }
+
+  // Check whether an access token's session is still valid
+  async isSessionActive(sessionId: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    return !!session && !session.revoked && session.expiresAt > new Date();
+  }
+
+  // Helper method to revoke a session and every token in its family
+  private async revokeSessionById(sessionId: string) {
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.session.update({
+        where: { id: sessionId },
+        data: { revoked: true, revokedAt: now },
+      }),
+      this.prisma.refreshToken.updateMany({
+        where: { sessionId, used: false },
+        data: { used: true, usedAt: now },
+      }),
+    ]);
+  }
+
+  // Helper method to create and store a new refresh token for a session
+  private async issueRefreshToken(sessionId: string) {
+    const refreshToken = randomBytes(48).toString('hex');
+
+    await this.prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: this.hashToken(refreshToken),
+        expiresAt: this.getRefreshTokenExpiry(),
+      },
+    });
+
+    return refreshToken;
+  }
+
+  private getRefreshTokenExpiry() {
+    const ttlDays = Number(this.config.get('REFRESH_TOKEN_TTL_DAYS')) || DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+    return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+  }
+
+  private hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,14 +1,16 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { SessionsService } from '../sessions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   constructor(
     config: ConfigService,
     private prisma: PrismaService,
+    private sessions: SessionsService,
   ) {
     const secret = config.get<string>('JWT_SECRET');
     if (!secret) {
@@ -22,7 +24,12 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   }
 
   // Implement the validate method
-  async validate(payload: { sub: string; email: string }) {
+  async validate(payload: { sub: string; email: string; sid?: string }) {
+    // Reject access tokens whose session was revoked (logout or device removal)
+    if (payload.sid && !(await this.sessions.isSessionActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     // The payload contains the decoded JWT
     const user = await this.prisma.user.findUnique({
       where: { id: payload.sub },
@@ -35,6 +42,6 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
     const { password, ...userWithoutPassword } = user;
 
     // Return the user object without the password field
-    return userWithoutPassword; // Attach user info to the request object
+    return { ...userWithoutPassword, sessionId: payload.sid }; // Attach user info to the request object
   }
 }
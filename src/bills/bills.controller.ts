@@ -1,12 +1,14 @@
 import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Query, UseGuards } from '@nestjs/common';
-import { ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse, ApiConflictResponse } from '@nestjs/swagger';
 import { JwtGuard } from 'src/auth/guard';
 import { GetUser } from 'src/auth/decorator';
-import { BillsService } from './bills.service';
+import { BillsService, MAX_AUTOPAY_LOG_LIMIT } from './bills.service';
 import { CreateBillDto } from './dto/create-bill.dto';
 import { UpdateBillDto } from './dto/update-bill.dto';
 import { PayBillDto } from './dto/pay-bill.dto';
 import { BillModel, BillStatusEnum } from './models/bill.model';
+import { BillPaymentModel } from './models/bill-payment.model';
+import { AutopayLogModel } from './models/autopay-log.model';
 import { ValidateBillStatusPipe } from './pipes/validate-bill-status.pipe';
 import { ParseIntPipe } from '@nestjs/common';
 
@@ -77,6 +79,45 @@ export class BillsController {
     return this.billsService.getBillReminders(userId, days || 7);
   }
 
+  /**
+   * Get the log of automatic payments
+   * 
+   * @param userId - Current authenticated user ID
+   * @param billId - Optional bill to restrict the log to
+   * @param limit - Maximum number of entries to return
+   * @returns Autopay log entries, most recent first
+   */
+  @Get('autopay-log')
+  @ApiOperation({
+    summary: 'Get the autopay log',
+    description: 'Retrieves the billing cycles processed by autopay, including failed attempts',
+  })
+  @ApiQuery({
+    name: 'billId',
+    required: false,
+    type: String,
+    description: 'Only return entries for this bill',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: `Maximum number of entries to return (default: 50, max: ${MAX_AUTOPAY_LOG_LIMIT})`,
+  })
+  @ApiOkResponse({
+    description: 'Autopay log retrieved successfully',
+    type: [AutopayLogModel],
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Bill with the given ID does not exist' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this bill' })
+  getAutopayLog(
+    @GetUser('id') userId: string,
+    @Query('billId') billId?: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    return this.billsService.getAutopayLog(userId, billId, limit || 50);
+  }
+
   /**
    * Get a bill by ID
    * 
@@ -106,6 +147,35 @@ export class BillsController {
     return this.billsService.getBillById(userId, billId);
   }
 
+  /**
+   * Get the payment history of a bill
+   * 
+   * @param userId - Current authenticated user ID
+   * @param billId - ID of the bill
+   * @returns Payments of the bill, most recent billing cycle first
+   */
+  @Get(':id/payments')
+  @ApiOperation({
+    summary: 'Get bill payments',
+    description: 'Retrieves the payments recorded for a bill, including whether each cycle was paid late',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Bill ID',
+  })
+  @ApiOkResponse({
+    description: 'Bill payments retrieved successfully',
+    type: [BillPaymentModel],
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Bill with the given ID does not exist' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this bill' })
+  getBillPayments(
+    @GetUser('id') userId: string,
+    @Param('id') billId: string,
+  ) {
+    return this.billsService.getBillPayments(userId, billId);
+  }
+
   /**
    * Create a new bill
    * 
@@ -171,7 +241,7 @@ export class BillsController {
   @Put(':id/pay')
   @ApiOperation({
     summary: 'Mark a bill as paid',
-    description: 'Updates a bill status to paid and optionally creates a transaction',
+    description: 'Records a payment for the current billing cycle, advances the due date and optionally creates a transaction',
   })
   @ApiParam({
     name: 'id',
@@ -181,6 +251,7 @@ export class BillsController {
     description: 'The bill has been successfully marked as paid',
     type: BillModel,
   })
+  @ApiConflictResponse({ description: 'Conflict - The billing cycle was paid by another request' })
   @ApiForbiddenResponse({ description: 'Forbidden - User does not own this bill' })
   @ApiNotFoundResponse({ description: 'Not Found - Bill with the given ID does not exist' })
   markBillAsPaid(
@@ -191,6 +262,36 @@ export class BillsController {
     return this.billsService.markBillAsPaid(userId, billId, dto);
   }
 
+  /**
+   * Undo the latest payment of a bill
+   * 
+   * @param userId - Current authenticated user ID
+   * @param billId - ID of the bill
+   * @returns The updated bill
+   */
+  @Put(':id/undo-payment')
+  @ApiOperation({
+    summary: 'Undo the latest bill payment',
+    description: 'Deletes the latest payment and its transaction, and rolls the due date back to the cycle it settled',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Bill ID',
+  })
+  @ApiOkResponse({
+    description: 'The latest payment has been undone',
+    type: BillModel,
+  })
+  @ApiBadRequestResponse({ description: 'Bill has no payments to undo' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this bill' })
+  @ApiNotFoundResponse({ description: 'Not Found - Bill with the given ID does not exist' })
+  undoLastPayment(
+    @GetUser('id') userId: string,
+    @Param('id') billId: string,
+  ) {
+    return this.billsService.undoLastPayment(userId, billId);
+  }
+
   /**
    * Delete a bill
    * 
@@ -202,7 +303,7 @@ export class BillsController {
   @Delete(':id')
   @ApiOperation({
     summary: 'Delete a bill',
-    description: 'Deletes a bill by ID',
+    description: 'Moves a bill to the trash, it can be restored from /trash until it is purged',
   })
   @ApiParam({
     name: 'id',
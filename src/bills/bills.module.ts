@@ -1,12 +1,13 @@
 import { Module } from '@nestjs/common';
 import { BillsController } from './bills.controller';
 import { BillsService } from './bills.service';
+import { BillsScheduler } from './bills.scheduler';
 import { PrismaModule } from 'src/prisma/prisma.module';
 
 @Module({
   imports: [PrismaModule],
   controllers: [BillsController],
-  providers: [BillsService],
+  providers: [BillsService, BillsScheduler],
   exports: [BillsService],
 })
 export class BillsModule {}
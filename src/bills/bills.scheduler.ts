@@ -0,0 +1,24 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { BillsService } from './bills.service';
+
+@Injectable()
+export class BillsScheduler {
+  private readonly logger = new Logger(BillsScheduler.name);
+
+  constructor(private billsService: BillsService) {}
+
+  // Pay autopay bills every hour so each one is charged early on its due day in the owner's timezone
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleAutopayBills() {
+    try {
+      const result = await this.billsService.processAutopayBills();
+
+      if (result.recordedPayments > 0) {
+        this.logger.log(`Recorded ${result.recordedPayments} autopay payments for ${result.processedBills} bills`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to process autopay bills', error instanceof Error ? error.stack : error);
+    }
+  }
+}
@@ -1,43 +1,63 @@
-import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { AutopayStatus, Bill } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { CreateBillDto } from './dto/create-bill.dto';
 import { UpdateBillDto } from './dto/update-bill.dto';
 import { PayBillDto } from './dto/pay-bill.dto';
 import { BillStatusEnum } from './models/bill.model';
 import { TransactionTypeEnum } from 'src/transactions/dto/create-transaction.dto';
+import { CalendarService, UserCalendar } from 'src/common/calendar';
+import { addDays } from 'date-fns';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+
+export interface RecordPaymentOptions {
+  paidDate: Date;
+  amountPaid: number;
+  createTransaction: boolean;
+  // Set by the autopay job, which also writes the cycle to the autopay log
+  automatic?: boolean;
+}
+
+// Cap on the billing cycles paid for one bill in a single autopay run
+const MAX_AUTOPAY_CYCLES_PER_RUN = 366;
+
+export const MAX_AUTOPAY_LOG_LIMIT = 200;
 
 @Injectable()
 export class BillsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+  ) {}
+
+  // Category fields and the latest payment returned with each bill
+  private readonly billInclude = {
+    category: {
+      select: {
+        id: true,
+        name: true,
+        icon: true,
+        color: true,
+      },
+    },
+    payments: {
+      orderBy: { dueDate: 'desc' as const },
+      take: 1,
+    },
+  };
 
   // Get all bills for a user with optional status filtering
   async getBills(userId: string, status?: BillStatusEnum) {
     // Fetch all bills for the user
     const bills = await this.prisma.bill.findMany({
-      where: { userId },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            icon: true,
-            color: true,
-          },
-        },
-      },
+      where: { userId, ...NOT_DELETED },
+      include: this.billInclude,
       orderBy: { dueDate: 'asc' },
     });
 
     // Extend bills with calculated status and daysUntilDue
-    const extendedBills = bills.map(bill => {
-      const { calculatedStatus, daysUntilDue } = this.calculateBillStatus(bill);
-      return {
-        ...bill,
-        status: calculatedStatus,
-        daysUntilDue,
-        lastPaymentDate: null, // This would typically come from a transactions table in a real app
-      };
-    });
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const extendedBills = bills.map(bill => this.withStatus(bill, userCalendar));
 
     // Filter by status if requested
     if (status) {
@@ -49,58 +69,36 @@ export class BillsService {
 
   // Get bill reminders for the next X days
   async getBillReminders(userId: string, days: number) {
-    const today = new Date();
-    const futureDate = new Date();
-    futureDate.setDate(today.getDate() + days);
+    // Cover whole days in the user's timezone, from today until the last requested day
+    const now = new Date();
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const context = this.calendar.getContext(userCalendar);
+    const today = this.calendar.getDayRange(now, userCalendar).startDate;
+    const futureDate = this.calendar.getDayRange(addDays(now, days, { in: context }), userCalendar).endDate;
 
     // Fetch bills due in the specified period
     const bills = await this.prisma.bill.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
         dueDate: {
           gte: today,
           lte: futureDate,
         },
       },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            icon: true,
-            color: true,
-          },
-        },
-      },
+      include: this.billInclude,
       orderBy: { dueDate: 'asc' },
     });
 
     // Extend bills with calculated status and daysUntilDue
-    return bills.map(bill => {
-      const { calculatedStatus, daysUntilDue } = this.calculateBillStatus(bill);
-      return {
-        ...bill,
-        status: calculatedStatus,
-        daysUntilDue,
-        lastPaymentDate: null, // This would typically come from a transactions table in a real app
-      };
-    });
+    return bills.map(bill => this.withStatus(bill, userCalendar));
   }
 
   // Get a specific bill by ID
   async getBillById(userId: string, billId: string) {
     const bill = await this.prisma.bill.findUnique({
-      where: { id: billId },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            icon: true,
-            color: true,
-          },
-        },
-      },
+      where: { id: billId, ...NOT_DELETED },
+      include: this.billInclude,
     });
 
     if (!bill) {
@@ -113,14 +111,9 @@ export class BillsService {
     }
 
     // Calculate status and days until due
-    const { calculatedStatus, daysUntilDue } = this.calculateBillStatus(bill);
+    const userCalendar = await this.calendar.getUserCalendar(userId);
 
-    return {
-      ...bill,
-      status: calculatedStatus,
-      daysUntilDue,
-      lastPaymentDate: null, // This would typically come from a transactions table in a real app
-    };
+    return this.withStatus(bill, userCalendar);
   }
 
   // Create a new bill
@@ -131,6 +124,7 @@ export class BillsService {
         where: {
           id: dto.categoryId,
           userId,
+          ...NOT_DELETED,
         },
       });
 
@@ -150,27 +144,13 @@ export class BillsService {
           notes: dto.notes,
           categoryId: dto.categoryId,
         },
-        include: {
-          category: {
-            select: {
-              id: true,
-              name: true,
-              icon: true,
-              color: true,
-            },
-          },
-        },
+        include: this.billInclude,
       });
 
       // Calculate status and days until due
-      const { calculatedStatus, daysUntilDue } = this.calculateBillStatus(bill);
+      const userCalendar = await this.calendar.getUserCalendar(userId);
 
-      return {
-        ...bill,
-        status: calculatedStatus,
-        daysUntilDue,
-        lastPaymentDate: null,
-      };
+      return this.withStatus(bill, userCalendar);
     } catch (error) {
       throw error;
     }
@@ -187,6 +167,7 @@ export class BillsService {
         where: {
           id: dto.categoryId,
           userId,
+          ...NOT_DELETED,
         },
       });
 
@@ -207,93 +188,240 @@ export class BillsService {
         ...(dto.notes !== undefined && { notes: dto.notes }),
         ...(dto.categoryId && { categoryId: dto.categoryId }),
       },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            icon: true,
-            color: true,
-          },
-        },
-      },
+      include: this.billInclude,
     });
 
     // Calculate status and days until due
-    const { calculatedStatus, daysUntilDue } = this.calculateBillStatus(updatedBill);
+    const userCalendar = await this.calendar.getUserCalendar(userId);
 
-    return {
-      ...updatedBill,
-      status: calculatedStatus,
-      daysUntilDue,
-      lastPaymentDate: null,
-    };
+    return this.withStatus(updatedBill, userCalendar);
   }
 
-  // Mark a bill as paid
+  // Mark the current billing cycle of a bill as paid
   async markBillAsPaid(userId: string, billId: string, dto: PayBillDto) {
     // Check if bill exists and belongs to the user
     const bill = await this.verifyOwnership(userId, billId);
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+
+    const payment = await this.recordPayment(bill, userCalendar, {
+      // Use provided payment date or current date
+      paidDate: dto.paymentDate || new Date(),
+      amountPaid: dto.amount ?? bill.amount,
+      // Create a transaction record unless disabled
+      createTransaction: dto.createTransaction !== false,
+    });
+
+    if (!payment) {
+      throw new ConflictException('Bill was paid concurrently, please reload it and try again');
+    }
+
+    return this.getBillById(userId, billId);
+  }
+
+  // Undo the latest payment, rolling the due date back to the cycle it settled
+  async undoLastPayment(userId: string, billId: string) {
+    // Check if bill exists and belongs to the user
+    await this.verifyOwnership(userId, billId);
+
+    const lastPayment = await this.prisma.billPayment.findFirst({
+      where: { billId },
+      orderBy: { dueDate: 'desc' },
+    });
+
+    if (!lastPayment) {
+      throw new BadRequestException('Bill has no payments to undo');
+    }
+
+    await this.prisma.$transaction(async (prisma) => {
+      await prisma.billPayment.delete({
+        where: { id: lastPayment.id },
+      });
+
+      // Remove the expense recorded for the payment
+      if (lastPayment.transactionId) {
+        await prisma.transactionSplit.deleteMany({
+          where: { transactionId: lastPayment.transactionId },
+        });
+
+        await prisma.goalContribution.updateMany({
+          where: { transactionId: lastPayment.transactionId },
+          data: { transactionId: null },
+        });
+
+        await prisma.transaction.deleteMany({
+          where: { id: lastPayment.transactionId, userId },
+        });
+      }
+
+      await prisma.bill.update({
+        where: { id: billId },
+        data: { dueDate: lastPayment.dueDate },
+      });
+    });
+
+    return this.getBillById(userId, billId);
+  }
+
+  // Get the payment history of a bill, most recent cycle first
+  async getBillPayments(userId: string, billId: string) {
+    // Check if bill exists and belongs to the user
+    await this.verifyOwnership(userId, billId);
+
+    const payments = await this.prisma.billPayment.findMany({
+      where: { billId },
+      orderBy: { dueDate: 'desc' },
+    });
+
+    // Compare paid and due days in the user's timezone to detect late payments
+    const userCalendar = await this.calendar.getUserCalendar(userId);
 
-    // Use provided payment date or current date
-    const paymentDate = dto.paymentDate || new Date();
+    return payments.map(payment => {
+      const daysLate = Math.max(0, this.calendar.getDaysBetween(payment.dueDate, payment.paidDate, userCalendar));
 
+      return {
+        ...payment,
+        daysLate,
+        paidLate: daysLate > 0,
+      };
+    });
+  }
+
+  /**
+   * Record a payment for the current billing cycle and advance the due date
+   * The cycle is claimed atomically, so two concurrent calls cannot pay the same cycle twice
+   *
+   * @param bill - Bill to pay
+   * @param userCalendar - Calendar settings of the bill owner
+   * @param options - Paid date, amount and whether to create the expense transaction
+   * @returns The created payment, or null if the cycle was already paid
+   */
+  async recordPayment(bill: Bill, userCalendar: UserCalendar, options: RecordPaymentOptions) {
     // Calculate the next due date based on frequency
-    const nextDueDate = this.calculateNextDueDate(bill.dueDate, bill.frequency);
+    const nextDueDate = this.calendar.addFrequency(bill.dueDate, bill.frequency, userCalendar);
 
-    // Update the bill with new due date
-    const updatedBill = await this.prisma.bill.update({
-      where: { id: billId },
-      data: {
-        dueDate: nextDueDate,
-      },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            icon: true,
-            color: true,
+    return this.prisma.$transaction(async (prisma) => {
+      // Advance the due date only if nobody paid this cycle in the meantime
+      const claimed = await prisma.bill.updateMany({
+        where: { id: bill.id, dueDate: bill.dueDate, ...NOT_DELETED },
+        data: { dueDate: nextDueDate },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const transaction = options.createTransaction
+        ? await prisma.transaction.create({
+          data: {
+            userId: bill.userId,
+            amount: options.amountPaid,
+            date: options.paidDate,
+            description: `Payment for ${bill.name}`,
+            type: TransactionTypeEnum.EXPENSE,
+            categoryId: bill.categoryId,
+            billId: bill.id,
           },
-        },
-      },
-    });
+        })
+        : null;
 
-    // Create a transaction record if requested
-    const createTransaction = dto.createTransaction !== false; // Default to true
-    if (createTransaction) {
-      await this.prisma.transaction.create({
+      const payment = await prisma.billPayment.create({
         data: {
-          userId,
-          amount: bill.amount,
-          date: paymentDate,
-          description: `Payment for ${bill.name}`,
-          type: TransactionTypeEnum.EXPENSE,
-          categoryId: bill.categoryId,
           billId: bill.id,
+          userId: bill.userId,
+          dueDate: bill.dueDate,
+          amountPaid: options.amountPaid,
+          paidDate: options.paidDate,
+          automatic: options.automatic || false,
+          transactionId: transaction?.id,
         },
       });
-    }
 
-    // Calculate status and days until due for the updated bill
-    const { calculatedStatus, daysUntilDue } = this.calculateBillStatus(updatedBill);
+      if (options.automatic) {
+        await prisma.autopayLog.create({
+          data: {
+            billId: bill.id,
+            userId: bill.userId,
+            dueDate: bill.dueDate,
+            amount: options.amountPaid,
+            status: AutopayStatus.PAID,
+            paymentId: payment.id,
+          },
+        });
+      }
+
+      return payment;
+    });
+  }
+
+  /**
+   * Pay every autopay bill whose due date has been reached in the owner's timezone
+   * Cycles are claimed through recordPayment, so overlapping runs or restarts never pay a cycle twice,
+   * and a cycle the job already paid is not paid again after the user undoes it
+   *
+   * @param now - Reference time of the run
+   * @returns Number of bills checked and payments recorded
+   */
+  async processAutopayBills(now: Date = new Date()) {
+    // Fetch a day ahead, the due day may already have started in timezones east of UTC
+    const candidates = await this.prisma.bill.findMany({
+      where: {
+        autopay: true,
+        ...NOT_DELETED,
+        dueDate: { lte: addDays(now, 1) },
+      },
+    });
+
+    const calendars = new Map<string, UserCalendar>();
+    let recordedPayments = 0;
+
+    for (const bill of candidates) {
+      if (!calendars.has(bill.userId)) {
+        calendars.set(bill.userId, await this.calendar.getUserCalendar(bill.userId));
+      }
+
+      recordedPayments += await this.payDueCycles(bill, calendars.get(bill.userId)!, now);
+    }
 
     return {
-      ...updatedBill,
-      status: calculatedStatus,
-      daysUntilDue,
-      lastPaymentDate: paymentDate,
+      processedBills: candidates.length,
+      recordedPayments,
     };
   }
 
+  // Get the autopay log of the user, most recent entries first
+  async getAutopayLog(userId: string, billId?: string, limit: number = 50) {
+    if (billId) {
+      await this.verifyOwnership(userId, billId);
+    }
+
+    return this.prisma.autopayLog.findMany({
+      where: {
+        userId,
+        ...(billId && { billId }),
+        bill: NOT_DELETED,
+      },
+      include: {
+        bill: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), MAX_AUTOPAY_LOG_LIMIT),
+    });
+  }
+
   // Delete a bill
   async deleteBill(userId: string, billId: string) {
     // Check if bill exists and belongs to the user
     await this.verifyOwnership(userId, billId);
 
-    // Delete the bill
-    await this.prisma.bill.delete({
+    // Move the bill to the trash, its payment history is kept until the bill is purged
+    await this.prisma.bill.update({
       where: { id: billId },
+      data: { deletedAt: new Date() },
     });
 
     return { message: 'Bill deleted successfully' };
@@ -302,7 +430,7 @@ export class BillsService {
   // Helper method to verify ownership
   private async verifyOwnership(userId: string, billId: string) {
     const bill = await this.prisma.bill.findUnique({
-      where: { id: billId },
+      where: { id: billId, ...NOT_DELETED },
     });
 
     if (!bill) {
@@ -316,61 +444,125 @@ export class BillsService {
     return bill;
   }
 
+  // Helper method to pay the cycles of one autopay bill that are due, oldest first
+  private async payDueCycles(bill: Bill, userCalendar: UserCalendar, now: Date) {
+    let current = bill;
+    let recordedPayments = 0;
+
+    while (
+      this.calendar.getDaysBetween(now, current.dueDate, userCalendar) <= 0
+      && recordedPayments < MAX_AUTOPAY_CYCLES_PER_RUN
+    ) {
+      // A cycle paid by the job before and undone by the user is left to the user
+      const alreadyPaid = await this.prisma.autopayLog.findFirst({
+        where: {
+          billId: current.id,
+          dueDate: current.dueDate,
+          status: AutopayStatus.PAID,
+        },
+      });
+
+      if (alreadyPaid) {
+        break;
+      }
+
+      try {
+        const payment = await this.recordPayment(current, userCalendar, {
+          // Charge on the due date, unless it is later today
+          paidDate: current.dueDate < now ? current.dueDate : now,
+          amountPaid: current.amount,
+          createTransaction: true,
+          automatic: true,
+        });
+
+        // Another run or the user paid this cycle in the meantime
+        if (!payment) {
+          break;
+        }
+      } catch (error) {
+        await this.logAutopayFailure(current, error);
+        break;
+      }
+
+      recordedPayments++;
+      current = {
+        ...current,
+        dueDate: this.calendar.addFrequency(current.dueDate, current.frequency, userCalendar),
+      };
+    }
+
+    return recordedPayments;
+  }
+
+  // Helper method to log a failed autopay cycle once, it is retried on the next runs
+  private async logAutopayFailure(bill: Bill, error: unknown) {
+    const logged = await this.prisma.autopayLog.findFirst({
+      where: {
+        billId: bill.id,
+        dueDate: bill.dueDate,
+        status: AutopayStatus.FAILED,
+      },
+    });
+
+    if (logged) {
+      return;
+    }
+
+    await this.prisma.autopayLog.create({
+      data: {
+        billId: bill.id,
+        userId: bill.userId,
+        dueDate: bill.dueDate,
+        amount: bill.amount,
+        status: AutopayStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+
+  // Helper method to replace the included payments with the calculated status fields
+  private withStatus<T extends { dueDate: Date; payments: { dueDate: Date; paidDate: Date }[] }>(
+    bill: T,
+    userCalendar: UserCalendar,
+  ) {
+    const { payments, ...billData } = bill;
+    const { calculatedStatus, daysUntilDue } = this.calculateBillStatus(bill, userCalendar);
+
+    return {
+      ...billData,
+      status: calculatedStatus,
+      daysUntilDue,
+      lastPaymentDate: payments[0]?.paidDate ?? null,
+    };
+  }
+
   // Helper method to calculate bill status and days until due
-  private calculateBillStatus(bill: any) {
+  private calculateBillStatus(
+    bill: { dueDate: Date; payments: { dueDate: Date }[] },
+    userCalendar: UserCalendar,
+  ) {
     const today = new Date();
     const dueDate = new Date(bill.dueDate);
-    
-    // Calculate days until due (negative if overdue)
-    const diffTime = dueDate.getTime() - today.getTime();
-    const daysUntilDue = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
+
+    // Calculate calendar days until due in the user's timezone (negative if overdue)
+    const daysUntilDue = this.calendar.getDaysBetween(today, dueDate, userCalendar);
+
+    // The cycle running today was paid if the latest payment settled a due date that is not past yet
+    const lastPayment = bill.payments[0];
+    const currentCyclePaid = !!lastPayment
+      && this.calendar.getDaysBetween(today, lastPayment.dueDate, userCalendar) >= 0;
+
     // Determine status
     let calculatedStatus: BillStatusEnum;
-    
+
     if (daysUntilDue < 0) {
       calculatedStatus = BillStatusEnum.OVERDUE;
+    } else if (currentCyclePaid) {
+      calculatedStatus = BillStatusEnum.PAID;
     } else {
       calculatedStatus = BillStatusEnum.UPCOMING;
     }
-    
-    // If there was a payment record, we would check if it was paid
-    // This is simplistic since we don't have a payment records table
-    
-    return { calculatedStatus, daysUntilDue };
-  }
 
-  // Helper method to calculate the next due date based on frequency
-  private calculateNextDueDate(currentDueDate: Date, frequency: string): Date {
-    const nextDueDate = new Date(currentDueDate);
-    
-    switch (frequency) {
-      case 'DAILY':
-        nextDueDate.setDate(nextDueDate.getDate() + 1);
-        break;
-      case 'WEEKLY':
-        nextDueDate.setDate(nextDueDate.getDate() + 7);
-        break;
-      case 'BIWEEKLY':
-        nextDueDate.setDate(nextDueDate.getDate() + 14);
-        break;
-      case 'MONTHLY':
-        nextDueDate.setMonth(nextDueDate.getMonth() + 1);
-        break;
-      case 'QUARTERLY':
-        nextDueDate.setMonth(nextDueDate.getMonth() + 3);
-        break;
-      case 'BIANNUALLY':
-        nextDueDate.setMonth(nextDueDate.getMonth() + 6);
-        break;
-      case 'ANNUALLY':
-        nextDueDate.setFullYear(nextDueDate.getFullYear() + 1);
-        break;
-      default:
-        // If unknown frequency, default to monthly
-        nextDueDate.setMonth(nextDueDate.getMonth() + 1);
-    }
-    
-    return nextDueDate;
+    return { calculatedStatus, daysUntilDue };
   }
 }
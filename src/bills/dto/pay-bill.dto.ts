@@ -1,5 +1,5 @@
 import { Type } from 'class-transformer';
-import { IsDate, IsOptional, IsBoolean } from 'class-validator';
+import { IsDate, IsOptional, IsBoolean, IsNumber, IsPositive } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class PayBillDto {
@@ -14,6 +14,16 @@ export class PayBillDto {
   @IsOptional()
   paymentDate?: Date;
 
+  @ApiProperty({
+    description: 'Amount paid, defaults to the bill amount',
+    example: 49.99,
+    required: false,
+  })
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  amount?: number;
+
   @ApiProperty({
     description: 'Create a transaction record for this payment',
     example: true,
@@ -0,0 +1,85 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum AutopayStatusEnum {
+  PAID = 'PAID',
+  FAILED = 'FAILED',
+}
+
+class BillInfo {
+  @ApiProperty({
+    description: 'Bill ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Bill name',
+    example: 'Internet Subscription',
+  })
+  name: string;
+}
+
+export class AutopayLogModel {
+  @ApiProperty({
+    description: 'Log entry ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Due date of the billing cycle that was processed',
+    example: '2023-05-15T00:00:00Z',
+  })
+  dueDate: Date;
+
+  @ApiProperty({
+    description: 'Amount charged',
+    example: 49.99,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Outcome of the automatic payment',
+    enum: AutopayStatusEnum,
+    example: AutopayStatusEnum.PAID,
+  })
+  status: AutopayStatusEnum;
+
+  @ApiProperty({
+    description: 'Error message if the payment failed',
+    example: null,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'Payment recorded for the cycle',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    nullable: true,
+  })
+  paymentId: string | null;
+
+  @ApiProperty({
+    description: 'Bill ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  billId: string;
+
+  @ApiProperty({
+    description: 'User ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Date the cycle was processed',
+    example: '2023-05-15T01:00:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Bill information',
+    type: BillInfo,
+  })
+  bill: BillInfo;
+}
@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BillPaymentModel {
+  @ApiProperty({
+    description: 'Payment ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Due date of the billing cycle settled by this payment',
+    example: '2023-05-15T00:00:00Z',
+  })
+  dueDate: Date;
+
+  @ApiProperty({
+    description: 'Amount paid',
+    example: 49.99,
+  })
+  amountPaid: number;
+
+  @ApiProperty({
+    description: 'Date the payment was made',
+    example: '2023-05-17T00:00:00Z',
+  })
+  paidDate: Date;
+
+  @ApiProperty({
+    description: 'Whether the payment was recorded by autopay',
+    example: false,
+  })
+  automatic: boolean;
+
+  @ApiProperty({
+    description: 'Transaction created for this payment',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    nullable: true,
+  })
+  transactionId: string | null;
+
+  @ApiProperty({
+    description: 'Bill ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  billId: string;
+
+  @ApiProperty({
+    description: 'User ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Payment record creation date',
+    example: '2023-05-17T14:30:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Days between the due date and the paid date (0 if paid on time)',
+    example: 2,
+  })
+  daysLate: number;
+
+  @ApiProperty({
+    description: 'Whether the payment was made after the due date',
+    example: true,
+  })
+  paidLate: boolean;
+}
@@ -79,7 +79,7 @@ export class BillModel {
   notes: string | null;
 
   @ApiProperty({
-    description: 'Last payment date',
+    description: 'Date of the most recent payment',
     example: '2023-04-15T00:00:00Z',
     nullable: true,
   })
@@ -110,7 +110,7 @@ export class BillModel {
   updatedAt: Date;
 
   @ApiProperty({
-    description: 'Bill status',
+    description: 'Status of the current billing cycle, derived from the payment history',
     enum: BillStatusEnum,
     example: BillStatusEnum.UPCOMING,
   })
@@ -0,0 +1,166 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Query, UseGuards } from '@nestjs/common';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
+import { JwtGuard } from 'src/auth/guard';
+import { GetUser } from 'src/auth/decorator';
+import { BudgetsService } from './budgets.service';
+import { BudgetTimeframeEnum, CreateBudgetDto, UpdateBudgetDto } from './dto';
+import { ValidateBudgetTypePipe } from './pipes/validate-budget-type.pipe';
+import { BudgetModel } from './models/budget.model';
+
+@ApiTags('budgets')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
+@Controller('budgets')
+export class BudgetsController {
+  constructor(private budgetsService: BudgetsService) {}
+
+  /**
+   * Get all budgets for the authenticated user
+   * Optionally filter by timeframe (weekly/monthly/yearly)
+   *
+   * @param userId - Current authenticated user ID
+   * @param type - Optional filter for budget timeframe
+   * @returns Array of budgets with their category allocations
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all budgets',
+    description: 'Retrieves all budgets for the current user with optional timeframe filtering',
+  })
+  @ApiQuery({
+    name: 'type',
+    required: false,
+    enum: BudgetTimeframeEnum,
+    description: 'Filter budgets by timeframe',
+  })
+  @ApiOkResponse({
+    description: 'List of budgets retrieved successfully',
+    type: [BudgetModel],
+  })
+  getBudgets(
+    @GetUser('id') userId: string,
+    @Query('type', ValidateBudgetTypePipe) type?: BudgetTimeframeEnum,
+  ) {
+    return this.budgetsService.getBudgets(userId, type);
+  }
+
+  /**
+   * Get a budget by ID
+   *
+   * @param userId - Current authenticated user ID
+   * @param budgetId - ID of the budget to retrieve
+   * @returns The requested budget
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a budget by ID',
+    description: 'Retrieves a specific budget with its category allocations',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Budget ID',
+  })
+  @ApiOkResponse({
+    description: 'Budget retrieved successfully',
+    type: BudgetModel,
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Budget with the given ID does not exist' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this budget' })
+  getBudgetById(
+    @GetUser('id') userId: string,
+    @Param('id') budgetId: string,
+  ) {
+    return this.budgetsService.getBudgetById(userId, budgetId);
+  }
+
+  /**
+   * Create a new budget
+   *
+   * @param userId - Current authenticated user ID
+   * @param dto - Budget creation data
+   * @returns The created budget
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create a new budget',
+    description: 'Creates a new budget with optional allocations to expense categories',
+  })
+  @ApiCreatedResponse({
+    description: 'The budget has been successfully created',
+    type: BudgetModel,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid period, allocations exceed the budget amount, or a category is not an expense category',
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - An allocated category does not exist' })
+  createBudget(
+    @GetUser('id') userId: string,
+    @Body() dto: CreateBudgetDto,
+  ) {
+    return this.budgetsService.createBudget(userId, dto);
+  }
+
+  /**
+   * Update an existing budget
+   * Providing categoryAllocations replaces all existing allocations
+   *
+   * @param userId - Current authenticated user ID
+   * @param budgetId - ID of the budget to update
+   * @param dto - Budget update data
+   * @returns The updated budget
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update a budget',
+    description: 'Updates an existing budget by ID. Providing categoryAllocations replaces all existing allocations.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Budget ID',
+  })
+  @ApiOkResponse({
+    description: 'The budget has been successfully updated',
+    type: BudgetModel,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid period, allocations exceed the budget amount, or a category is not an expense category',
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this budget' })
+  @ApiNotFoundResponse({ description: 'Not Found - Budget with the given ID does not exist' })
+  updateBudget(
+    @GetUser('id') userId: string,
+    @Param('id') budgetId: string,
+    @Body() dto: UpdateBudgetDto,
+  ) {
+    return this.budgetsService.updateBudget(userId, budgetId, dto);
+  }
+
+  /**
+   * Delete a budget
+   *
+   * @param userId - Current authenticated user ID
+   * @param budgetId - ID of the budget to delete
+   */
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a budget',
+    description: 'Deletes a budget and its category allocations by ID',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Budget ID',
+  })
+  @ApiNoContentResponse({
+    description: 'The budget has been successfully deleted',
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this budget' })
+  @ApiNotFoundResponse({ description: 'Not Found - Budget with the given ID does not exist' })
+  deleteBudget(
+    @GetUser('id') userId: string,
+    @Param('id') budgetId: string,
+  ) {
+    return this.budgetsService.deleteBudget(userId, budgetId);
+  }
+}
@@ -0,0 +1,234 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CategoryTypeEnum } from 'src/categories/dto/create-category.dto';
+import { BudgetTimeframeEnum, CategoryAllocationDto, CreateBudgetDto, UpdateBudgetDto } from './dto';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+
+@Injectable()
+export class BudgetsService {
+  constructor(private prisma: PrismaService) {}
+
+  // Category fields returned with each allocation, allocations of trashed categories are left out
+  private readonly allocationInclude = {
+    categoryAllocations: {
+      where: { category: NOT_DELETED },
+      include: {
+        category: {
+          select: {
+            id: true,
+            name: true,
+            icon: true,
+            color: true,
+          },
+        },
+      },
+    },
+  };
+
+  // Get all budgets for a user with optional timeframe filter
+  async getBudgets(userId: string, type?: BudgetTimeframeEnum) {
+    const whereClause: any = { userId };
+
+    if (type) {
+      whereClause.type = type;
+    }
+
+    const budgets = await this.prisma.budget.findMany({
+      where: whereClause,
+      include: this.allocationInclude,
+      orderBy: { startDate: 'desc' },
+    });
+
+    return budgets.map(budget => this.withAllocationTotals(budget));
+  }
+
+  // Get a specific budget by ID
+  async getBudgetById(userId: string, budgetId: string) {
+    const budget = await this.prisma.budget.findUnique({
+      where: { id: budgetId },
+      include: this.allocationInclude,
+    });
+
+    if (!budget) {
+      throw new NotFoundException('Budget not found');
+    }
+
+    // Verify ownership
+    if (budget.userId !== userId) {
+      throw new ForbiddenException('Access to resource denied');
+    }
+
+    return this.withAllocationTotals(budget);
+  }
+
+  // Create a new budget with optional category allocations
+  async createBudget(userId: string, dto: CreateBudgetDto) {
+    this.validatePeriod(dto.startDate, dto.endDate);
+
+    const allocations = dto.categoryAllocations || [];
+    this.validateAllocationTotal(dto.amount, allocations);
+    await this.validateAllocationCategories(userId, allocations);
+
+    const budget = await this.prisma.budget.create({
+      data: {
+        userId,
+        name: dto.name,
+        description: dto.description,
+        amount: dto.amount,
+        type: dto.type,
+        startDate: dto.startDate,
+        endDate: dto.endDate,
+        categoryAllocations: {
+          create: allocations.map(allocation => ({
+            categoryId: allocation.categoryId,
+            amount: allocation.amount,
+          })),
+        },
+      },
+      include: this.allocationInclude,
+    });
+
+    return this.withAllocationTotals(budget);
+  }
+
+  // Update an existing budget, replacing its allocations when provided
+  async updateBudget(userId: string, budgetId: string, dto: UpdateBudgetDto) {
+    // Check if budget exists and belongs to the user
+    const budget = await this.verifyOwnership(userId, budgetId);
+
+    this.validatePeriod(dto.startDate || budget.startDate, dto.endDate || budget.endDate);
+
+    // Validate against the allocations the budget will have after the update
+    const amount = dto.amount !== undefined ? dto.amount : budget.amount;
+    const allocations = dto.categoryAllocations
+      ? dto.categoryAllocations
+      : await this.prisma.categoryAllocation.findMany({ where: { budgetId } });
+
+    this.validateAllocationTotal(amount, allocations);
+
+    if (dto.categoryAllocations) {
+      await this.validateAllocationCategories(userId, dto.categoryAllocations);
+    }
+
+    const updatedBudget = await this.prisma.$transaction(async (prisma) => {
+      if (dto.categoryAllocations) {
+        await prisma.categoryAllocation.deleteMany({ where: { budgetId } });
+      }
+
+      return prisma.budget.update({
+        where: { id: budgetId },
+        data: {
+          ...(dto.name && { name: dto.name }),
+          ...(dto.description !== undefined && { description: dto.description }),
+          ...(dto.amount !== undefined && { amount: dto.amount }),
+          ...(dto.type && { type: dto.type }),
+          ...(dto.startDate && { startDate: dto.startDate }),
+          ...(dto.endDate && { endDate: dto.endDate }),
+          ...(dto.categoryAllocations && {
+            categoryAllocations: {
+              create: dto.categoryAllocations.map(allocation => ({
+                categoryId: allocation.categoryId,
+                amount: allocation.amount,
+              })),
+            },
+          }),
+        },
+        include: this.allocationInclude,
+      });
+    });
+
+    return this.withAllocationTotals(updatedBudget);
+  }
+
+  // Delete a budget together with its allocations
+  async deleteBudget(userId: string, budgetId: string) {
+    // Check if budget exists and belongs to the user
+    await this.verifyOwnership(userId, budgetId);
+
+    await this.prisma.$transaction(async (prisma) => {
+      await prisma.categoryAllocation.deleteMany({ where: { budgetId } });
+
+      await prisma.budget.delete({
+        where: { id: budgetId },
+      });
+    });
+  }
+
+  // Helper method to verify ownership
+  private async verifyOwnership(userId: string, budgetId: string) {
+    const budget = await this.prisma.budget.findUnique({
+      where: { id: budgetId },
+    });
+
+    if (!budget) {
+      throw new NotFoundException('Budget not found');
+    }
+
+    if (budget.userId !== userId) {
+      throw new ForbiddenException('Access to resource denied');
+    }
+
+    return budget;
+  }
+
+  // Helper method to make sure the period is not inverted
+  private validatePeriod(startDate: Date, endDate: Date) {
+    if (new Date(endDate).getTime() <= new Date(startDate).getTime()) {
+      throw new BadRequestException('Budget end date must be after its start date');
+    }
+  }
+
+  // Helper method to make sure allocations fit within the budget amount
+  private validateAllocationTotal(amount: number, allocations: { amount: number }[]) {
+    const allocatedAmount = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+    // Compare in cents to avoid floating point noise
+    if (Math.round(allocatedAmount * 100) > Math.round(amount * 100)) {
+      throw new BadRequestException(
+        `Category allocations (${allocatedAmount}) exceed the budget amount (${amount})`,
+      );
+    }
+  }
+
+  // Helper method to make sure allocated categories are expense categories owned by the user
+  private async validateAllocationCategories(userId: string, allocations: CategoryAllocationDto[]) {
+    if (allocations.length === 0) return;
+
+    const categoryIds = allocations.map(allocation => allocation.categoryId);
+    const categories = await this.prisma.category.findMany({
+      where: {
+        id: { in: categoryIds },
+        userId,
+        ...NOT_DELETED,
+      },
+    });
+
+    const missingIds = categoryIds.filter(id => !categories.some(category => category.id === id));
+    if (missingIds.length > 0) {
+      throw new NotFoundException(
+        `Category not found or does not belong to user: ${missingIds.join(', ')}`,
+      );
+    }
+
+    const nonExpense = categories.filter(category => category.type !== CategoryTypeEnum.EXPENSE);
+    if (nonExpense.length > 0) {
+      throw new BadRequestException(
+        `Budgets can only allocate to EXPENSE categories: ${nonExpense.map(category => category.name).join(', ')}`,
+      );
+    }
+  }
+
+  // Helper method to add allocated and unallocated totals to a budget
+  private withAllocationTotals<T extends { amount: number; categoryAllocations: { amount: number }[] }>(budget: T) {
+    const allocatedAmount = budget.categoryAllocations.reduce(
+      (sum, allocation) => sum + allocation.amount,
+      0,
+    );
+
+    return {
+      ...budget,
+      allocatedAmount,
+      unallocatedAmount: Math.max(0, budget.amount - allocatedAmount),
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { Type } from 'class-transformer';
+import { ArrayUnique, IsArray, IsDate, IsEnum, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString, ValidateNested } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum BudgetTimeframeEnum {
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY',
+}
+
+export class CategoryAllocationDto {
+  @ApiProperty({
+    description: 'Expense category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  @IsString()
+  @IsNotEmpty()
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Amount allocated to the category',
+    example: 400,
+    minimum: 0.01,
+  })
+  @IsNumber()
+  @IsPositive()
+  @IsNotEmpty()
+  amount: number;
+}
+
+export class CreateBudgetDto {
+  @ApiProperty({
+    description: 'Budget name',
+    example: 'May 2023',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Total budget amount',
+    example: 2000,
+    minimum: 0.01,
+  })
+  @IsNumber()
+  @IsPositive()
+  @IsNotEmpty()
+  amount: number;
+
+  @ApiProperty({
+    description: 'Budget timeframe',
+    enum: BudgetTimeframeEnum,
+    example: BudgetTimeframeEnum.MONTHLY,
+  })
+  @IsEnum(BudgetTimeframeEnum)
+  @IsNotEmpty()
+  type: BudgetTimeframeEnum;
+
+  @ApiProperty({
+    description: 'Start date of the budget period',
+    example: '2023-05-01T00:00:00Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsNotEmpty()
+  startDate: Date;
+
+  @ApiProperty({
+    description: 'End date of the budget period',
+    example: '2023-05-31T23:59:59Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsNotEmpty()
+  endDate: Date;
+
+  @ApiProperty({
+    description: 'Optional description of the budget',
+    example: 'Household budget for May',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Amounts allocated to expense categories (must not exceed the budget amount)',
+    type: [CategoryAllocationDto],
+    required: false,
+  })
+  @IsArray()
+  @ArrayUnique((allocation: CategoryAllocationDto) => allocation.categoryId, {
+    message: 'Each category can only be allocated once per budget',
+  })
+  @ValidateNested({ each: true })
+  @Type(() => CategoryAllocationDto)
+  @IsOptional()
+  categoryAllocations?: CategoryAllocationDto[];
+}
@@ -0,0 +1,2 @@
+export * from './create-budget.dto';
+export * from './update-budget.dto';
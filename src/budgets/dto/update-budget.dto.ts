@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateBudgetDto } from './create-budget.dto';
+
+export class UpdateBudgetDto extends PartialType(CreateBudgetDto) {}
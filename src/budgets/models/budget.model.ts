@@ -0,0 +1,150 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { BudgetTimeframeEnum } from '../dto/create-budget.dto';
+
+class CategoryInfo {
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Groceries',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Category icon',
+    example: 'shopping-cart',
+  })
+  icon: string;
+
+  @ApiProperty({
+    description: 'Category color',
+    example: '#4CAF50',
+  })
+  color: string;
+}
+
+export class CategoryAllocationModel {
+  @ApiProperty({
+    description: 'Allocation ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Allocated amount',
+    example: 400,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Budget ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  budgetId: string;
+
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Category information',
+    type: CategoryInfo,
+  })
+  category: CategoryInfo;
+}
+
+export class BudgetModel {
+  @ApiProperty({
+    description: 'Budget ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Budget name',
+    example: 'May 2023',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Budget description',
+    example: 'Household budget for May',
+    nullable: true,
+  })
+  description: string | null;
+
+  @ApiProperty({
+    description: 'Total budget amount',
+    example: 2000,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Budget timeframe',
+    enum: BudgetTimeframeEnum,
+    example: BudgetTimeframeEnum.MONTHLY,
+  })
+  type: BudgetTimeframeEnum;
+
+  @ApiProperty({
+    description: 'Start date of the budget period',
+    example: '2023-05-01T00:00:00Z',
+  })
+  startDate: Date;
+
+  @ApiProperty({
+    description: 'End date of the budget period',
+    example: '2023-05-31T23:59:59Z',
+  })
+  endDate: Date;
+
+  @ApiProperty({
+    description: 'User ID',
+    example: 'cl9ebq7xj000023l29wbg5b2j',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Amounts allocated to expense categories',
+    type: [CategoryAllocationModel],
+  })
+  categoryAllocations: CategoryAllocationModel[];
+
+  @ApiProperty({
+    description: 'Sum of all category allocations',
+    example: 1600,
+  })
+  allocatedAmount: number;
+
+  @ApiProperty({
+    description: 'Part of the budget not allocated to any category',
+    example: 400,
+  })
+  unallocatedAmount: number;
+
+  @ApiProperty({
+    description: 'Budget creation date',
+    example: '2023-04-28T14:30:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Budget last update date',
+    example: '2023-05-02T09:15:00Z',
+  })
+  updatedAt: Date;
+}
+
+export class DeleteBudgetResponseModel {
+  @ApiProperty({
+    description: 'Success message',
+    example: 'Budget deleted successfully',
+  })
+  message: string;
+}
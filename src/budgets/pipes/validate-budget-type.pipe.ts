@@ -0,0 +1,18 @@
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+import { BudgetTimeframeEnum } from '../dto/create-budget.dto';
+
+@Injectable()
+export class ValidateBudgetTypePipe implements PipeTransform {
+  transform(value: any) {
+    if (!value) return undefined; // Allow undefined (no filter)
+
+    // Convert to uppercase for case-insensitive comparison
+    const type = value.toUpperCase();
+
+    if (!Object.values(BudgetTimeframeEnum).includes(type as BudgetTimeframeEnum)) {
+      throw new BadRequestException(`Type must be one of: ${Object.values(BudgetTimeframeEnum).join(', ')}`);
+    }
+
+    return type as BudgetTimeframeEnum;
+  }
+}
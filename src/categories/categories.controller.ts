@@ -1,12 +1,12 @@
-import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Query, UseGuards } from '@nestjs/common';
-import { ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, ParseBoolPipe, Post, Put, Query, UseGuards } from '@nestjs/common';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
 import { JwtGuard } from 'src/auth/guard';
 import { GetUser } from 'src/auth/decorator';
 import { CategoriesService } from './categories.service';
-import { CreateCategoryDto, UpdateCategoryDto } from './dto';
+import { CreateCategoryDto, MergeCategoryDto, RestoreDefaultCategoriesDto, UpdateCategoryDto } from './dto';
 import { CategoryTypeEnum } from './dto/create-category.dto';
 import { ValidateCategoryTypePipe } from './pipes/validate-category-type.pipe';
-import { CategoryModel, DeleteCategoryResponseModel } from './models/category.model';
+import { CategoryModel, CategoryTreeModel, DeleteCategoryResponseModel, MergeCategoryResultModel, RestoreDefaultCategoriesResultModel } from './models/category.model';
 
 @ApiTags('categories')
 @ApiBearerAuth('JWT-auth')
@@ -18,16 +18,17 @@ export class CategoriesController {
 
   /**
    * Get all categories for the authenticated user
-   * Optionally filter by type (income/expense)
+   * Optionally filter by type (income/expense) and nest subcategories under their parents
    * 
    * @param userId - Current authenticated user ID
    * @param type - Optional filter for category type
-   * @returns Array of categories
+   * @param tree - Whether to return the categories as a tree
+   * @returns Array of categories, or of top-level categories with their children
    */
   @Get()
   @ApiOperation({
     summary: 'Get all categories',
-    description: 'Retrieves all categories for the current user with optional type filtering',
+    description: 'Retrieves all categories for the current user with optional type filtering. With tree=true, only top-level categories are listed, each with its subcategories in children',
   })
   @ApiQuery({
     name: 'type',
@@ -35,15 +36,22 @@ export class CategoriesController {
     enum: CategoryTypeEnum,
     description: 'Filter categories by type',
   })
+  @ApiQuery({
+    name: 'tree',
+    required: false,
+    type: Boolean,
+    description: 'Nest subcategories under their parents (default: false)',
+  })
   @ApiOkResponse({
-    description: 'List of categories retrieved successfully',
+    description: 'List of categories retrieved successfully; CategoryTreeModel items when tree=true',
     type: [CategoryModel],
   })
   getCategories(
     @GetUser('id') userId: string,
     @Query('type', ValidateCategoryTypePipe) type?: CategoryTypeEnum,
+    @Query('tree', new ParseBoolPipe({ optional: true })) tree?: boolean,
   ) {
-    return this.categoryService.getCategories(userId, type);
+    return this.categoryService.getCategories(userId, type, tree);
   }
 
   /**
@@ -62,6 +70,8 @@ export class CategoriesController {
     description: 'The category has been successfully created',
     type: CategoryModel,
   })
+  @ApiBadRequestResponse({ description: 'Parent category has a different type' })
+  @ApiNotFoundResponse({ description: 'Not Found - Parent category does not exist' })
   createCategory(
     @GetUser('id') userId: string,
     @Body() dto: CreateCategoryDto,
@@ -69,6 +79,30 @@ export class CategoriesController {
     return this.categoryService.createCategory(userId, dto);
   }
 
+  /**
+   * Restore the default categories the user is missing
+   * 
+   * @param userId - Current authenticated user ID
+   * @param dto - Optional template to take the defaults from
+   * @returns Template used and the created categories
+   */
+  @Post('defaults/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore missing default categories',
+    description: 'Creates the default categories of the template chosen at registration, or of the given template, that the user has no category with the same name and type for. Existing categories are left unchanged.',
+  })
+  @ApiOkResponse({
+    description: 'Missing default categories have been created',
+    type: RestoreDefaultCategoriesResultModel,
+  })
+  restoreDefaultCategories(
+    @GetUser('id') userId: string,
+    @Body() dto: RestoreDefaultCategoriesDto,
+  ) {
+    return this.categoryService.restoreDefaultCategories(userId, dto);
+  }
+
   /**
    * Update an existing category
    * 
@@ -90,6 +124,7 @@ export class CategoriesController {
     description: 'The category has been successfully updated',
     type: CategoryModel,
   })
+  @ApiBadRequestResponse({ description: 'Parent category has a different type, or is the category itself or one of its subcategories' })
   @ApiForbiddenResponse({ 
     description: 'Forbidden - User does not own this category or it is a default category' 
   })
@@ -102,23 +137,66 @@ export class CategoriesController {
     return this.categoryService.updateCategory(userId, categoryId, dto);
   }
 
+  /**
+   * Merge a category into another one
+   * 
+   * @param userId - Current authenticated user ID
+   * @param categoryId - ID of the category to merge
+   * @param dto - Target category
+   * @returns Number of records moved to the target
+   */
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Merge a category into another one',
+    description: 'Moves the transactions, split lines, bills, recurring transactions, plan items, category rules, subcategories and budget allocations of a custom category to another category of the same type in one transaction, then moves the merged category to the trash. Allocations are added to the allocation of the target in the same budget.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the category to merge',
+  })
+  @ApiOkResponse({
+    description: 'The category has been successfully merged',
+    type: MergeCategoryResultModel,
+  })
+  @ApiBadRequestResponse({ description: 'Target is the category itself, one of its subcategories or of a different type' })
+  @ApiForbiddenResponse({ 
+    description: 'Forbidden - User does not own this category or it is a default category' 
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Category or target category does not exist' })
+  mergeCategory(
+    @GetUser('id') userId: string,
+    @Param('id') categoryId: string,
+    @Body() dto: MergeCategoryDto,
+  ) {
+    return this.categoryService.mergeCategory(userId, categoryId, dto);
+  }
+
   /**
    * Delete a category
+   * Optionally move what uses it to another category first
    * 
    * @param userId - Current authenticated user ID
    * @param categoryId - ID of the category to delete
+   * @param reassignTo - Optional category that takes over the items of the deleted one
    * @returns Success message
    */
   @HttpCode(HttpStatus.NO_CONTENT)
   @Delete(':id')
   @ApiOperation({
     summary: 'Delete a category',
-    description: 'Deletes a custom category by ID. Cannot delete default categories or categories used in transactions/bills.',
+    description: 'Moves a custom category to the trash. Cannot delete default categories, and categories with subcategories or used in transactions, bills or recurring transactions can only be deleted with reassignTo, which merges them into that category first.',
   })
   @ApiParam({
     name: 'id',
     description: 'Category ID',
   })
+  @ApiQuery({
+    name: 'reassignTo',
+    required: false,
+    description: 'Category of the same type that takes over the transactions, bills, allocations and subcategories of the deleted category',
+  })
+  @ApiBadRequestResponse({ description: 'reassignTo is the category itself, one of its subcategories or of a different type' })
   @ApiNoContentResponse({
     description: 'The category has been successfully deleted',
   })
@@ -129,7 +207,8 @@ export class CategoriesController {
   deleteCategory(
     @GetUser('id') userId: string,
     @Param('id') categoryId: string,
+    @Query('reassignTo') reassignTo?: string,
   ) {
-    return this.categoryService.deleteCategory(userId, categoryId);
+    return this.categoryService.deleteCategory(userId, categoryId, reassignTo);
   }
 }
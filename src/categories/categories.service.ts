@@ -1,15 +1,22 @@
-import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { CreateCategoryDto, UpdateCategoryDto } from './dto';
+import { CreateCategoryDto, MergeCategoryDto, RestoreDefaultCategoriesDto, UpdateCategoryDto } from './dto';
 import { CategoryTypeEnum } from './dto/create-category.dto';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { buildCategoryTree, getCategoryPath, getParentMap } from './category-tree';
+import { getMissingDefaults, resolveCategoryTemplate } from './default-categories';
 
 @Injectable()
 export class CategoriesService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
 
-  // Get all categories for a user with optional type filter
-  async getCategories(userId: string, type?: CategoryTypeEnum) {
-    const whereClause: any = { userId };
+  // Get all categories for a user with optional type filter, as a flat list or nested under their parents
+  async getCategories(userId: string, type?: CategoryTypeEnum, tree?: boolean) {
+    const whereClause: any = { userId, ...NOT_DELETED };
     
     if (type) {
       whereClause.type = type;
@@ -20,12 +27,16 @@ export class CategoriesService {
       orderBy: { name: 'asc' },
     });
 
-    return categories;
+    return tree ? buildCategoryTree(categories) : categories;
   }
 
   // Create a new category
   async createCategory(userId: string, dto: CreateCategoryDto) {
     try {
+      if (dto.parentId) {
+        await this.validateParent(userId, dto.parentId, dto.type);
+      }
+
       const category = await this.prisma.category.create({
         data: {
           userId,
@@ -34,6 +45,7 @@ export class CategoriesService {
           icon: dto.icon,
           color: dto.color,
           description: dto.description,
+          parentId: dto.parentId,
           isDefault: false,
         },
       });
@@ -54,6 +66,24 @@ export class CategoriesService {
       throw new ForbiddenException('Default categories cannot be edited');
     }
 
+    const type = dto.type || category.type;
+    const parentId = dto.parentId !== undefined ? dto.parentId : category.parentId;
+
+    if (parentId) {
+      await this.validateParent(userId, parentId, type, categoryId);
+    }
+
+    // Subcategories keep the type of their parent
+    if (type !== category.type) {
+      const childCount = await this.prisma.category.count({
+        where: { parentId: categoryId, ...NOT_DELETED },
+      });
+
+      if (childCount > 0) {
+        throw new BadRequestException('Cannot change the type of a category that has subcategories');
+      }
+    }
+
     // Update the category
     const updatedCategory = await this.prisma.category.update({
       where: { id: categoryId },
@@ -63,14 +93,15 @@ export class CategoriesService {
         ...(dto.icon && { icon: dto.icon }),
         ...(dto.color && { color: dto.color }),
         ...(dto.description !== undefined && { description: dto.description }),
+        ...(dto.parentId !== undefined && { parentId: dto.parentId }),
       },
     });
 
     return updatedCategory;
   }
 
-  // Delete a category
-  async deleteCategory(userId: string, categoryId: string) {
+  // Delete a category, moving what uses it to the reassignTo category when one is given
+  async deleteCategory(userId: string, categoryId: string, reassignTo?: string) {
     // Check if category exists and belongs to the user
     const category = await this.verifyOwnership(userId, categoryId);
 
@@ -79,34 +110,205 @@ export class CategoriesService {
       throw new ForbiddenException('Default categories cannot be deleted');
     }
 
-    // Check if the category is being used in transactions or bills
+    if (reassignTo) {
+      await this.mergeCategory(userId, categoryId, { targetCategoryId: reassignTo });
+      return { message: 'Category deleted successfully' };
+    }
+
+    // Check if the category is being used in transactions, bills or recurring transactions
+    // Trashed items do not count, they have to be restored before their category
     const transactionCount = await this.prisma.transaction.count({
-      where: { categoryId },
+      where: { categoryId, ...NOT_DELETED },
     });
 
     const billCount = await this.prisma.bill.count({
+      where: { categoryId, ...NOT_DELETED },
+    });
+
+    const recurringCount = await this.prisma.recurringTransaction.count({
       where: { categoryId },
     });
 
-    if (transactionCount > 0 || billCount > 0) {
+    const splitCount = await this.prisma.transactionSplit.count({
+      where: { categoryId, transaction: NOT_DELETED },
+    });
+
+    if (transactionCount > 0 || billCount > 0 || recurringCount > 0 || splitCount > 0) {
       throw new ForbiddenException(
-        'Cannot delete a category that is used in transactions or bills. ' +
-        'Please reassign those items to a different category first.'
+        'Cannot delete a category that is used in transactions, bills or recurring transactions. ' +
+        'Please reassign those items to a different category first, or pass reassignTo.'
       );
     }
 
-    // Delete the category
-    await this.prisma.category.delete({
+    const childCount = await this.prisma.category.count({
+      where: { parentId: categoryId, ...NOT_DELETED },
+    });
+
+    if (childCount > 0) {
+      throw new ForbiddenException(
+        'Cannot delete a category that has subcategories. ' +
+        'Please move or delete its subcategories first, or pass reassignTo.'
+      );
+    }
+
+    // Move the category to the trash
+    await this.prisma.category.update({
       where: { id: categoryId },
+      data: { deletedAt: new Date() },
     });
 
     return { message: 'Category deleted successfully' };
   }
 
+  /**
+   * Merge a category into another one of the same type and move it to the trash
+   * Transactions, split lines, bills, recurring transactions, plan items, category rules and
+   * subcategories, trashed ones included, move to the target; a budget allocation is added to
+   * the allocation of the target in the same budget when there is one
+   *
+   * @param userId - Current authenticated user ID
+   * @param categoryId - ID of the category to merge
+   * @param dto - Target category
+   * @returns Number of records moved to the target
+   */
+  async mergeCategory(userId: string, categoryId: string, dto: MergeCategoryDto) {
+    const category = await this.verifyOwnership(userId, categoryId);
+    const targetCategoryId = dto.targetCategoryId;
+
+    if (category.isDefault) {
+      throw new ForbiddenException('Default categories cannot be merged');
+    }
+
+    if (targetCategoryId === categoryId) {
+      throw new BadRequestException('A category cannot be merged into itself');
+    }
+
+    const target = await this.prisma.category.findFirst({
+      where: {
+        id: targetCategoryId,
+        userId,
+        ...NOT_DELETED,
+      },
+    });
+
+    if (!target) {
+      throw new NotFoundException('Target category not found or does not belong to user');
+    }
+
+    if (target.type !== category.type) {
+      throw new BadRequestException('A category can only be merged into a category of the same type');
+    }
+
+    // Subcategories move under the target, so the target cannot be one of them
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      select: { id: true, parentId: true },
+    });
+
+    if (getCategoryPath(targetCategoryId, getParentMap(categories)).includes(categoryId)) {
+      throw new BadRequestException('A category cannot be merged into one of its subcategories');
+    }
+
+    const moved = await this.prisma.$transaction(async (prisma) => {
+      const where = { categoryId };
+      const data = { categoryId: targetCategoryId };
+
+      const transactions = await prisma.transaction.updateMany({ where, data });
+      const transactionSplits = await prisma.transactionSplit.updateMany({ where, data });
+      const bills = await prisma.bill.updateMany({ where, data });
+      const recurringTransactions = await prisma.recurringTransaction.updateMany({ where, data });
+      const planItems = await prisma.planItem.updateMany({ where, data });
+      const categoryRules = await prisma.categoryRule.updateMany({ where, data });
+      const subcategories = await prisma.category.updateMany({
+        where: { parentId: categoryId },
+        data: { parentId: targetCategoryId },
+      });
+
+      // A budget keeps a single allocation per category
+      const allocations = await prisma.categoryAllocation.findMany({ where });
+
+      for (const allocation of allocations) {
+        const targetAllocation = await prisma.categoryAllocation.findFirst({
+          where: { budgetId: allocation.budgetId, categoryId: targetCategoryId },
+        });
+
+        if (targetAllocation) {
+          await prisma.categoryAllocation.update({
+            where: { id: targetAllocation.id },
+            data: { amount: { increment: allocation.amount } },
+          });
+          await prisma.categoryAllocation.delete({ where: { id: allocation.id } });
+        } else {
+          await prisma.categoryAllocation.update({
+            where: { id: allocation.id },
+            data,
+          });
+        }
+      }
+
+      // Move the merged category to the trash
+      await prisma.category.update({
+        where: { id: categoryId },
+        data: { deletedAt: new Date() },
+      });
+
+      return {
+        transactions: transactions.count,
+        transactionSplits: transactionSplits.count,
+        bills: bills.count,
+        recurringTransactions: recurringTransactions.count,
+        planItems: planItems.count,
+        budgetAllocations: allocations.length,
+        categoryRules: categoryRules.count,
+        subcategories: subcategories.count,
+      };
+    });
+
+    return {
+      message: 'Category merged successfully',
+      targetCategoryId,
+      moved,
+    };
+  }
+
+  /**
+   * Create the default categories of a template that the user does not have
+   * A category created from the same template entry, even renamed, or one with the same name and type counts as present
+   *
+   * @param userId - Current authenticated user ID
+   * @param dto - Optional template, the one chosen at registration otherwise
+   * @returns Template used and the created categories
+   */
+  async restoreDefaultCategories(userId: string, dto: RestoreDefaultCategoriesDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { categoryTemplate: true },
+    });
+    const template = resolveCategoryTemplate(
+      dto.template || user?.categoryTemplate,
+      this.config.get<string>('DEFAULT_CATEGORY_TEMPLATE'),
+    );
+
+    const categories = await this.prisma.category.findMany({
+      where: { userId, ...NOT_DELETED },
+      select: { name: true, type: true, templateKey: true },
+    });
+
+    const created = await this.prisma.$transaction(
+      getMissingDefaults(template, categories).map(category =>
+        this.prisma.category.create({
+          data: { ...category, userId, isDefault: false },
+        }),
+      ),
+    );
+
+    return { template, created };
+  }
+
   // Helper method to verify ownership
   private async verifyOwnership(userId: string, categoryId: string) {
     const category = await this.prisma.category.findUnique({
-      where: { id: categoryId },
+      where: { id: categoryId, ...NOT_DELETED },
     });
 
     if (!category) {
@@ -119,4 +321,35 @@ export class CategoriesService {
 
     return category;
   }
+
+  // Helper method to make sure a parent category is usable and would not create a cycle
+  private async validateParent(userId: string, parentId: string, type: string, categoryId?: string) {
+    const parent = await this.prisma.category.findFirst({
+      where: {
+        id: parentId,
+        userId,
+        ...NOT_DELETED,
+      },
+    });
+
+    if (!parent) {
+      throw new NotFoundException('Parent category not found or does not belong to user');
+    }
+
+    if (parent.type !== type) {
+      throw new BadRequestException('A subcategory must have the same type as its parent');
+    }
+
+    if (categoryId) {
+      // The category may not end up among its own ancestors
+      const categories = await this.prisma.category.findMany({
+        where: { userId },
+        select: { id: true, parentId: true },
+      });
+
+      if (getCategoryPath(parentId, getParentMap(categories)).includes(categoryId)) {
+        throw new BadRequestException('A category cannot be moved under itself or one of its subcategories');
+      }
+    }
+  }
 }
@@ -0,0 +1,50 @@
+import { buildCategoryTree, getCategoryPath, getParentMap } from './category-tree';
+
+describe('category-tree', () => {
+  const categories = [
+    { id: 'food', parentId: null },
+    { id: 'groceries', parentId: 'food' },
+    { id: 'organic', parentId: 'groceries' },
+    { id: 'dining', parentId: 'food' },
+    { id: 'rent', parentId: null },
+  ];
+
+  describe('buildCategoryTree', () => {
+    it('nests categories under their parents in the given order', () => {
+      const [food, rent] = buildCategoryTree(categories);
+
+      expect(food.id).toBe('food');
+      expect(food.children.map(child => child.id)).toEqual(['groceries', 'dining']);
+      expect(food.children[0].children.map(child => child.id)).toEqual(['organic']);
+      expect(rent.children).toEqual([]);
+    });
+
+    it('makes a category whose parent is missing a root', () => {
+      const roots = buildCategoryTree(categories.filter(category => category.id !== 'food'));
+
+      expect(roots.map(root => root.id)).toEqual(['groceries', 'dining', 'rent']);
+    });
+  });
+
+  describe('getCategoryPath', () => {
+    it('lists a category followed by its ancestors', () => {
+      expect(getCategoryPath('organic', getParentMap(categories))).toEqual(['organic', 'groceries', 'food']);
+      expect(getCategoryPath('rent', getParentMap(categories))).toEqual(['rent']);
+    });
+
+    it('stops at a parent that is not known', () => {
+      expect(getCategoryPath('orphan', new Map([['orphan', 'deleted']]))).toEqual(['orphan', 'deleted']);
+    });
+
+    it('stops when the tree loops', () => {
+      const parents = new Map<string, string | null>([
+        ['a', 'b'],
+        ['b', 'c'],
+        ['c', 'a'],
+      ]);
+
+      expect(getCategoryPath('a', parents)).toEqual(['a', 'b', 'c']);
+      expect(getCategoryPath('self', new Map([['self', 'self']]))).toEqual(['self']);
+    });
+  });
+});
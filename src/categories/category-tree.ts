@@ -0,0 +1,58 @@
+// Category with the reference to its parent, enough to walk the tree
+export interface CategoryNode {
+  id: string;
+  parentId: string | null;
+}
+
+export type CategoryTree<T> = T & { children: CategoryTree<T>[] };
+
+/**
+ * Nest categories under their parents
+ * Categories whose parent is not in the list, for example because of a type filter, become roots
+ *
+ * @param categories - Categories in the order the children should keep
+ * @returns Root categories, each with its children
+ */
+export function buildCategoryTree<T extends CategoryNode>(categories: T[]): CategoryTree<T>[] {
+  const nodes = new Map<string, CategoryTree<T>>(
+    categories.map(category => [category.id, { ...category, children: [] }]),
+  );
+  const roots: CategoryTree<T>[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Get a category followed by its ancestors, closest first
+ * Stops at a category seen before, so a corrupted tree cannot loop forever
+ *
+ * @param categoryId - Category to start from
+ * @param parents - Parent ID of each category
+ * @returns IDs from the category up to its root
+ */
+export function getCategoryPath(categoryId: string, parents: Map<string, string | null>): string[] {
+  const path: string[] = [];
+  let current: string | null | undefined = categoryId;
+
+  while (current && !path.includes(current)) {
+    path.push(current);
+    current = parents.get(current);
+  }
+
+  return path;
+}
+
+// Get the parent ID of each category, to walk the tree with getCategoryPath
+export function getParentMap(categories: CategoryNode[]) {
+  return new Map(categories.map(category => [category.id, category.parentId]));
+}
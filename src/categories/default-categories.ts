@@ -0,0 +1,87 @@
+import { CategoryType } from '@prisma/client';
+
+// Category created for every new user, an ordinary category that only remembers its template entry
+export interface DefaultCategory {
+  templateKey: string;
+  name: string;
+  icon: string;
+  color: string;
+  type: CategoryType;
+}
+
+// Template used when neither the request nor DEFAULT_CATEGORY_TEMPLATE names a known one
+export const FALLBACK_CATEGORY_TEMPLATE = 'en';
+
+// Default category sets by locale, every set uses the same icons and colors
+export const DEFAULT_CATEGORY_TEMPLATES: Record<string, DefaultCategory[]> = {
+  en: [
+    { templateKey: 'housing', name: 'Housing', color: '#4B89DC', icon: 'home', type: CategoryType.EXPENSE },
+    { templateKey: 'utilities', name: 'Utilities', color: '#5D9CEC', icon: 'flash', type: CategoryType.EXPENSE },
+    { templateKey: 'groceries', name: 'Groceries', color: '#48CFAD', icon: 'cart', type: CategoryType.EXPENSE },
+    { templateKey: 'dining-out', name: 'Dining Out', color: '#A0D468', icon: 'restaurant', type: CategoryType.EXPENSE },
+    { templateKey: 'transportation', name: 'Transportation', color: '#FFCE54', icon: 'car', type: CategoryType.EXPENSE },
+    { templateKey: 'entertainment', name: 'Entertainment', color: '#FC6E51', icon: 'film', type: CategoryType.EXPENSE },
+    { templateKey: 'healthcare', name: 'Healthcare', color: '#ED5565', icon: 'medkit', type: CategoryType.EXPENSE },
+    { templateKey: 'shopping', name: 'Shopping', color: '#EC87C0', icon: 'bag', type: CategoryType.EXPENSE },
+    { templateKey: 'personal-care', name: 'Personal Care', color: '#AC92EC', icon: 'person', type: CategoryType.EXPENSE },
+    { templateKey: 'education', name: 'Education', color: '#967ADC', icon: 'school', type: CategoryType.EXPENSE },
+    { templateKey: 'salary', name: 'Salary', color: '#3BAFDA', icon: 'cash', type: CategoryType.INCOME },
+    { templateKey: 'freelance', name: 'Freelance', color: '#4FC1E9', icon: 'laptop', type: CategoryType.INCOME },
+    { templateKey: 'investments', name: 'Investments', color: '#37BC9B', icon: 'trending-up', type: CategoryType.INCOME },
+    { templateKey: 'gifts', name: 'Gifts', color: '#D770AD', icon: 'gift', type: CategoryType.INCOME },
+  ],
+  es: [
+    { templateKey: 'housing', name: 'Vivienda', color: '#4B89DC', icon: 'home', type: CategoryType.EXPENSE },
+    { templateKey: 'utilities', name: 'Servicios', color: '#5D9CEC', icon: 'flash', type: CategoryType.EXPENSE },
+    { templateKey: 'groceries', name: 'Supermercado', color: '#48CFAD', icon: 'cart', type: CategoryType.EXPENSE },
+    { templateKey: 'dining-out', name: 'Restaurantes', color: '#A0D468', icon: 'restaurant', type: CategoryType.EXPENSE },
+    { templateKey: 'transportation', name: 'Transporte', color: '#FFCE54', icon: 'car', type: CategoryType.EXPENSE },
+    { templateKey: 'entertainment', name: 'Ocio', color: '#FC6E51', icon: 'film', type: CategoryType.EXPENSE },
+    { templateKey: 'healthcare', name: 'Salud', color: '#ED5565', icon: 'medkit', type: CategoryType.EXPENSE },
+    { templateKey: 'shopping', name: 'Compras', color: '#EC87C0', icon: 'bag', type: CategoryType.EXPENSE },
+    { templateKey: 'personal-care', name: 'Cuidado personal', color: '#AC92EC', icon: 'person', type: CategoryType.EXPENSE },
+    { templateKey: 'education', name: 'Educación', color: '#967ADC', icon: 'school', type: CategoryType.EXPENSE },
+    { templateKey: 'salary', name: 'Salario', color: '#3BAFDA', icon: 'cash', type: CategoryType.INCOME },
+    { templateKey: 'freelance', name: 'Trabajo independiente', color: '#4FC1E9', icon: 'laptop', type: CategoryType.INCOME },
+    { templateKey: 'investments', name: 'Inversiones', color: '#37BC9B', icon: 'trending-up', type: CategoryType.INCOME },
+    { templateKey: 'gifts', name: 'Regalos', color: '#D770AD', icon: 'gift', type: CategoryType.INCOME },
+  ],
+  vi: [
+    { templateKey: 'housing', name: 'Nhà ở', color: '#4B89DC', icon: 'home', type: CategoryType.EXPENSE },
+    { templateKey: 'utilities', name: 'Điện nước', color: '#5D9CEC', icon: 'flash', type: CategoryType.EXPENSE },
+    { templateKey: 'groceries', name: 'Đi chợ', color: '#48CFAD', icon: 'cart', type: CategoryType.EXPENSE },
+    { templateKey: 'dining-out', name: 'Ăn uống', color: '#A0D468', icon: 'restaurant', type: CategoryType.EXPENSE },
+    { templateKey: 'transportation', name: 'Đi lại', color: '#FFCE54', icon: 'car', type: CategoryType.EXPENSE },
+    { templateKey: 'entertainment', name: 'Giải trí', color: '#FC6E51', icon: 'film', type: CategoryType.EXPENSE },
+    { templateKey: 'healthcare', name: 'Sức khỏe', color: '#ED5565', icon: 'medkit', type: CategoryType.EXPENSE },
+    { templateKey: 'shopping', name: 'Mua sắm', color: '#EC87C0', icon: 'bag', type: CategoryType.EXPENSE },
+    { templateKey: 'personal-care', name: 'Chăm sóc cá nhân', color: '#AC92EC', icon: 'person', type: CategoryType.EXPENSE },
+    { templateKey: 'education', name: 'Giáo dục', color: '#967ADC', icon: 'school', type: CategoryType.EXPENSE },
+    { templateKey: 'salary', name: 'Lương', color: '#3BAFDA', icon: 'cash', type: CategoryType.INCOME },
+    { templateKey: 'freelance', name: 'Làm tự do', color: '#4FC1E9', icon: 'laptop', type: CategoryType.INCOME },
+    { templateKey: 'investments', name: 'Đầu tư', color: '#37BC9B', icon: 'trending-up', type: CategoryType.INCOME },
+    { templateKey: 'gifts', name: 'Quà tặng', color: '#D770AD', icon: 'gift', type: CategoryType.INCOME },
+  ],
+};
+
+export const CATEGORY_TEMPLATE_NAMES = Object.keys(DEFAULT_CATEGORY_TEMPLATES);
+
+/**
+ * Pick the template to use
+ * The requested template wins over the configured one, unknown names fall through to the next option
+ *
+ * @param requested - Template asked for by the user
+ * @param configured - Template set with DEFAULT_CATEGORY_TEMPLATE
+ * @returns Name of a known template
+ */
+export function resolveCategoryTemplate(requested?: string | null, configured?: string | null): string {
+  return [requested, configured].find((name): name is string => !!name && CATEGORY_TEMPLATE_NAMES.includes(name))
+    ?? FALLBACK_CATEGORY_TEMPLATE;
+}
+
+// Get the categories of a template that are missing from the given ones, matching on template entry, or on name and type
+export function getMissingDefaults(template: string, categories: { name: string; type: string; templateKey: string | null }[]) {
+  return DEFAULT_CATEGORY_TEMPLATES[template].filter(defaults => !categories.some(category =>
+    category.templateKey === defaults.templateKey
+    || (category.type === defaults.type && category.name.toLowerCase() === defaults.name.toLowerCase())));
+}
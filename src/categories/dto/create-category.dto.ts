@@ -48,4 +48,14 @@ export class CreateCategoryDto {
   @IsString()
   @IsOptional()
   description?: string;
+
+  @ApiProperty({
+    description: 'Parent category, making this a subcategory; it must have the same type',
+    example: 'cl9ebqkxk000098l23xjp7y2a',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  parentId?: string;
 }
@@ -1,2 +1,3 @@
 export * from './create-category.dto';
-export * from './update-category.dto'; 
\ No newline at end of file
+export * from './update-category.dto'; export * from './merge-category.dto';
+export * from './restore-default-categories.dto';
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MergeCategoryDto {
+  @ApiProperty({
+    description: 'Category of the same type that takes over everything of the merged category',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  @IsString()
+  @IsNotEmpty()
+  targetCategoryId: string;
+}
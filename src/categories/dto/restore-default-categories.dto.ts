@@ -0,0 +1,15 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CATEGORY_TEMPLATE_NAMES } from '../default-categories';
+
+export class RestoreDefaultCategoriesDto {
+  @ApiProperty({
+    description: 'Template to restore the defaults of, defaults to the template chosen at registration',
+    enum: CATEGORY_TEMPLATE_NAMES,
+    example: 'en',
+    required: false,
+  })
+  @IsIn(CATEGORY_TEMPLATE_NAMES)
+  @IsOptional()
+  template?: string;
+}
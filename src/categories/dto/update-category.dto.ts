@@ -1,4 +1,4 @@
-import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { CategoryTypeEnum } from './create-category.dto';
 
@@ -48,4 +48,15 @@ export class UpdateCategoryDto {
   @IsString()
   @IsOptional()
   description?: string;
+
+  @ApiProperty({
+    description: 'Parent category with the same type, or null to make this a top-level category',
+    example: 'cl9ebqkxk000098l23xjp7y2a',
+    required: false,
+    nullable: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  parentId?: string | null;
 }
@@ -45,6 +45,13 @@ export class CategoryModel {
   })
   isDefault: boolean;
 
+  @ApiProperty({
+    description: 'Default category template entry the category was created from',
+    example: 'groceries',
+    nullable: true,
+  })
+  templateKey: string | null;
+
   @ApiProperty({
     description: 'Description of the category',
     example: 'For food and household items',
@@ -52,6 +59,13 @@ export class CategoryModel {
   })
   description: string | null;
 
+  @ApiProperty({
+    description: 'Parent category ID, null for top-level categories',
+    example: null,
+    nullable: true,
+  })
+  parentId: string | null;
+
   @ApiProperty({
     description: 'Date when the category was created',
     example: '2023-04-15T10:30:00.000Z',
@@ -65,10 +79,77 @@ export class CategoryModel {
   updatedAt: Date;
 }
 
+export class CategoryTreeModel extends CategoryModel {
+  @ApiProperty({
+    description: 'Subcategories, sorted by name',
+    type: () => [CategoryTreeModel],
+  })
+  children: CategoryTreeModel[];
+}
+
 export class DeleteCategoryResponseModel {
   @ApiProperty({
     description: 'Success message',
     example: 'Category deleted successfully',
   })
   message: string;
-} 
\ No newline at end of file
+} 
+class MergedCounts {
+  @ApiProperty({ description: 'Transactions', example: 42 })
+  transactions: number;
+
+  @ApiProperty({ description: 'Transaction split lines', example: 3 })
+  transactionSplits: number;
+
+  @ApiProperty({ description: 'Bills', example: 1 })
+  bills: number;
+
+  @ApiProperty({ description: 'Recurring transactions', example: 1 })
+  recurringTransactions: number;
+
+  @ApiProperty({ description: 'Plan items', example: 2 })
+  planItems: number;
+
+  @ApiProperty({ description: 'Budget allocations, moved or added to an allocation of the target in the same budget', example: 4 })
+  budgetAllocations: number;
+
+  @ApiProperty({ description: 'Category rules', example: 2 })
+  categoryRules: number;
+
+  @ApiProperty({ description: 'Subcategories', example: 0 })
+  subcategories: number;
+}
+
+export class MergeCategoryResultModel {
+  @ApiProperty({
+    description: 'Success message',
+    example: 'Category merged successfully',
+  })
+  message: string;
+
+  @ApiProperty({
+    description: 'Category everything was moved to',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  targetCategoryId: string;
+
+  @ApiProperty({
+    description: 'Number of records moved to the target category',
+    type: MergedCounts,
+  })
+  moved: MergedCounts;
+}
+
+export class RestoreDefaultCategoriesResultModel {
+  @ApiProperty({
+    description: 'Template the defaults were taken from',
+    example: 'en',
+  })
+  template: string;
+
+  @ApiProperty({
+    description: 'Default categories that were missing and have been created',
+    type: [CategoryModel],
+  })
+  created: CategoryModel[];
+}
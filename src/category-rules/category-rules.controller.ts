@@ -0,0 +1,174 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, UseGuards } from '@nestjs/common';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiCreatedResponse, ApiForbiddenResponse, ApiNoContentResponse, ApiNotFoundResponse, ApiOkResponse, ApiOperation, ApiParam, ApiTags, ApiUnauthorizedResponse } from '@nestjs/swagger';
+import { JwtGuard } from 'src/auth/guard';
+import { GetUser } from 'src/auth/decorator';
+import { CategoryRulesService } from './category-rules.service';
+import { ApplyCategoryRulesDto, CreateCategoryRuleDto, UpdateCategoryRuleDto } from './dto';
+import { ApplyRulesResultModel, CategoryRuleModel } from './models/category-rule.model';
+
+@ApiTags('category-rules')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
+@Controller('category-rules')
+export class CategoryRulesController {
+  constructor(private categoryRulesService: CategoryRulesService) {}
+
+  /**
+   * Get all category rules for the authenticated user
+   * 
+   * @param userId - Current authenticated user ID
+   * @returns Array of rules in the order they are tried
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all category rules',
+    description: 'Retrieves all category rules of the current user, in the order they are tried',
+  })
+  @ApiOkResponse({
+    description: 'List of rules retrieved successfully',
+    type: [CategoryRuleModel],
+  })
+  getRules(@GetUser('id') userId: string) {
+    return this.categoryRulesService.getRules(userId);
+  }
+
+  /**
+   * Get a category rule by ID
+   * 
+   * @param userId - Current authenticated user ID
+   * @param ruleId - ID of the rule to retrieve
+   * @returns The requested rule
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a category rule by ID',
+    description: 'Retrieves a specific category rule',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Rule ID',
+  })
+  @ApiOkResponse({
+    description: 'Rule retrieved successfully',
+    type: CategoryRuleModel,
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Rule with the given ID does not exist' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this rule' })
+  getRuleById(
+    @GetUser('id') userId: string,
+    @Param('id') ruleId: string,
+  ) {
+    return this.categoryRulesService.getRuleById(userId, ruleId);
+  }
+
+  /**
+   * Create a new category rule
+   * 
+   * @param userId - Current authenticated user ID
+   * @param dto - Rule creation data
+   * @returns The created rule
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create a category rule',
+    description: 'Creates a rule giving a category, and optionally notes, to new transactions that match its conditions',
+  })
+  @ApiCreatedResponse({
+    description: 'The rule has been successfully created',
+    type: CategoryRuleModel,
+  })
+  @ApiBadRequestResponse({ description: 'Rule has no condition, an invalid amount range or an invalid regular expression' })
+  @ApiNotFoundResponse({ description: 'Not Found - Category does not exist' })
+  createRule(
+    @GetUser('id') userId: string,
+    @Body() dto: CreateCategoryRuleDto,
+  ) {
+    return this.categoryRulesService.createRule(userId, dto);
+  }
+
+  /**
+   * Re-apply the rules to existing transactions
+   * 
+   * @param userId - Current authenticated user ID
+   * @param dto - Dry run flag and optional date range
+   * @returns The transactions that change, or would change for a dry run
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('apply')
+  @ApiOperation({
+    summary: 'Re-apply rules to existing transactions',
+    description: 'Runs the enabled rules over the existing transactions, skipping transfers and split transactions. Dry runs (the default) only list the transactions that would change.',
+  })
+  @ApiOkResponse({
+    description: 'Rules applied, or the preview of a dry run',
+    type: ApplyRulesResultModel,
+  })
+  applyRules(
+    @GetUser('id') userId: string,
+    @Body() dto: ApplyCategoryRulesDto,
+  ) {
+    return this.categoryRulesService.applyRules(userId, dto);
+  }
+
+  /**
+   * Update an existing category rule
+   * 
+   * @param userId - Current authenticated user ID
+   * @param ruleId - ID of the rule to update
+   * @param dto - Rule update data
+   * @returns The updated rule
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update a category rule',
+    description: 'Updates a rule by ID; conditions sent as null are removed. Transactions it already categorised are not changed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Rule ID',
+  })
+  @ApiOkResponse({
+    description: 'The rule has been successfully updated',
+    type: CategoryRuleModel,
+  })
+  @ApiBadRequestResponse({ description: 'Rule has no condition, an invalid amount range or an invalid regular expression' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this rule' })
+  @ApiNotFoundResponse({ description: 'Not Found - Rule or category does not exist' })
+  updateRule(
+    @GetUser('id') userId: string,
+    @Param('id') ruleId: string,
+    @Body() dto: UpdateCategoryRuleDto,
+  ) {
+    return this.categoryRulesService.updateRule(userId, ruleId, dto);
+  }
+
+  /**
+   * Delete a category rule
+   * 
+   * @param userId - Current authenticated user ID
+   * @param ruleId - ID of the rule to delete
+   * @returns Success message
+   */
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a category rule',
+    description: 'Deletes a rule by ID. Transactions it categorised keep their category.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Rule ID',
+  })
+  @ApiNoContentResponse({
+    description: 'The rule has been successfully deleted',
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this rule' })
+  @ApiNotFoundResponse({ description: 'Not Found - Rule with the given ID does not exist' })
+  deleteRule(
+    @GetUser('id') userId: string,
+    @Param('id') ruleId: string,
+  ) {
+    return this.categoryRulesService.deleteRule(userId, ruleId);
+  }
+}
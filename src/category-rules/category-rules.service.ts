@@ -0,0 +1,301 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { RuleMatchType } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CalendarService } from 'src/common/calendar';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { NOT_TRANSFER } from 'src/transactions/transfers';
+import { ApplyCategoryRulesDto, CreateCategoryRuleDto, UpdateCategoryRuleDto } from './dto';
+import { compileRules, findMatchingRule, isSafePattern, isValidPattern, RuleConditions, RuleSubject } from './rule-matcher';
+
+@Injectable()
+export class CategoryRulesService {
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+  ) {}
+
+  private readonly ruleInclude = {
+    category: {
+      select: {
+        id: true,
+        name: true,
+        icon: true,
+        color: true,
+        type: true,
+      },
+    },
+  };
+
+  // Get all rules of the user in the order they are tried
+  async getRules(userId: string) {
+    return this.prisma.categoryRule.findMany({
+      where: { userId },
+      include: this.ruleInclude,
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  // Get a specific rule
+  async getRuleById(userId: string, ruleId: string) {
+    await this.verifyOwnership(userId, ruleId);
+
+    return this.prisma.categoryRule.findUnique({
+      where: { id: ruleId },
+      include: this.ruleInclude,
+    });
+  }
+
+  // Create a new rule
+  async createRule(userId: string, dto: CreateCategoryRuleDto) {
+    await this.verifyCategory(userId, dto.categoryId);
+
+    const conditions = {
+      descriptionPattern: dto.descriptionPattern ?? null,
+      matchType: dto.matchType ?? RuleMatchType.CONTAINS,
+      minAmount: dto.minAmount ?? null,
+      maxAmount: dto.maxAmount ?? null,
+      type: dto.type ?? null,
+    };
+    this.validateConditions(conditions);
+
+    return this.prisma.categoryRule.create({
+      data: {
+        userId,
+        name: dto.name,
+        categoryId: dto.categoryId,
+        ...conditions,
+        notes: dto.notes,
+        priority: dto.priority ?? 0,
+        enabled: dto.enabled ?? true,
+      },
+      include: this.ruleInclude,
+    });
+  }
+
+  // Update an existing rule, conditions sent as null are removed
+  async updateRule(userId: string, ruleId: string, dto: UpdateCategoryRuleDto) {
+    // Check if rule exists and belongs to the user
+    const rule = await this.verifyOwnership(userId, ruleId);
+
+    if (dto.categoryId) {
+      await this.verifyCategory(userId, dto.categoryId);
+    }
+
+    // Validate the conditions the rule will have after the update
+    const conditions = {
+      descriptionPattern: dto.descriptionPattern !== undefined ? dto.descriptionPattern : rule.descriptionPattern,
+      matchType: dto.matchType || rule.matchType,
+      minAmount: dto.minAmount !== undefined ? dto.minAmount : rule.minAmount,
+      maxAmount: dto.maxAmount !== undefined ? dto.maxAmount : rule.maxAmount,
+      type: dto.type !== undefined ? dto.type : rule.type,
+    };
+    this.validateConditions(conditions);
+
+    return this.prisma.categoryRule.update({
+      where: { id: ruleId },
+      data: {
+        ...(dto.name && { name: dto.name }),
+        ...(dto.categoryId && { categoryId: dto.categoryId }),
+        ...conditions,
+        ...(dto.notes !== undefined && { notes: dto.notes }),
+        ...(dto.priority !== undefined && dto.priority !== null && { priority: dto.priority }),
+        ...(dto.enabled !== undefined && dto.enabled !== null && { enabled: dto.enabled }),
+      },
+      include: this.ruleInclude,
+    });
+  }
+
+  // Delete a rule, the transactions it categorised keep their category
+  async deleteRule(userId: string, ruleId: string) {
+    // Check if rule exists and belongs to the user
+    await this.verifyOwnership(userId, ruleId);
+
+    await this.prisma.categoryRule.delete({
+      where: { id: ruleId },
+    });
+
+    return { message: 'Rule deleted successfully' };
+  }
+
+  /**
+   * Get the rules that are applied to transactions, in the order they are tried
+   * Disabled rules and rules whose category is in the trash are left out
+   *
+   * @param userId - Current authenticated user ID
+   * @returns Enabled rules sorted by priority, compiled to be tried on many transactions
+   */
+  async getActiveRules(userId: string) {
+    const rules = await this.prisma.categoryRule.findMany({
+      where: {
+        userId,
+        enabled: true,
+        category: NOT_DELETED,
+      },
+      include: { category: { select: { type: true } } },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return compileRules(rules);
+  }
+
+  // Find the first enabled rule matching a transaction
+  async findMatch(userId: string, transaction: RuleSubject) {
+    const rules = await this.getActiveRules(userId);
+
+    return findMatchingRule(rules, transaction);
+  }
+
+  /**
+   * Re-apply the rules to the existing transactions of the user
+   * The first matching rule sets the category, and its notes when the transaction has none;
+   * transfers and split transactions are left alone
+   *
+   * @param userId - Current authenticated user ID
+   * @param dto - Dry run flag and optional date range
+   * @returns The transactions that change, or would change for a dry run
+   */
+  async applyRules(userId: string, dto: ApplyCategoryRulesDto) {
+    const dryRun = dto.dryRun !== false;
+    const rules = await this.getActiveRules(userId);
+
+    // Date-only filters cover whole days in the user's timezone
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const startDate = dto.fromDate ? this.calendar.resolveDateFilter(dto.fromDate, userCalendar, 'start') : undefined;
+    const endDate = dto.toDate ? this.calendar.resolveDateFilter(dto.toDate, userCalendar, 'end') : undefined;
+
+    const transactions = rules.length === 0 ? [] : await this.prisma.transaction.findMany({
+      where: {
+        userId,
+        ...NOT_DELETED,
+        ...NOT_TRANSFER,
+        splits: { none: {} },
+        ...((startDate || endDate) && {
+          date: {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+          },
+        }),
+      },
+      select: {
+        id: true,
+        date: true,
+        description: true,
+        amount: true,
+        type: true,
+        notes: true,
+        categoryId: true,
+      },
+      orderBy: { date: 'desc' },
+    });
+
+    const changes = transactions.flatMap(transaction => {
+      const rule = findMatchingRule(rules, transaction);
+      if (!rule) return [];
+
+      // Notes of the rule only fill in empty notes
+      const notes = !transaction.notes && rule.notes ? rule.notes : transaction.notes;
+
+      if (rule.categoryId === transaction.categoryId && notes === transaction.notes) {
+        return [];
+      }
+
+      return [{
+        transactionId: transaction.id,
+        date: transaction.date,
+        description: transaction.description,
+        amount: transaction.amount,
+        type: transaction.type,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        previousCategoryId: transaction.categoryId,
+        categoryId: rule.categoryId,
+        previousNotes: transaction.notes,
+        notes,
+      }];
+    });
+
+    if (!dryRun && changes.length > 0) {
+      // One update per category and notes pair, however many transactions change
+      const groups = new Map<string, { categoryId: string; notes: string | null; transactionIds: string[] }>();
+
+      for (const change of changes) {
+        const key = JSON.stringify([change.categoryId, change.notes]);
+
+        if (!groups.has(key)) {
+          groups.set(key, { categoryId: change.categoryId, notes: change.notes, transactionIds: [] });
+        }
+
+        groups.get(key)!.transactionIds.push(change.transactionId);
+      }
+
+      await this.prisma.$transaction([...groups.values()].map(group =>
+        this.prisma.transaction.updateMany({
+          where: { id: { in: group.transactionIds }, userId },
+          data: { categoryId: group.categoryId, notes: group.notes },
+        }),
+      ));
+    }
+
+    return {
+      dryRun,
+      checkedCount: transactions.length,
+      changedCount: changes.length,
+      changes,
+    };
+  }
+
+  // Helper method to verify ownership
+  private async verifyOwnership(userId: string, ruleId: string) {
+    const rule = await this.prisma.categoryRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Rule not found');
+    }
+
+    if (rule.userId !== userId) {
+      throw new ForbiddenException('Access to resource denied');
+    }
+
+    return rule;
+  }
+
+  // Helper method to make sure the category of a rule exists and belongs to the user
+  private async verifyCategory(userId: string, categoryId: string) {
+    const category = await this.prisma.category.findFirst({
+      where: {
+        id: categoryId,
+        userId,
+        ...NOT_DELETED,
+      },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Category not found or does not belong to user');
+    }
+  }
+
+  // Helper method to check that a rule has at least one valid condition
+  private validateConditions(conditions: RuleConditions) {
+    const { descriptionPattern, matchType, minAmount, maxAmount, type } = conditions;
+
+    if (!descriptionPattern && minAmount === null && maxAmount === null && !type) {
+      throw new BadRequestException('A rule needs at least one condition: descriptionPattern, minAmount, maxAmount or type');
+    }
+
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+      throw new BadRequestException('minAmount cannot be greater than maxAmount');
+    }
+
+    if (descriptionPattern && matchType === RuleMatchType.REGEX) {
+      if (!isValidPattern(descriptionPattern)) {
+        throw new BadRequestException('descriptionPattern is not a valid regular expression');
+      }
+
+      if (!isSafePattern(descriptionPattern)) {
+        throw new BadRequestException('descriptionPattern could take too long to match, avoid nested repetition such as (a+)+');
+      }
+    }
+  }
+}
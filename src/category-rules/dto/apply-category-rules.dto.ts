@@ -0,0 +1,35 @@
+import { IsBoolean, IsDate, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ApplyCategoryRulesDto {
+  @ApiProperty({
+    description: 'Only list the transactions that would change, without changing them',
+    example: true,
+    default: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean = true;
+
+  @ApiProperty({
+    description: 'Only re-apply the rules to transactions from this date',
+    example: '2023-01-01',
+    required: false,
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  fromDate?: Date;
+
+  @ApiProperty({
+    description: 'Only re-apply the rules to transactions up to this date',
+    example: '2023-12-31',
+    required: false,
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  toDate?: Date;
+}
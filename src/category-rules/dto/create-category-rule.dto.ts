@@ -0,0 +1,111 @@
+import { IsBoolean, IsEnum, IsIn, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionTypeEnum } from 'src/transactions/dto/create-transaction.dto';
+
+export enum RuleMatchTypeEnum {
+  CONTAINS = 'CONTAINS',
+  REGEX = 'REGEX',
+}
+
+// Rules pick a category, so they only apply to income and expenses
+export const RULE_TRANSACTION_TYPES = [TransactionTypeEnum.INCOME, TransactionTypeEnum.EXPENSE];
+
+export class CreateCategoryRuleDto {
+  @ApiProperty({
+    description: 'Rule name',
+    example: 'Supermarkets',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Category given to matching transactions',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  @IsString()
+  @IsNotEmpty()
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Text the description must contain, or a regular expression it must match (case insensitive)',
+    example: 'lidl|aldi|tesco',
+    required: false,
+    maxLength: 200,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  @IsOptional()
+  descriptionPattern?: string;
+
+  @ApiProperty({
+    description: 'How the description pattern is matched',
+    enum: RuleMatchTypeEnum,
+    example: RuleMatchTypeEnum.REGEX,
+    required: false,
+    default: RuleMatchTypeEnum.CONTAINS,
+  })
+  @IsEnum(RuleMatchTypeEnum)
+  @IsOptional()
+  matchType?: RuleMatchTypeEnum;
+
+  @ApiProperty({
+    description: 'Lowest matching amount, inclusive',
+    example: 5,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minAmount?: number;
+
+  @ApiProperty({
+    description: 'Highest matching amount, inclusive',
+    example: 250,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  maxAmount?: number;
+
+  @ApiProperty({
+    description: 'Transaction type to match, any type if not set',
+    enum: RULE_TRANSACTION_TYPES,
+    example: TransactionTypeEnum.EXPENSE,
+    required: false,
+  })
+  @IsIn(RULE_TRANSACTION_TYPES)
+  @IsOptional()
+  type?: TransactionTypeEnum;
+
+  @ApiProperty({
+    description: 'Notes filled in on matching transactions that have none',
+    example: 'Weekly groceries',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @ApiProperty({
+    description: 'Rules are tried from the lowest priority up, the first matching rule wins',
+    example: 10,
+    required: false,
+    default: 0,
+  })
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+
+  @ApiProperty({
+    description: 'Disabled rules are kept but never applied',
+    example: true,
+    required: false,
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
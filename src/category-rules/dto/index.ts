@@ -0,0 +1,3 @@
+export * from './create-category-rule.dto';
+export * from './update-category-rule.dto';
+export * from './apply-category-rules.dto';
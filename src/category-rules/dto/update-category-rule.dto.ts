@@ -0,0 +1,5 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateCategoryRuleDto } from './create-category-rule.dto';
+
+// Conditions and notes can be removed by sending null
+export class UpdateCategoryRuleDto extends PartialType(CreateCategoryRuleDto) {}
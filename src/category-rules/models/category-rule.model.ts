@@ -0,0 +1,235 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionTypeEnum } from 'src/transactions/dto/create-transaction.dto';
+import { CategoryTypeEnum } from 'src/categories/dto/create-category.dto';
+import { RuleMatchTypeEnum } from '../dto/create-category-rule.dto';
+
+class RuleCategoryInfo {
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Groceries',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Category icon',
+    example: 'shopping-basket',
+  })
+  icon: string;
+
+  @ApiProperty({
+    description: 'Category color',
+    example: '#2E7D32',
+  })
+  color: string;
+
+  @ApiProperty({
+    description: 'Category type',
+    enum: CategoryTypeEnum,
+    example: CategoryTypeEnum.EXPENSE,
+  })
+  type: CategoryTypeEnum;
+}
+
+export class CategoryRuleModel {
+  @ApiProperty({
+    description: 'Unique identifier',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User ID who owns this rule',
+    example: 'cl9ebq7xj000023l29wbg5b2j',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Rule name',
+    example: 'Supermarkets',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Rules are tried from the lowest priority up, the first matching rule wins',
+    example: 10,
+  })
+  priority: number;
+
+  @ApiProperty({
+    description: 'Whether the rule is applied',
+    example: true,
+  })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Text or regular expression the description must match (case insensitive)',
+    example: 'lidl|aldi|tesco',
+    nullable: true,
+  })
+  descriptionPattern: string | null;
+
+  @ApiProperty({
+    description: 'How the description pattern is matched',
+    enum: RuleMatchTypeEnum,
+    example: RuleMatchTypeEnum.REGEX,
+  })
+  matchType: RuleMatchTypeEnum;
+
+  @ApiProperty({
+    description: 'Lowest matching amount, inclusive',
+    example: 5,
+    nullable: true,
+  })
+  minAmount: number | null;
+
+  @ApiProperty({
+    description: 'Highest matching amount, inclusive',
+    example: 250,
+    nullable: true,
+  })
+  maxAmount: number | null;
+
+  @ApiProperty({
+    description: 'Transaction type to match, any type if null',
+    enum: TransactionTypeEnum,
+    example: TransactionTypeEnum.EXPENSE,
+    nullable: true,
+  })
+  type: TransactionTypeEnum | null;
+
+  @ApiProperty({
+    description: 'Notes filled in on matching transactions that have none',
+    example: 'Weekly groceries',
+    nullable: true,
+  })
+  notes: string | null;
+
+  @ApiProperty({
+    description: 'Category given to matching transactions',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Category given to matching transactions',
+    type: RuleCategoryInfo,
+  })
+  category: RuleCategoryInfo;
+
+  @ApiProperty({
+    description: 'Date when the rule was created',
+    example: '2023-04-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Date when the rule was last updated',
+    example: '2023-05-20T14:15:30.000Z',
+  })
+  updatedAt: Date;
+}
+
+class RuleChangeModel {
+  @ApiProperty({
+    description: 'Transaction ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  transactionId: string;
+
+  @ApiProperty({
+    description: 'Transaction date',
+    example: '2023-05-15T14:30:00.000Z',
+  })
+  date: Date;
+
+  @ApiProperty({
+    description: 'Transaction description',
+    example: 'LIDL 1234 BERLIN',
+    nullable: true,
+  })
+  description: string | null;
+
+  @ApiProperty({
+    description: 'Transaction amount',
+    example: 45.99,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Transaction type',
+    enum: TransactionTypeEnum,
+    example: TransactionTypeEnum.EXPENSE,
+  })
+  type: TransactionTypeEnum;
+
+  @ApiProperty({
+    description: 'Rule that matched the transaction',
+    example: 'cl9ebqkxk000098l23xjp7y2a',
+  })
+  ruleId: string;
+
+  @ApiProperty({
+    description: 'Name of the rule that matched the transaction',
+    example: 'Supermarkets',
+  })
+  ruleName: string;
+
+  @ApiProperty({
+    description: 'Category before the rules were applied',
+    example: 'cl9ebqkxk000098l23xjp7y3b',
+    nullable: true,
+  })
+  previousCategoryId: string | null;
+
+  @ApiProperty({
+    description: 'Category given by the rule',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Notes before the rules were applied',
+    example: null,
+    nullable: true,
+  })
+  previousNotes: string | null;
+
+  @ApiProperty({
+    description: 'Notes after the rules were applied',
+    example: 'Weekly groceries',
+    nullable: true,
+  })
+  notes: string | null;
+}
+
+export class ApplyRulesResultModel {
+  @ApiProperty({
+    description: 'Whether this was a dry run',
+    example: true,
+  })
+  dryRun: boolean;
+
+  @ApiProperty({
+    description: 'Number of transactions the rules were tried on',
+    example: 250,
+  })
+  checkedCount: number;
+
+  @ApiProperty({
+    description: 'Number of transactions that changed, or would change for a dry run',
+    example: 12,
+  })
+  changedCount: number;
+
+  @ApiProperty({
+    description: 'Transactions that changed, or would change for a dry run',
+    type: [RuleChangeModel],
+  })
+  changes: RuleChangeModel[];
+}
@@ -0,0 +1,109 @@
+import { CategoryType, RuleMatchType } from '@prisma/client';
+import { compilePattern, compileRules, findMatchingRule, isSafePattern, isValidPattern, RuleConditions } from './rule-matcher';
+
+type TestRule = RuleConditions & { id: string; category: { type: string } };
+
+function rule(id: string, conditions: Partial<RuleConditions> = {}, categoryType: string = CategoryType.EXPENSE): TestRule {
+  return {
+    id,
+    descriptionPattern: null,
+    matchType: RuleMatchType.CONTAINS,
+    minAmount: null,
+    maxAmount: null,
+    type: null,
+    ...conditions,
+    category: { type: categoryType },
+  };
+}
+
+function match(rules: TestRule[], description: string | null, amount = 10, type: string = CategoryType.EXPENSE) {
+  return findMatchingRule(compileRules(rules), { description, amount, type })?.id;
+}
+
+describe('rule-matcher', () => {
+  describe('findMatchingRule', () => {
+    it('matches descriptions containing the pattern, ignoring case', () => {
+      const rules = [rule('coffee', { descriptionPattern: 'Starbucks' })];
+
+      expect(match(rules, 'STARBUCKS #1234 SEATTLE')).toBe('coffee');
+      expect(match(rules, 'Costa Coffee')).toBeUndefined();
+      expect(match(rules, null)).toBeUndefined();
+    });
+
+    it('matches regular expressions, ignoring case', () => {
+      const rules = [rule('groceries', { descriptionPattern: '^(lidl|aldi)\\b', matchType: RuleMatchType.REGEX })];
+
+      expect(match(rules, 'Aldi Sued 123')).toBe('groceries');
+      expect(match(rules, 'Paid at LIDL')).toBeUndefined();
+    });
+
+    it('applies the amount range inclusively', () => {
+      const rules = [rule('small', { minAmount: 5, maxAmount: 20 })];
+
+      expect(match(rules, 'Shop', 5)).toBe('small');
+      expect(match(rules, 'Shop', 20)).toBe('small');
+      expect(match(rules, 'Shop', 4.99)).toBeUndefined();
+      expect(match(rules, 'Shop', 20.01)).toBeUndefined();
+    });
+
+    it('returns the first matching rule in the given order', () => {
+      const rules = [
+        rule('specific', { descriptionPattern: 'amazon prime' }),
+        rule('general', { descriptionPattern: 'amazon' }),
+      ];
+
+      expect(match(rules, 'Amazon Prime membership')).toBe('specific');
+      expect(match(rules, 'Amazon order')).toBe('general');
+    });
+
+    it('only matches transactions of the type of the rule category', () => {
+      const rules = [rule('salary', { descriptionPattern: 'acme' }, CategoryType.INCOME)];
+
+      expect(match(rules, 'ACME payroll', 10, CategoryType.INCOME)).toBe('salary');
+      expect(match(rules, 'ACME store', 10, CategoryType.EXPENSE)).toBeUndefined();
+    });
+
+    it('never matches when the type condition disagrees with the category', () => {
+      const rules = [rule('refund', { descriptionPattern: 'shop', type: CategoryType.INCOME }, CategoryType.EXPENSE)];
+
+      expect(match(rules, 'Shop', 10, CategoryType.EXPENSE)).toBeUndefined();
+      expect(match(rules, 'Shop', 10, CategoryType.INCOME)).toBeUndefined();
+    });
+
+    it('never matches with an invalid or unsafe pattern', () => {
+      const rules = [
+        rule('invalid', { descriptionPattern: '(', matchType: RuleMatchType.REGEX }),
+        rule('unsafe', { descriptionPattern: '(a+)+$', matchType: RuleMatchType.REGEX }),
+      ];
+
+      expect(match(rules, '(')).toBeUndefined();
+      expect(match(rules, 'aaaa')).toBeUndefined();
+    });
+  });
+
+  describe('compileRules', () => {
+    it('compiles regular expression patterns once per rule', () => {
+      const [regex, contains] = compileRules([
+        rule('regex', { descriptionPattern: 'tesco', matchType: RuleMatchType.REGEX }),
+        rule('contains', { descriptionPattern: 'tesco' }),
+      ]);
+
+      expect(regex.pattern).toEqual(/tesco/i);
+      expect(contains.pattern).toBeNull();
+    });
+  });
+
+  describe('pattern checks', () => {
+    it('tells valid patterns from invalid ones', () => {
+      expect(isValidPattern('lidl|aldi|tesco')).toBe(true);
+      expect(isValidPattern('[a-')).toBe(false);
+    });
+
+    it('rejects patterns that backtrack catastrophically', () => {
+      expect(isSafePattern('lidl|aldi|tesco')).toBe(true);
+      expect(isSafePattern('(a+)+$')).toBe(false);
+      expect(isSafePattern('([a-z]+)*$')).toBe(false);
+      expect(compilePattern('(a+)+$')).toBeNull();
+    });
+  });
+});
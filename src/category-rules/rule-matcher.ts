@@ -0,0 +1,94 @@
+import { RuleMatchType } from '@prisma/client';
+import { safeRegex } from 'safe-regex2';
+
+// Conditions of a category rule, the ones left null match any transaction
+export interface RuleConditions {
+  descriptionPattern: string | null;
+  matchType: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  type: string | null;
+}
+
+// Rule as tried on transactions: it only categorises transactions of its category's type,
+// and its regular expression is compiled once for the whole run
+export interface MatchableRule extends RuleConditions {
+  category: { type: string };
+  pattern: RegExp | null;
+}
+
+// Fields of a transaction the rules look at
+export interface RuleSubject {
+  description?: string | null;
+  amount: number;
+  type: string;
+}
+
+/**
+ * Prepare rules to be tried on transactions
+ *
+ * @param rules - Rules with the type of their category
+ * @returns The same rules, each with its compiled pattern
+ */
+export function compileRules<R extends RuleConditions & { category: { type: string } }>(rules: R[]): (R & MatchableRule)[] {
+  return rules.map(rule => ({
+    ...rule,
+    pattern: rule.descriptionPattern && rule.matchType === RuleMatchType.REGEX
+      ? compilePattern(rule.descriptionPattern)
+      : null,
+  }));
+}
+
+/**
+ * Find the rule that categorises a transaction
+ * Rules must be sorted by priority; a rule matches when all the conditions it sets match
+ *
+ * @param rules - Enabled rules prepared with compileRules, in the order they are tried
+ * @param transaction - Transaction to categorise
+ * @returns The first matching rule, or undefined if none matches
+ */
+export function findMatchingRule<R extends MatchableRule>(rules: R[], transaction: RuleSubject): R | undefined {
+  return rules.find(rule => matchesRule(rule, transaction));
+}
+
+// Check whether a transaction meets all the conditions of a rule
+export function matchesRule(rule: MatchableRule, transaction: RuleSubject) {
+  // An income category never ends up on an expense, whatever the conditions of the rule
+  if (rule.category.type !== transaction.type) return false;
+  if (rule.type && rule.type !== transaction.type) return false;
+  if (rule.minAmount !== null && transaction.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && transaction.amount > rule.maxAmount) return false;
+
+  if (rule.descriptionPattern) {
+    const description = transaction.description || '';
+
+    if (rule.matchType === RuleMatchType.REGEX) {
+      // Invalid and unsafe patterns never match
+      if (!rule.pattern || !rule.pattern.test(description)) return false;
+    } else if (!description.toLowerCase().includes(rule.descriptionPattern.toLowerCase())) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Check that a pattern is a valid regular expression
+export function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Check that a pattern cannot backtrack catastrophically, such as (a+)+$, and stall the server
+export function isSafePattern(pattern: string) {
+  return safeRegex(pattern);
+}
+
+// Compile a regular expression pattern of a rule, null if it is invalid or unsafe
+export function compilePattern(pattern: string) {
+  return isValidPattern(pattern) && isSafePattern(pattern) ? new RegExp(pattern, 'i') : null;
+}
@@ -0,0 +1,92 @@
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CalendarService, UserCalendar } from './calendar.service';
+
+describe('CalendarService', () => {
+  const service = new CalendarService({} as PrismaService);
+
+  const calendar = (timeZone: string): UserCalendar => ({ weekStartsOn: 1, timeZone });
+
+  describe('addFrequency', () => {
+    it('keeps the wall-clock time across the change to summer time', () => {
+      const date = new Date('2024-03-30T08:00:00.000Z');
+
+      expect(service.addFrequency(date, 'DAILY', calendar('Europe/Berlin')).toISOString()).toBe('2024-03-31T07:00:00.000Z');
+    });
+
+    it('keeps the wall-clock time across the change to winter time', () => {
+      const date = new Date('2024-10-28T13:00:00.000Z');
+
+      expect(service.addFrequency(date, 'WEEKLY', calendar('America/New_York')).toISOString()).toBe('2024-11-04T14:00:00.000Z');
+      expect(service.addFrequency(date, 'BIWEEKLY', calendar('America/New_York')).toISOString()).toBe('2024-11-11T14:00:00.000Z');
+    });
+
+    it('moves to the last day of shorter months', () => {
+      const date = new Date('2024-01-31T09:00:00.000Z');
+
+      expect(service.addFrequency(date, 'MONTHLY', calendar('Europe/Berlin')).toISOString()).toBe('2024-02-29T09:00:00.000Z');
+      expect(service.addFrequency(date, 'MONTHLY', calendar('Europe/Berlin'), 2).toISOString()).toBe('2024-03-31T08:00:00.000Z');
+      expect(service.addFrequency(new Date('2024-11-30T12:00:00.000Z'), 'QUARTERLY', calendar('UTC')).toISOString())
+        .toBe('2025-02-28T12:00:00.000Z');
+      expect(service.addFrequency(new Date('2024-02-29T12:00:00.000Z'), 'ANNUALLY', calendar('UTC')).toISOString())
+        .toBe('2025-02-28T12:00:00.000Z');
+    });
+
+    it('finds the month end in the user timezone rather than in UTC', () => {
+      // 31 January in Tokyo, still 30 January in UTC
+      const date = new Date('2024-01-30T23:00:00.000Z');
+
+      expect(service.addFrequency(date, 'MONTHLY', calendar('Asia/Tokyo')).toISOString()).toBe('2024-02-28T23:00:00.000Z');
+      expect(service.addFrequency(date, 'MONTHLY', calendar('UTC')).toISOString()).toBe('2024-02-29T23:00:00.000Z');
+    });
+
+    it('moves back with negative steps', () => {
+      const date = new Date('2024-03-31T12:00:00.000Z');
+
+      expect(service.addFrequency(date, 'MONTHLY', calendar('UTC'), -1).toISOString()).toBe('2024-02-29T12:00:00.000Z');
+      expect(service.addFrequency(date, 'BIANNUALLY', calendar('UTC'), -1).toISOString()).toBe('2023-09-30T12:00:00.000Z');
+    });
+
+    it('treats unknown frequencies as monthly', () => {
+      const date = new Date('2024-05-15T12:00:00.000Z');
+
+      expect(service.addFrequency(date, 'FORTNIGHTLY', calendar('UTC')).toISOString()).toBe('2024-06-15T12:00:00.000Z');
+    });
+  });
+
+  describe('resolveDateFilter', () => {
+    it('uses dates with an explicit time as they are', () => {
+      const date = new Date('2024-03-31T10:15:00.000Z');
+
+      expect(service.resolveDateFilter(date, calendar('Europe/Berlin'), 'start')).toEqual(date);
+      expect(service.resolveDateFilter(date, calendar('Europe/Berlin'), 'end')).toEqual(date);
+    });
+
+    it('covers the whole day in UTC', () => {
+      const date = new Date('2024-05-10');
+
+      expect(service.resolveDateFilter(date, calendar('UTC'), 'start').toISOString()).toBe('2024-05-10T00:00:00.000Z');
+      expect(service.resolveDateFilter(date, calendar('UTC'), 'end').toISOString()).toBe('2024-05-10T23:59:59.999Z');
+    });
+
+    it('covers the 23 hours of the day clocks move forward', () => {
+      const date = new Date('2024-03-31');
+
+      expect(service.resolveDateFilter(date, calendar('Europe/Berlin'), 'start').toISOString()).toBe('2024-03-30T23:00:00.000Z');
+      expect(service.resolveDateFilter(date, calendar('Europe/Berlin'), 'end').toISOString()).toBe('2024-03-31T21:59:59.999Z');
+    });
+
+    it('covers the 25 hours of the day clocks move back', () => {
+      const date = new Date('2024-10-27');
+
+      expect(service.resolveDateFilter(date, calendar('Europe/Berlin'), 'start').toISOString()).toBe('2024-10-26T22:00:00.000Z');
+      expect(service.resolveDateFilter(date, calendar('Europe/Berlin'), 'end').toISOString()).toBe('2024-10-27T22:59:59.999Z');
+    });
+
+    it('keeps month-end days in the user timezone', () => {
+      expect(service.resolveDateFilter(new Date('2024-02-29'), calendar('America/New_York'), 'end').toISOString())
+        .toBe('2024-03-01T04:59:59.999Z');
+      expect(service.resolveDateFilter(new Date('2024-01-31'), calendar('Asia/Tokyo'), 'start').toISOString())
+        .toBe('2024-01-30T15:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { tz, TZDate } from '@date-fns/tz';
+import {
+  addDays, addMonths, addWeeks, addYears, Day, differenceInCalendarDays, endOfDay, endOfMonth,
+  endOfWeek, endOfYear, format, isValid, parse, startOfDay, startOfMonth, startOfWeek, startOfYear,
+} from 'date-fns';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { WeekDayEnum } from 'src/settings/dto/update-preferences.dto';
+
+export interface UserCalendar {
+  weekStartsOn: Day;
+  timeZone: string;
+}
+
+export interface DateRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+// date-fns day index for each configurable week start day
+const WEEK_DAY_INDEX: Record<WeekDayEnum, Day> = {
+  [WeekDayEnum.SUNDAY]: 0,
+  [WeekDayEnum.MONDAY]: 1,
+  [WeekDayEnum.TUESDAY]: 2,
+  [WeekDayEnum.WEDNESDAY]: 3,
+  [WeekDayEnum.THURSDAY]: 4,
+  [WeekDayEnum.FRIDAY]: 5,
+  [WeekDayEnum.SATURDAY]: 6,
+};
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+@Injectable()
+export class CalendarService {
+  constructor(private prisma: PrismaService) {}
+
+  // Load the calendar settings used to compute period boundaries for a user
+  async getUserCalendar(userId: string): Promise<UserCalendar> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { weekStartDay: true, timezone: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return {
+      weekStartsOn: WEEK_DAY_INDEX[user.weekStartDay as WeekDayEnum] ?? 0,
+      timeZone: user.timezone || DEFAULT_TIMEZONE,
+    };
+  }
+
+  /**
+   * Get the date-fns context that makes calculations run in the user's timezone
+   * Pass it as the `in` option, e.g. addMonths(date, 1, { in: context })
+   *
+   * @param calendar - The user's calendar settings
+   * @returns Timezone context for date-fns functions
+   */
+  getContext(calendar: UserCalendar) {
+    return tz(calendar.timeZone);
+  }
+
+  // Get the day containing the given date in the user's timezone
+  getDayRange(date: Date, calendar: UserCalendar): DateRange {
+    const context = this.getContext(calendar);
+
+    return this.toRange(startOfDay(date, { in: context }), endOfDay(date, { in: context }));
+  }
+
+  // Get the week containing the given date, starting on the user's week start day
+  getWeekRange(date: Date, calendar: UserCalendar): DateRange {
+    const options = { weekStartsOn: calendar.weekStartsOn, in: this.getContext(calendar) };
+
+    return this.toRange(startOfWeek(date, options), endOfWeek(date, options));
+  }
+
+  // Get the month containing the given date in the user's timezone
+  getMonthRange(date: Date, calendar: UserCalendar): DateRange {
+    const context = this.getContext(calendar);
+
+    return this.toRange(startOfMonth(date, { in: context }), endOfMonth(date, { in: context }));
+  }
+
+  // Get the year containing the given date in the user's timezone
+  getYearRange(date: Date, calendar: UserCalendar): DateRange {
+    const context = this.getContext(calendar);
+
+    return this.toRange(startOfYear(date, { in: context }), endOfYear(date, { in: context }));
+  }
+
+  // Get the number of calendar days from one date to another in the user's timezone
+  getDaysBetween(from: Date, to: Date, calendar: UserCalendar): number {
+    return differenceInCalendarDays(to, from, { in: this.getContext(calendar) });
+  }
+
+  // Format a date as seen on the user's wall clock
+  formatDate(date: Date, pattern: string, calendar: UserCalendar): string {
+    return format(date, pattern, { in: this.getContext(calendar) });
+  }
+
+  // Parse a date written on the user's wall clock, returns null if it does not match the pattern
+  parseDate(value: string, pattern: string, calendar: UserCalendar): Date | null {
+    const parsed = parse(value, pattern, new Date(), { in: this.getContext(calendar) });
+
+    return isValid(parsed) ? new Date(parsed.getTime()) : null;
+  }
+
+  // Get the "YYYY-MM" key of the month containing the given date
+  getMonthKey(date: Date, calendar: UserCalendar): string {
+    return this.formatDate(date, 'yyyy-MM', calendar);
+  }
+
+  /**
+   * Move a date by a number of recurrence periods, keeping the wall-clock time in the user's timezone
+   * Unknown frequencies are treated as monthly
+   *
+   * @param date - Date to start from
+   * @param frequency - Recurrence frequency (same values as BillFrequency)
+   * @param calendar - The user's calendar settings
+   * @param steps - Number of periods to move, negative to move back
+   * @returns The shifted date
+   */
+  addFrequency(date: Date, frequency: string, calendar: UserCalendar, steps: number = 1): Date {
+    const options = { in: this.getContext(calendar) };
+    let shifted: Date;
+
+    switch (frequency) {
+      case 'DAILY':
+        shifted = addDays(date, steps, options);
+        break;
+      case 'WEEKLY':
+        shifted = addWeeks(date, steps, options);
+        break;
+      case 'BIWEEKLY':
+        shifted = addWeeks(date, steps * 2, options);
+        break;
+      case 'QUARTERLY':
+        shifted = addMonths(date, steps * 3, options);
+        break;
+      case 'BIANNUALLY':
+        shifted = addMonths(date, steps * 6, options);
+        break;
+      case 'ANNUALLY':
+        shifted = addYears(date, steps, options);
+        break;
+      case 'MONTHLY':
+      default:
+        shifted = addMonths(date, steps, options);
+    }
+
+    return new Date(shifted.getTime());
+  }
+
+  /**
+   * Resolve a date filter from the query string in the user's timezone
+   * Dates sent without a time (YYYY-MM-DD, parsed as UTC midnight) are taken as that
+   * calendar day for the user; dates with an explicit time are used as they are
+   *
+   * @param date - Parsed query date
+   * @param calendar - The user's calendar settings
+   * @param boundary - Whether the date opens or closes the range
+   * @returns Instant to filter on
+   */
+  resolveDateFilter(date: Date, calendar: UserCalendar, boundary: 'start' | 'end'): Date {
+    const isDateOnly = date.getUTCHours() === 0
+      && date.getUTCMinutes() === 0
+      && date.getUTCSeconds() === 0
+      && date.getUTCMilliseconds() === 0;
+
+    if (!isDateOnly) {
+      return date;
+    }
+
+    const localDay = new TZDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), calendar.timeZone);
+    const range = this.getDayRange(localDay, calendar);
+
+    return boundary === 'start' ? range.startDate : range.endDate;
+  }
+
+  // Helper method to turn zoned dates back into plain dates for queries and responses
+  private toRange(startDate: Date, endDate: Date): DateRange {
+    return {
+      startDate: new Date(startDate.getTime()),
+      endDate: new Date(endDate.getTime()),
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { ApiQuery } from '@nestjs/swagger';
+import { AmountFormatEnum, FormatAmountsInterceptor } from './format-amounts.interceptor';
+
+// Opt-in `?format=display` for every route of a controller
+export function SupportsDisplayFormat() {
+  return applyDecorators(
+    UseInterceptors(FormatAmountsInterceptor),
+    ApiQuery({
+      name: 'format',
+      required: false,
+      enum: AmountFormatEnum,
+      description: 'Use "display" to add a `formatted` object with amounts rendered using the user\'s currency preferences',
+    }),
+  );
+}
@@ -0,0 +1,33 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { from, Observable, switchMap } from 'rxjs';
+import { MoneyFormatService } from './money-format.service';
+
+export enum AmountFormatEnum {
+  RAW = 'raw',
+  DISPLAY = 'display',
+}
+
+// Adds user-formatted amounts to the response when the request asks for ?format=display
+@Injectable()
+export class FormatAmountsInterceptor implements NestInterceptor {
+  constructor(private moneyFormat: MoneyFormatService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?.id;
+
+    if (request.query?.format !== AmountFormatEnum.DISPLAY || !userId) {
+      return next.handle();
+    }
+
+    return next.handle().pipe(
+      switchMap(data =>
+        from(
+          this.moneyFormat
+            .getPreferences(userId)
+            .then(preferences => this.moneyFormat.addFormattedAmounts(data, preferences)),
+        ),
+      ),
+    );
+  }
+}
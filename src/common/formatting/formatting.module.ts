@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { MoneyFormatService } from './money-format.service';
+
+@Global()
+@Module({
+  providers: [MoneyFormatService],
+  exports: [MoneyFormatService],
+})
+export class FormattingModule {}
@@ -0,0 +1,4 @@
+export * from './formatting.module';
+export * from './money-format.service';
+export * from './format-amounts.interceptor';
+export * from './display-format.decorator';
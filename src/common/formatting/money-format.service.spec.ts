@@ -0,0 +1,132 @@
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RoundingOptionEnum, SymbolPositionEnum } from 'src/settings/dto/update-preferences.dto';
+import { MoneyFormatPreferences, MoneyFormatService } from './money-format.service';
+
+describe('MoneyFormatService', () => {
+  const service = new MoneyFormatService({} as PrismaService);
+
+  const preferences: MoneyFormatPreferences = {
+    currency: 'USD',
+    symbolPosition: SymbolPositionEnum.BEFORE,
+    decimalPlaces: 2,
+    thousandsSeparator: ',',
+    decimalSeparator: '.',
+    hideCents: false,
+    roundToNearest: RoundingOptionEnum.NONE,
+  };
+
+  const format = (amount: number, overrides: Partial<MoneyFormatPreferences> = {}) =>
+    service.formatAmount(amount, { ...preferences, ...overrides });
+
+  describe('formatAmount', () => {
+    it('formats with the default preferences', () => {
+      expect(format(1234567.891)).toBe('$1,234,567.89');
+      expect(format(0)).toBe('$0.00');
+    });
+
+    it('leaves amounts as they are without rounding', () => {
+      expect(format(12.34, { roundToNearest: RoundingOptionEnum.NONE })).toBe('$12.34');
+    });
+
+    it('rounds to the nearest dollar', () => {
+      const options = { roundToNearest: RoundingOptionEnum.NEAREST_DOLLAR };
+
+      expect(format(12.49, options)).toBe('$12.00');
+      expect(format(12.5, options)).toBe('$13.00');
+    });
+
+    it('rounds to the nearest fifty cents', () => {
+      const options = { roundToNearest: RoundingOptionEnum.NEAREST_FIFTY_CENTS };
+
+      expect(format(12.24, options)).toBe('$12.00');
+      expect(format(12.25, options)).toBe('$12.50');
+      expect(format(12.76, options)).toBe('$13.00');
+    });
+
+    it('rounds to the nearest quarter', () => {
+      const options = { roundToNearest: RoundingOptionEnum.NEAREST_QUARTER };
+
+      expect(format(12.12, options)).toBe('$12.00');
+      expect(format(12.13, options)).toBe('$12.25');
+      expect(format(12.63, options)).toBe('$12.75');
+    });
+
+    it('rounds before hiding cents', () => {
+      expect(format(12.74, { roundToNearest: RoundingOptionEnum.NEAREST_QUARTER, hideCents: true })).toBe('$13');
+      expect(format(1234.5, { hideCents: true })).toBe('$1,235');
+    });
+
+    it('puts the sign before the symbol and rounds negative amounts like positive ones', () => {
+      expect(format(-1234.5)).toBe('-$1,234.50');
+      expect(format(-12.5, { roundToNearest: RoundingOptionEnum.NEAREST_DOLLAR })).toBe('-$13.00');
+      expect(format(-12.13, { roundToNearest: RoundingOptionEnum.NEAREST_QUARTER })).toBe('-$12.25');
+      expect(format(-99.5, { symbolPosition: SymbolPositionEnum.AFTER, currency: 'EUR' })).toBe('-99.50 €');
+    });
+
+    it('shows no sign for negative amounts that round to zero', () => {
+      expect(format(-0.004)).toBe('$0.00');
+      expect(format(-0.2, { roundToNearest: RoundingOptionEnum.NEAREST_DOLLAR })).toBe('$0.00');
+    });
+
+    it('keeps the separators apart when they swap their usual roles', () => {
+      const options = { thousandsSeparator: '.', decimalSeparator: ',', symbolPosition: SymbolPositionEnum.AFTER, currency: 'EUR' };
+
+      expect(format(1234567.5, options)).toBe('1.234.567,50 €');
+      expect(format(-1000, options)).toBe('-1.000,00 €');
+    });
+
+    it('groups thousands with spaces, apostrophes or nothing', () => {
+      expect(format(1234567.5, { thousandsSeparator: ' ', decimalSeparator: ',' })).toBe('$1 234 567,50');
+      expect(format(1234567.5, { thousandsSeparator: '\'' })).toBe('$1\'234\'567.50');
+      expect(format(1234567.5, { thousandsSeparator: '' })).toBe('$1234567.50');
+    });
+
+    it('uses the configured number of decimal places', () => {
+      expect(format(1234.5678, { decimalPlaces: 3 })).toBe('$1,234.568');
+      expect(format(1234.5678, { decimalPlaces: 0 })).toBe('$1,235');
+    });
+
+    it('falls back to the currency code without a known symbol', () => {
+      expect(format(5, { currency: 'XYZ' })).toBe('XYZ5.00');
+    });
+  });
+
+  describe('addFormattedAmounts', () => {
+    it('adds formatted amounts next to nested money fields', () => {
+      const date = new Date('2024-05-01T00:00:00.000Z');
+      const result = service.addFormattedAmounts({
+        netWorth: 1500,
+        month: 5,
+        generatedAt: date,
+        accounts: [
+          { name: 'Checking', balance: -20.5, transactions: [{ amount: 12, description: 'Coffee' }] },
+        ],
+        summary: { income: 2000, expense: 500, label: 'May' },
+        empty: null,
+      }, preferences);
+
+      expect(result).toEqual({
+        netWorth: 1500,
+        month: 5,
+        generatedAt: date,
+        accounts: [
+          {
+            name: 'Checking',
+            balance: -20.5,
+            transactions: [{ amount: 12, description: 'Coffee', formatted: { amount: '$12.00' } }],
+            formatted: { balance: '-$20.50' },
+          },
+        ],
+        summary: { income: 2000, expense: 500, label: 'May', formatted: { income: '$2,000.00', expense: '$500.00' } },
+        empty: null,
+        formatted: { netWorth: '$1,500.00' },
+      });
+      expect(result.generatedAt).toBeInstanceOf(Date);
+    });
+
+    it('leaves objects without money fields and non-numeric money fields alone', () => {
+      expect(service.addFormattedAmounts({ name: 'Groceries', amount: '12' }, preferences)).toEqual({ name: 'Groceries', amount: '12' });
+      expect(service.addFormattedAmounts([1, 'a', null], preferences)).toEqual([1, 'a', null]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RoundingOptionEnum, SymbolPositionEnum } from 'src/settings/dto/update-preferences.dto';
+
+export interface MoneyFormatPreferences {
+  currency: string;
+  symbolPosition: string;
+  decimalPlaces: number;
+  thousandsSeparator: string;
+  decimalSeparator: string;
+  hideCents: boolean;
+  roundToNearest: string;
+}
+
+// Response fields that hold money amounts and get a display string in `formatted`
+export const MONEY_FIELDS = [
+  'amount',
+  'balance',
+  'openingBalance',
+  'closingBalance',
+  'runningBalance',
+  'netWorth',
+  'incomeTotal',
+  'expenseTotal',
+  'expensesTotal',
+  'savingsTotal',
+  'remainingAmount',
+  'totalSpentToday',
+  'dailyBudget',
+  'remainingBudget',
+  'currentSpending',
+  'targetBudget',
+  'totalAmount',
+  'averageAmount',
+  'highestAmount',
+  'lowestAmount',
+  'income',
+  'expense',
+  'expenses',
+  'savings',
+  'net',
+  'totalIncome',
+  'totalExpenses',
+  'averageIncome',
+  'averageExpenses',
+  'averageSavings',
+  'currentAmount',
+  'targetAmount',
+  'totalSaved',
+  'totalTarget',
+  'budgetAmount',
+  'actualAmount',
+  'variance',
+  'totalBudget',
+  'totalActual',
+  'totalVariance',
+  'allocatedAmount',
+  'unallocatedAmount',
+];
+
+// Step each rounding option snaps amounts to
+const ROUNDING_STEPS: Record<string, number> = {
+  [RoundingOptionEnum.NEAREST_DOLLAR]: 1,
+  [RoundingOptionEnum.NEAREST_FIFTY_CENTS]: 0.5,
+  [RoundingOptionEnum.NEAREST_QUARTER]: 0.25,
+};
+
+@Injectable()
+export class MoneyFormatService {
+  constructor(private prisma: PrismaService) {}
+
+  // Load the money formatting preferences of a user
+  async getPreferences(userId: string): Promise<MoneyFormatPreferences> {
+    const preferences = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        currency: true,
+        symbolPosition: true,
+        decimalPlaces: true,
+        thousandsSeparator: true,
+        decimalSeparator: true,
+        hideCents: true,
+        roundToNearest: true,
+      },
+    });
+
+    if (!preferences) {
+      throw new NotFoundException('User not found');
+    }
+
+    return preferences;
+  }
+
+  /**
+   * Render an amount exactly as the user configured it
+   * Rounding is applied first, then decimals, grouping and the currency symbol
+   *
+   * @param amount - Raw amount
+   * @param preferences - The user's money formatting preferences
+   * @returns Display string, e.g. "$1,234.50" or "1.234,50 €"
+   */
+  formatAmount(amount: number, preferences: MoneyFormatPreferences): string {
+    const rounded = this.roundAmount(amount, preferences.roundToNearest);
+    const decimals = preferences.hideCents ? 0 : preferences.decimalPlaces;
+
+    const [integerPart, fractionPart] = Math.abs(rounded).toFixed(decimals).split('.');
+    const groupedInteger = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, preferences.thousandsSeparator);
+    const number = fractionPart
+      ? `${groupedInteger}${preferences.decimalSeparator}${fractionPart}`
+      : groupedInteger;
+
+    const symbol = this.getCurrencySymbol(preferences.currency);
+    // Amounts that round to zero are shown without a sign
+    const sign = rounded < 0 && /[1-9]/.test(number) ? '-' : '';
+
+    return preferences.symbolPosition === SymbolPositionEnum.AFTER
+      ? `${sign}${number} ${symbol}`
+      : `${sign}${symbol}${number}`;
+  }
+
+  /**
+   * Add a `formatted` sibling object next to every object holding money fields
+   *
+   * @param data - Response payload (objects, arrays and dates are walked recursively)
+   * @param preferences - The user's money formatting preferences
+   * @returns Copy of the payload with formatted amounts
+   */
+  addFormattedAmounts<T>(data: T, preferences: MoneyFormatPreferences): T {
+    if (Array.isArray(data)) {
+      return data.map(item => this.addFormattedAmounts(item, preferences)) as T;
+    }
+
+    if (!data || typeof data !== 'object' || data instanceof Date) {
+      return data;
+    }
+
+    const result: Record<string, any> = {};
+    const formatted: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      result[key] = this.addFormattedAmounts(value, preferences);
+
+      if (typeof value === 'number' && MONEY_FIELDS.includes(key)) {
+        formatted[key] = this.formatAmount(value, preferences);
+      }
+    }
+
+    if (Object.keys(formatted).length > 0) {
+      result.formatted = formatted;
+    }
+
+    return result as T;
+  }
+
+  // Helper method to apply the configured rounding option
+  private roundAmount(amount: number, roundToNearest: string) {
+    const step = ROUNDING_STEPS[roundToNearest];
+    if (!step) return amount;
+
+    // Halves round away from zero so negative amounts mirror positive ones
+    return Math.sign(amount) * Math.round(Math.abs(amount) / step) * step;
+  }
+
+  // Helper method to resolve the narrow currency symbol, falling back to the code
+  private getCurrencySymbol(currency: string) {
+    try {
+      const parts = new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency,
+        currencyDisplay: 'narrowSymbol',
+      }).formatToParts(0);
+
+      return parts.find(part => part.type === 'currency')?.value || currency;
+    } catch {
+      return currency;
+    }
+  }
+}
@@ -13,11 +13,13 @@ import {
   ClearSingleDataTypeResponseModel 
 } from './models/dashboard.model';
 import { ParseDatePipe } from 'src/transactions/pipes/parse-date.pipe';
+import { SupportsDisplayFormat } from 'src/common/formatting';
 
 @ApiTags('dashboard')
 @ApiBearerAuth('JWT-auth')
 @ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
 @UseGuards(JwtGuard)
+@SupportsDisplayFormat()
 @Controller('dashboard')
 export class DashboardController {
   constructor(private dashboardService: DashboardService) {}
@@ -33,7 +35,7 @@ export class DashboardController {
   @Get('summary')
   @ApiOperation({
     summary: 'Get financial summary',
-    description: 'Retrieves financial summary for the current user',
+    description: 'Retrieves financial summary for the current user, with the balance of each account and the net worth at the end of the period',
   })
   @ApiQuery({
     name: 'fromDate',
@@ -148,7 +150,7 @@ export class DashboardController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Clear all transactions',
-    description: 'Deletes all transactions for the current user. WARNING: This action cannot be undone!',
+    description: 'Moves all transactions of the current user to the trash, they can be restored from /trash until they are purged',
   })
   @ApiOkResponse({
     description: 'All transactions cleared successfully',
@@ -168,7 +170,7 @@ export class DashboardController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Clear all bills',
-    description: 'Deletes all bills and related transactions for the current user. WARNING: This action cannot be undone!',
+    description: 'Moves all bills and related transactions of the current user to the trash, they can be restored from /trash until they are purged',
   })
   @ApiOkResponse({
     description: 'All bills cleared successfully',
@@ -188,7 +190,7 @@ export class DashboardController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Clear all savings goals',
-    description: 'Deletes all savings goals and related plan items for the current user. WARNING: This action cannot be undone!',
+    description: 'Moves all savings goals of the current user to the trash and deletes their plan items. WARNING: Plan items cannot be restored!',
   })
   @ApiOkResponse({
     description: 'All savings goals cleared successfully',
@@ -200,8 +202,8 @@ export class DashboardController {
 
   /**
    * Clear all user financial data
-   * This will delete all transactions, bills, savings goals, budgets, and plan items
-   * WARNING: This action cannot be undone!
+   * Transactions, bills, savings goals and custom categories go to the trash
+   * WARNING: Budgets and plan items are deleted permanently!
    * 
    * @param userId - Current authenticated user ID
    * @returns Summary of cleared data
@@ -210,7 +212,7 @@ export class DashboardController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Clear all user financial data',
-    description: 'Deletes ALL user financial data including transactions, bills, savings goals, budgets, and plan items. WARNING: This action cannot be undone!',
+    description: 'Clears ALL user financial data. Transactions, bills, savings goals and custom categories are moved to the trash; budgets and plan items are deleted. WARNING: Budgets and plan items cannot be restored!',
   })
   @ApiOkResponse({
     description: 'All user data cleared successfully',
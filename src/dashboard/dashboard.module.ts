@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { DashboardController } from './dashboard.controller';
 import { DashboardService } from './dashboard.service';
+import { AccountsModule } from 'src/accounts/accounts.module';
 
 @Module({
+  imports: [AccountsModule],
   controllers: [DashboardController],
   providers: [DashboardService],
   exports: [DashboardService],
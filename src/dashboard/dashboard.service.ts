@@ -1,12 +1,22 @@
 import { Injectable } from '@nestjs/common';
+import { BudgetTimeframe } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { BudgetPeriodEnum } from './dto/dashboard-params.dto';
 import { TransactionTypeEnum } from 'src/transactions/dto/create-transaction.dto';
-import { startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, format } from 'date-fns';
+import { getDaysInMonth } from 'date-fns';
+import { CalendarService } from 'src/common/calendar';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { getCategoryPortions } from 'src/transactions/transaction-splits';
+import { AccountsService } from 'src/accounts/accounts.service';
+import { getCategoryPath, getParentMap } from 'src/categories/category-tree';
 
 @Injectable()
 export class DashboardService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+    private accountsService: AccountsService,
+  ) {}
 
   /**
    * Get financial summary for a user within a date range
@@ -14,17 +24,20 @@ export class DashboardService {
    * @param userId - Current authenticated user ID
    * @param fromDate - Optional start date for the period
    * @param toDate - Optional end date for the period
-   * @returns Financial summary data
+   * @returns Financial summary data with the account balances at the end of the period
    */
   async getFinancialSummary(userId: string, fromDate?: Date, toDate?: Date) {
-    // Set default dates to current month if not provided
+    // Set default dates to current month if not provided, resolved in the user's timezone
     const now = new Date();
-    const startDate = fromDate || startOfMonth(now);
-    const endDate = toDate || endOfMonth(now);
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const currentMonth = this.calendar.getMonthRange(now, userCalendar);
+    const startDate = fromDate ? this.calendar.resolveDateFilter(fromDate, userCalendar, 'start') : currentMonth.startDate;
+    const endDate = toDate ? this.calendar.resolveDateFilter(toDate, userCalendar, 'end') : currentMonth.endDate;
 
     // Build the where clause for transactions
     const whereClause = {
       userId,
+      ...NOT_DELETED,
       date: {
         gte: startDate,
         lte: endDate,
@@ -58,6 +71,19 @@ export class DashboardService {
     // Calculate remaining amount
     const remainingAmount = incomeTotal - expenseTotal - savingsTotal;
 
+    // Account balances as of the end of the period
+    const accounts = await this.accountsService.getAccountBalances(userId, endDate);
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { currency: true },
+    });
+    const currency = user?.currency || 'USD';
+
+    // No exchange rates are stored, so accounts in other currencies are listed but not added up
+    const netWorth = accounts
+      .filter(account => account.currency === currency)
+      .reduce((sum, account) => sum + account.balance, 0);
+
     return {
       incomeTotal,
       expenseTotal,
@@ -65,6 +91,15 @@ export class DashboardService {
       remainingAmount,
       startDate,
       endDate,
+      accounts: accounts.map(account => ({
+        id: account.id,
+        name: account.name,
+        type: account.type,
+        currency: account.currency,
+        balance: account.balance,
+      })),
+      netWorth,
+      netWorthCurrency: currency,
     };
   }
 
@@ -76,13 +111,14 @@ export class DashboardService {
    */
   async getTodaySpending(userId: string) {
     const today = new Date();
-    const startOfToday = startOfDay(today);
-    const endOfToday = endOfDay(today);
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const { startDate: startOfToday, endDate: endOfToday } = this.calendar.getDayRange(today, userCalendar);
 
     // Get today's transactions
     const todayTransactions = await this.prisma.transaction.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
         type: TransactionTypeEnum.EXPENSE,
         date: {
           gte: startOfToday,
@@ -110,7 +146,7 @@ export class DashboardService {
     });
 
     // Calculate daily budget (monthly budget / days in month)
-    const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
+    const daysInMonth = getDaysInMonth(today, { in: this.calendar.getContext(userCalendar) });
     const dailyBudget = monthlyBudget 
       ? monthlyBudget.amount / daysInMonth 
       : 0;
@@ -136,38 +172,42 @@ export class DashboardService {
    */
   async getBudgetProgress(userId: string, period: BudgetPeriodEnum) {
     const now = new Date();
+    const userCalendar = await this.calendar.getUserCalendar(userId);
     let startDate: Date;
     let endDate: Date;
-    let budgetType: string;
+    let budgetType: BudgetTimeframe;
 
     // Set date range and budget type based on period
     if (period === BudgetPeriodEnum.WEEKLY) {
-      startDate = startOfWeek(now, { weekStartsOn: 0 }); // 0 = Sunday
-      endDate = endOfWeek(now, { weekStartsOn: 0 });
+      // Weeks start on the day configured in the user's preferences
+      ({ startDate, endDate } = this.calendar.getWeekRange(now, userCalendar));
       budgetType = 'WEEKLY';
     } else {
-      startDate = startOfMonth(now);
-      endDate = endOfMonth(now);
+      ({ startDate, endDate } = this.calendar.getMonthRange(now, userCalendar));
       budgetType = 'MONTHLY';
     }
 
-    // Get all expenses in the period
+    // Get all expenses in the period with the categories they are attributed to
     const expenses = await this.prisma.transaction.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
         type: TransactionTypeEnum.EXPENSE,
         date: {
           gte: startDate,
           lte: endDate,
         },
       },
+      include: {
+        category: true,
+        splits: { include: { category: true } },
+      },
     });
 
     // Get the budget for the period
     const budget = await this.prisma.budget.findFirst({
       where: {
         userId,
-        // @ts-ignore - Prisma enum types are imported differently in generated code
         type: budgetType,
         startDate: {
           lte: now,
@@ -176,6 +216,12 @@ export class DashboardService {
           gte: now,
         },
       },
+      include: {
+        categoryAllocations: {
+          where: { category: NOT_DELETED },
+          include: { category: true },
+        },
+      },
     });
 
     // Calculate current spending
@@ -191,6 +237,36 @@ export class DashboardService {
     
     const remainingAmount = Math.max(0, targetBudget - currentSpending);
 
+    const parents = getParentMap(await this.prisma.category.findMany({
+      where: { userId },
+      select: { id: true, parentId: true },
+    }));
+
+    // Spending per category, split transactions count towards each category of their split lines
+    // and spending in a subcategory also counts towards its parents
+    const spentByCategory = new Map<string, number>();
+    for (const portion of expenses.flatMap(tx => getCategoryPortions(tx))) {
+      for (const categoryId of getCategoryPath(portion.categoryId, parents)) {
+        spentByCategory.set(categoryId, (spentByCategory.get(categoryId) || 0) + portion.amount);
+      }
+    }
+
+    // Progress of each category allocation of the budget
+    const categories = (budget?.categoryAllocations || []).map(allocation => {
+      const actualAmount = spentByCategory.get(allocation.categoryId) || 0;
+
+      return {
+        id: allocation.categoryId,
+        name: allocation.category.name,
+        color: allocation.category.color,
+        icon: allocation.category.icon,
+        budgetAmount: allocation.amount,
+        actualAmount,
+        remainingAmount: Math.max(0, allocation.amount - actualAmount),
+        percentageUsed: allocation.amount > 0 ? (actualAmount / allocation.amount) * 100 : 0,
+      };
+    });
+
     return {
       currentSpending,
       targetBudget,
@@ -199,6 +275,7 @@ export class DashboardService {
       period,
       startDate,
       endDate,
+      categories,
     };
   }
 
@@ -214,6 +291,7 @@ export class DashboardService {
     const expenses = await this.prisma.transaction.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
         type: TransactionTypeEnum.EXPENSE,
       },
       orderBy: {
@@ -232,13 +310,14 @@ export class DashboardService {
       },
     });
 
-    // Group expenses by day
+    // Group expenses by day in the user's timezone
+    const userCalendar = await this.calendar.getUserCalendar(userId);
     const expensesByDay = expenses.reduce((groups, expense) => {
-      const dateStr = format(expense.date, 'yyyy-MM-dd');
+      const dateStr = this.calendar.formatDate(expense.date, 'yyyy-MM-dd', userCalendar);
       
       if (!groups[dateStr]) {
         groups[dateStr] = {
-          date: startOfDay(expense.date),
+          date: this.calendar.getDayRange(expense.date, userCalendar).startDate,
           expenses: [],
           totalAmount: 0,
         };
@@ -268,14 +347,16 @@ export class DashboardService {
 
   /**
    * Clear only transactions for a user
+   * Cleared transactions are moved to the trash and can be restored until they are purged
    * 
    * @param userId - Current authenticated user ID
    * @returns Summary of cleared transactions
    */
   async clearTransactions(userId: string) {
-    const transactionCount = await this.prisma.transaction.count({ where: { userId } });
-    
-    await this.prisma.transaction.deleteMany({ where: { userId } });
+    const { count: transactionCount } = await this.prisma.transaction.updateMany({
+      where: { userId, ...NOT_DELETED },
+      data: { deletedAt: new Date() },
+    });
     
     return {
       message: 'All transactions cleared successfully',
@@ -287,44 +368,49 @@ export class DashboardService {
 
   /**
    * Clear only bills for a user
+   * Bills and their transactions are moved to the trash, payment history is kept until they are purged
    * 
    * @param userId - Current authenticated user ID
    * @returns Summary of cleared bills
    */
   async clearBills(userId: string) {
     return await this.prisma.$transaction(async (prisma) => {
-      const billCount = await prisma.bill.count({ where: { userId } });
+      const deletedAt = new Date();
       
-      // Delete transactions related to bills first
-      await prisma.transaction.deleteMany({
+      // Trash transactions related to bills first
+      await prisma.transaction.updateMany({
         where: {
           userId,
+          ...NOT_DELETED,
           billId: { not: null }
-        }
+        },
+        data: { deletedAt },
       });
       
-      // Then delete bills
-      await prisma.bill.deleteMany({ where: { userId } });
+      // Then trash bills
+      const { count: billCount } = await prisma.bill.updateMany({
+        where: { userId, ...NOT_DELETED },
+        data: { deletedAt },
+      });
       
       return {
         message: 'All bills and related transactions cleared successfully',
         clearedCount: billCount,
         dataType: 'bills',
-        timestamp: new Date(),
+        timestamp: deletedAt,
       };
     });
   }
 
   /**
    * Clear only savings goals for a user
+   * Goals are moved to the trash, their savings plan items are deleted
    * 
    * @param userId - Current authenticated user ID
    * @returns Summary of cleared goals
    */
   async clearSavingsGoals(userId: string) {
     return await this.prisma.$transaction(async (prisma) => {
-      const goalCount = await prisma.savingsGoal.count({ where: { userId } });
-      
       // Delete related plan items first
       await prisma.planItem.deleteMany({
         where: {
@@ -333,8 +419,11 @@ export class DashboardService {
         }
       });
       
-      // Then delete savings goals
-      await prisma.savingsGoal.deleteMany({ where: { userId } });
+      // Then trash savings goals
+      const { count: goalCount } = await prisma.savingsGoal.updateMany({
+        where: { userId, ...NOT_DELETED },
+        data: { deletedAt: new Date() },
+      });
       
       return {
         message: 'All savings goals and related plan items cleared successfully',
@@ -348,27 +437,54 @@ export class DashboardService {
   /**
    * Clear all user data - transactions, bills, goals, plan items
    * This will reset all financial data for the user
+   * Transactions, bills, goals and user-created categories are moved to the trash;
+   * plan items and budgets are deleted permanently
    * 
    * @param userId - Current authenticated user ID
    * @returns Summary of cleared data
    */
   async clearAllUserData(userId: string) {
     return await this.prisma.$transaction(async (prisma) => {
-      // Count existing data before deletion
-      const [transactionCount, billCount, goalCount, planItemCount, budgetCount, categoryCount] = await Promise.all([
-        prisma.transaction.count({ where: { userId } }),
-        prisma.bill.count({ where: { userId } }),
-        prisma.savingsGoal.count({ where: { userId } }),
+      const deletedAt = new Date();
+
+      // Count plan items and budgets before deletion, trashed rows are counted by updateMany
+      const [planItemCount, budgetCount] = await Promise.all([
         prisma.planItem.count({ where: { userId } }),
         prisma.budget.count({ where: { userId } }),
-        prisma.category.count({ where: { userId, isDefault: false } }), // Only user-created categories
       ]);
 
-      // Delete all user data in the correct order (respecting foreign key constraints)
-      await Promise.all([
-        // Delete transactions (they reference categories and bills)
-        prisma.transaction.deleteMany({ where: { userId } }),
+      const [
+        { count: transactionCount },
+        { count: goalCount },
+        { count: billCount },
+        { count: categoryCount },
+        { count: recurringTransactionCount },
+      ] = await Promise.all([
+        // Trash transactions
+        prisma.transaction.updateMany({ where: { userId, ...NOT_DELETED }, data: { deletedAt } }),
         
+        // Trash savings goals
+        prisma.savingsGoal.updateMany({ where: { userId, ...NOT_DELETED }, data: { deletedAt } }),
+        
+        // Trash bills, their payment history is kept for a restore
+        prisma.bill.updateMany({ where: { userId, ...NOT_DELETED }, data: { deletedAt } }),
+        
+        // Trash user-created categories (keep default ones)
+        prisma.category.updateMany({ 
+          where: { 
+            userId,
+            isDefault: false,
+            ...NOT_DELETED,
+          },
+          data: { deletedAt },
+        }),
+
+        // Pause recurring transactions so they stop generating transactions into trashed categories
+        prisma.recurringTransaction.updateMany({ where: { userId, paused: false }, data: { paused: true } }),
+      ]);
+
+      // Delete plan items, budgets and their category allocations permanently
+      await Promise.all([
         // Delete category allocations (they reference budgets and categories)
         prisma.categoryAllocation.deleteMany({
           where: {
@@ -376,26 +492,12 @@ export class DashboardService {
           }
         }),
         
-        // Delete savings goals
-        prisma.savingsGoal.deleteMany({ where: { userId } }),
-        
         // Delete plan items
         prisma.planItem.deleteMany({ where: { userId } }),
-        
-        // Delete bills
-        prisma.bill.deleteMany({ where: { userId } }),
-        
-        // Delete budgets
-        prisma.budget.deleteMany({ where: { userId } }),
-        
-        // Delete user-created categories (keep default ones)
-        prisma.category.deleteMany({ 
-          where: { 
-            userId,
-            isDefault: false 
-          } 
-        }),
       ]);
+      
+      // Delete budgets
+      await prisma.budget.deleteMany({ where: { userId } });
 
       return {
         message: 'All user data cleared successfully',
@@ -406,8 +508,9 @@ export class DashboardService {
           planItems: planItemCount,
           budgets: budgetCount,
           userCategories: categoryCount,
+          pausedRecurringTransactions: recurringTransactionCount,
         },
-        timestamp: new Date(),
+        timestamp: deletedAt,
       };
     });
   }
@@ -1,6 +1,40 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { AccountTypeEnum } from 'src/accounts/dto/create-account.dto';
 
 // Financial Summary models
+class AccountBalance {
+  @ApiProperty({
+    description: 'Account ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Account name',
+    example: 'Main checking',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Account type',
+    enum: AccountTypeEnum,
+    example: AccountTypeEnum.CHECKING,
+  })
+  type: AccountTypeEnum;
+
+  @ApiProperty({
+    description: 'ISO 4217 currency code of the account',
+    example: 'USD',
+  })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Balance at the end of the period',
+    example: 2830.4,
+  })
+  balance: number;
+}
+
 export class FinancialSummaryModel {
   @ApiProperty({
     description: 'Total income amount',
@@ -37,6 +71,24 @@ export class FinancialSummaryModel {
     example: '2023-05-31T23:59:59Z',
   })
   endDate: Date;
+
+  @ApiProperty({
+    description: 'Balance of each account at the end of the period',
+    type: [AccountBalance],
+  })
+  accounts: AccountBalance[];
+
+  @ApiProperty({
+    description: 'Sum of the balances of the accounts held in the user currency; credit card debt counts negatively',
+    example: 12450.3,
+  })
+  netWorth: number;
+
+  @ApiProperty({
+    description: 'Currency of the net worth, accounts in other currencies are left out of it',
+    example: 'USD',
+  })
+  netWorthCurrency: string;
 }
 
 // Today's Spending models
@@ -73,6 +125,57 @@ export class TodaySpendingModel {
 }
 
 // Budget Progress models
+// Progress of one category allocation of the budget
+class CategoryBudgetProgress {
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Groceries',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Category color',
+    example: '#4CAF50',
+  })
+  color: string;
+
+  @ApiProperty({
+    description: 'Category icon',
+    example: 'shopping-cart',
+  })
+  icon: string;
+
+  @ApiProperty({
+    description: 'Amount allocated to the category',
+    example: 400,
+  })
+  budgetAmount: number;
+
+  @ApiProperty({
+    description: 'Amount spent in the category, counting split lines of split transactions',
+    example: 310.2,
+  })
+  actualAmount: number;
+
+  @ApiProperty({
+    description: 'Amount left in the allocation',
+    example: 89.8,
+  })
+  remainingAmount: number;
+
+  @ApiProperty({
+    description: 'Percentage of the allocation used',
+    example: 77.55,
+  })
+  percentageUsed: number;
+}
+
 export class BudgetProgressModel {
   @ApiProperty({
     description: 'Current spending amount',
@@ -115,6 +218,12 @@ export class BudgetProgressModel {
     example: '2023-05-31T23:59:59Z',
   })
   endDate: Date;
+
+  @ApiProperty({
+    description: 'Progress of each category allocation of the budget',
+    type: [CategoryBudgetProgress],
+  })
+  categories: CategoryBudgetProgress[];
 }
 
 // Category info for expenses
@@ -238,7 +347,8 @@ export class ClearDataResponseModel {
       savingsGoals: 3,
       planItems: 12,
       budgets: 2,
-      userCategories: 5
+      userCategories: 5,
+      pausedRecurringTransactions: 2
     },
   })
   clearedData: {
@@ -248,6 +358,7 @@ export class ClearDataResponseModel {
     planItems: number;
     budgets: number;
     userCategories: number;
+    pausedRecurringTransactions: number;
   };
 
   @ApiProperty({
@@ -0,0 +1,36 @@
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Characters that make spreadsheet tools evaluate a cell as a formula
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Build CSV content from a header and rows of values
+ * Dates are written as ISO strings, text cells are quoted when needed and protected against formula injection
+ *
+ * @param header - Column names
+ * @param rows - Row values in header order
+ * @returns CSV content with CRLF line breaks
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows]
+    .map(row => row.map(formatCell).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+function formatCell(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+
+  const text = FORMULA_PREFIXES.some(prefix => value.startsWith(prefix)) ? `'${value}` : value;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
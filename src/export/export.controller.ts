@@ -0,0 +1,40 @@
+import { Controller, Get, StreamableFile, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOkResponse, ApiOperation, ApiProduces, ApiTags, ApiUnauthorizedResponse } from '@nestjs/swagger';
+import { JwtGuard } from 'src/auth/guard';
+import { GetUser } from 'src/auth/decorator';
+import { ExportService } from './export.service';
+
+@ApiTags('export')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
+@Controller('export')
+export class ExportController {
+  constructor(private exportService: ExportService) {}
+
+  /**
+   * Export all account data
+   * Streams a ZIP archive with account.json and one CSV file per entity
+   * 
+   * @param userId - Current authenticated user ID
+   * @returns ZIP archive download
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Export account data',
+    description: 'Downloads a ZIP archive with the whole account as account.json, plus CSV files for transactions, transaction splits, accounts, categories, category rules, bills, budgets with allocations, savings goals, goal contributions and plan items',
+  })
+  @ApiProduces('application/zip')
+  @ApiOkResponse({
+    description: 'ZIP archive with the account data',
+    schema: { type: 'string', format: 'binary' },
+  })
+  async exportAccountData(@GetUser('id') userId: string) {
+    const { archive, fileName } = await this.exportService.createExportArchive(userId);
+
+    return new StreamableFile(archive, {
+      type: 'application/zip',
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ExportController } from './export.controller';
+import { ExportService } from './export.service';
+
+@Module({
+  controllers: [ExportController],
+  providers: [ExportService],
+  exports: [ExportService],
+})
+export class ExportModule {}
@@ -0,0 +1,309 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import * as archiver from 'archiver';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CalendarService } from 'src/common/calendar';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { toCsv } from './csv.writer';
+
+// Version of the account.json layout, bumped whenever the document changes shape
+export const EXPORT_VERSION = 1;
+
+export type AccountData = Awaited<ReturnType<ExportService['getAccountData']>>;
+
+@Injectable()
+export class ExportService {
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+  ) {}
+
+  // Account fields included in the export; credentials are left out
+  private readonly userSelect = {
+    id: true,
+    email: true,
+    firstName: true,
+    lastName: true,
+    profileImageUrl: true,
+    currency: true,
+    symbolPosition: true,
+    decimalPlaces: true,
+    thousandsSeparator: true,
+    decimalSeparator: true,
+    hideCents: true,
+    roundToNearest: true,
+    weekStartDay: true,
+    timezone: true,
+    theme: true,
+    notifyLowBalance: true,
+    notifyBillsDue: true,
+    notifyGoalReached: true,
+    notifyBudgetExceeded: true,
+    createdAt: true,
+    updatedAt: true,
+  };
+
+  /**
+   * Load all the data of an account as a single document
+   *
+   * @param userId - Current authenticated user ID
+   * @returns Account document, as written to account.json
+   */
+  async getAccountData(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: this.userSelect,
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const [
+      categories,
+      categoryRules,
+      accounts,
+      transactions,
+      recurringTransactions,
+      bills,
+      billPayments,
+      budgets,
+      savingsGoals,
+      planItems,
+    ] = await Promise.all([
+      // Items in the trash are not exported
+      this.prisma.category.findMany({ where: { userId, ...NOT_DELETED }, orderBy: { createdAt: 'asc' } }),
+      this.prisma.categoryRule.findMany({
+        where: { userId, category: NOT_DELETED },
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      }),
+      this.prisma.account.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      this.prisma.transaction.findMany({
+        where: { userId, ...NOT_DELETED },
+        include: { splits: true },
+        orderBy: { date: 'asc' },
+      }),
+      this.prisma.recurringTransaction.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      this.prisma.bill.findMany({ where: { userId, ...NOT_DELETED }, orderBy: { dueDate: 'asc' } }),
+      this.prisma.billPayment.findMany({ where: { userId, bill: NOT_DELETED }, orderBy: { dueDate: 'asc' } }),
+      this.prisma.budget.findMany({
+        where: { userId },
+        include: { categoryAllocations: true },
+        orderBy: { startDate: 'asc' },
+      }),
+      this.prisma.savingsGoal.findMany({
+        where: { userId, ...NOT_DELETED },
+        include: { contributions: { orderBy: { date: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.planItem.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    ]);
+
+    return {
+      version: EXPORT_VERSION,
+      exportedAt: new Date(),
+      user,
+      categories,
+      categoryRules,
+      accounts,
+      transactions,
+      recurringTransactions,
+      bills,
+      billPayments,
+      budgets,
+      savingsGoals,
+      planItems,
+    };
+  }
+
+  /**
+   * Build a ZIP archive with account.json and one CSV file per entity
+   * The archive is returned as a stream and compressed while it is sent
+   *
+   * @param userId - Current authenticated user ID
+   * @returns Archive stream and the file name to download it as
+   */
+  async createExportArchive(userId: string) {
+    const [data, userCalendar] = await Promise.all([
+      this.getAccountData(userId),
+      this.calendar.getUserCalendar(userId),
+    ]);
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    archive.append(JSON.stringify(data, null, 2), { name: 'account.json' });
+
+    for (const [name, content] of Object.entries(this.buildCsvFiles(data))) {
+      archive.append(content, { name });
+    }
+
+    // Finalizing only queues the end of the archive; the data flows once the response reads the stream
+    void archive.finalize();
+
+    return {
+      archive,
+      fileName: `budget-export-${this.calendar.formatDate(data.exportedAt, 'yyyy-MM-dd', userCalendar)}.zip`,
+    };
+  }
+
+  // Helper method to build the CSV file of each entity, keyed by file name
+  private buildCsvFiles(data: AccountData): Record<string, string> {
+    const categoryNames = new Map(data.categories.map(category => [category.id, category.name]));
+    const categoryName = (categoryId: string | null) => (categoryId ? categoryNames.get(categoryId) : null);
+    const accountNames = new Map(data.accounts.map(account => [account.id, account.name]));
+
+    return {
+      'transactions.csv': toCsv(
+        ['id', 'date', 'type', 'amount', 'description', 'notes', 'categoryId', 'category', 'accountId', 'account', 'transferAccountId', 'transferAccount', 'billId', 'recurringTransactionId', 'importBatchId'],
+        data.transactions.map(transaction => [
+          transaction.id,
+          transaction.date,
+          transaction.type,
+          transaction.amount,
+          transaction.description,
+          transaction.notes,
+          transaction.categoryId,
+          categoryName(transaction.categoryId),
+          transaction.accountId,
+          transaction.accountId ? accountNames.get(transaction.accountId) : null,
+          transaction.transferAccountId,
+          transaction.transferAccountId ? accountNames.get(transaction.transferAccountId) : null,
+          transaction.billId,
+          transaction.recurringTransactionId,
+          transaction.importBatchId,
+        ]),
+      ),
+      'transaction-splits.csv': toCsv(
+        ['transactionId', 'categoryId', 'category', 'amount', 'note'],
+        data.transactions.flatMap(transaction =>
+          transaction.splits.map(split => [
+            transaction.id,
+            split.categoryId,
+            categoryName(split.categoryId),
+            split.amount,
+            split.note,
+          ]),
+        ),
+      ),
+      'accounts.csv': toCsv(
+        ['id', 'name', 'type', 'openingBalance', 'currency'],
+        data.accounts.map(account => [
+          account.id,
+          account.name,
+          account.type,
+          account.openingBalance,
+          account.currency,
+        ]),
+      ),
+      'categories.csv': toCsv(
+        ['id', 'name', 'type', 'parentId', 'parent', 'description', 'color', 'icon', 'isDefault'],
+        data.categories.map(category => [
+          category.id,
+          category.name,
+          category.type,
+          category.parentId,
+          categoryName(category.parentId),
+          category.description,
+          category.color,
+          category.icon,
+          category.isDefault,
+        ]),
+      ),
+      'category-rules.csv': toCsv(
+        ['id', 'name', 'priority', 'enabled', 'descriptionPattern', 'matchType', 'minAmount', 'maxAmount', 'type', 'notes', 'categoryId', 'category'],
+        data.categoryRules.map(rule => [
+          rule.id,
+          rule.name,
+          rule.priority,
+          rule.enabled,
+          rule.descriptionPattern,
+          rule.matchType,
+          rule.minAmount,
+          rule.maxAmount,
+          rule.type,
+          rule.notes,
+          rule.categoryId,
+          categoryName(rule.categoryId),
+        ]),
+      ),
+      'bills.csv': toCsv(
+        ['id', 'name', 'amount', 'dueDate', 'frequency', 'autopay', 'notes', 'categoryId', 'category'],
+        data.bills.map(bill => [
+          bill.id,
+          bill.name,
+          bill.amount,
+          bill.dueDate,
+          bill.frequency,
+          bill.autopay,
+          bill.notes,
+          bill.categoryId,
+          categoryName(bill.categoryId),
+        ]),
+      ),
+      // One row per category allocation; budgets without allocations get a single row with empty allocation cells
+      'budgets.csv': toCsv(
+        ['budgetId', 'name', 'type', 'amount', 'startDate', 'endDate', 'description', 'allocationCategoryId', 'allocationCategory', 'allocationAmount'],
+        data.budgets.flatMap(budget => {
+          const budgetCells = [
+            budget.id,
+            budget.name,
+            budget.type,
+            budget.amount,
+            budget.startDate,
+            budget.endDate,
+            budget.description,
+          ];
+
+          if (budget.categoryAllocations.length === 0) {
+            return [[...budgetCells, null, null, null]];
+          }
+
+          return budget.categoryAllocations.map(allocation => [
+            ...budgetCells,
+            allocation.categoryId,
+            categoryName(allocation.categoryId),
+            allocation.amount,
+          ]);
+        }),
+      ),
+      'savings-goals.csv': toCsv(
+        ['id', 'name', 'targetAmount', 'currentAmount', 'targetDate', 'completed', 'notes'],
+        data.savingsGoals.map(goal => [
+          goal.id,
+          goal.name,
+          goal.targetAmount,
+          goal.currentAmount,
+          goal.targetDate,
+          goal.completed,
+          goal.notes,
+        ]),
+      ),
+      'goal-contributions.csv': toCsv(
+        ['goalId', 'goal', 'type', 'amount', 'date', 'note', 'transactionId'],
+        data.savingsGoals.flatMap(goal =>
+          goal.contributions.map(contribution => [
+            goal.id,
+            goal.name,
+            contribution.type,
+            contribution.amount,
+            contribution.date,
+            contribution.note,
+            contribution.transactionId,
+          ]),
+        ),
+      ),
+      'plan-items.csv': toCsv(
+        ['id', 'planType', 'itemType', 'description', 'amount', 'notes', 'categoryId', 'category'],
+        data.planItems.map(item => [
+          item.id,
+          item.planType,
+          item.itemType,
+          item.description,
+          item.amount,
+          item.notes,
+          item.categoryId,
+          categoryName(item.categoryId),
+        ]),
+      ),
+    };
+  }
+}
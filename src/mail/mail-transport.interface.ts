@@ -0,0 +1,13 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Implemented by every mail delivery mechanism (console, file, SMTP provider, ...)
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,40 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import { ConsoleMailTransport, FileMailTransport } from './transports';
+
+const MAIL_TRANSPORT_NAMES = ['console', 'file'];
+
+@Global()
+@Module({
+  providers: [
+    {
+      // Swap this provider to plug in a real delivery service
+      provide: MAIL_TRANSPORT,
+      useFactory: (config: ConfigService): MailTransport => {
+        const transport = config.get<string>('MAIL_TRANSPORT');
+        const isProduction = config.get<string>('NODE_ENV') === 'production';
+
+        // Fail at startup rather than silently picking a transport that may leak reset tokens
+        if (!transport || !MAIL_TRANSPORT_NAMES.includes(transport)) {
+          throw new Error(`MAIL_TRANSPORT must be one of: ${MAIL_TRANSPORT_NAMES.join(', ')}`);
+        }
+
+        if (transport === 'file') {
+          if (isProduction) {
+            throw new Error('The file mail transport is not available in production');
+          }
+          return new FileMailTransport(config.get('MAIL_FILE_DIR') || '.tmp/mail');
+        }
+
+        // Production logs only show who was mailed, never the content with the reset token
+        return new ConsoleMailTransport(!isProduction);
+      },
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
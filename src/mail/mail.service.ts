@@ -0,0 +1,30 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT) private transport: MailTransport,
+    private config: ConfigService,
+  ) {}
+
+  // Send the password reset link (or raw token when no reset URL is configured)
+  async sendPasswordReset(email: string, token: string, expiresAt: Date) {
+    const resetUrl = this.config.get<string>('PASSWORD_RESET_URL');
+    const instructions = resetUrl
+      ? `Reset your password here: ${resetUrl}?token=${encodeURIComponent(token)}&email=${encodeURIComponent(email)}`
+      : `Use this token to reset your password: ${token}`;
+
+    await this.transport.send({
+      to: email,
+      subject: 'Reset your Budget Buddy password',
+      text: [
+        'We received a request to reset the password for your account.',
+        instructions,
+        `This link expires at ${expiresAt.toISOString()} and can only be used once.`,
+        'If you did not request a password reset, you can ignore this email.',
+      ].join('\n\n'),
+    });
+  }
+}
@@ -0,0 +1,16 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+// Development transport that writes outgoing mail to the application log
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  // The body is left out unless asked for, since it carries secrets such as reset tokens
+  constructor(private readonly logBody: boolean = false) {}
+
+  async send(message: MailMessage) {
+    const header = `To: ${message.to}\nSubject: ${message.subject}`;
+
+    this.logger.log(this.logBody ? `${header}\n\n${message.text}` : header);
+  }
+}
@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+// Development transport that stores each outgoing mail as a JSON file
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.directory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+
+    await writeFile(
+      join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+    );
+  }
+}
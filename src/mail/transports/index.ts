@@ -0,0 +1,2 @@
+export * from './console.transport';
+export * from './file.transport';
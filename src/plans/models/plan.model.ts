@@ -56,6 +56,18 @@ export class PlanModel {
   })
   balance: number;
 
+  @ApiProperty({
+    description: 'Start of the current plan period (weeks start on the user\'s configured week start day)',
+    example: '2023-05-15T00:00:00Z',
+  })
+  startDate: Date;
+
+  @ApiProperty({
+    description: 'End of the current plan period',
+    example: '2023-05-21T23:59:59Z',
+  })
+  endDate: Date;
+
   @ApiProperty({
     description: 'Last updated date',
     example: '2023-05-15T14:30:00Z',
@@ -5,6 +5,7 @@ import { UpdatePlanItemDto } from './dto/update-plan-item.dto';
 import { SavePlanDto } from './dto/save-plan.dto';
 import { PlanTypeEnum, PlanItemTypeEnum } from './dto/plan-types.enum';
 import { Prisma } from '@prisma/client';
+import { CalendarService, DateRange } from 'src/common/calendar';
 
 // This interface would typically be in the Prisma client,
 // but we're defining it here to represent plan items in our database
@@ -23,7 +24,10 @@ interface PlanItemWithCategory {
 
 @Injectable()
 export class PlansService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+  ) {}
 
   // Get financial plan by type
   async getPlan(userId: string, planType: PlanTypeEnum) {
@@ -50,6 +54,9 @@ export class PlansService {
     const savingsTotal = this.calculateTotal(savings);
     const balance = incomeTotal - expensesTotal - savingsTotal;
 
+    // Current period the plan applies to
+    const { startDate, endDate } = await this.getPlanPeriod(userId, planType);
+
     return {
       type: planType,
       userId,
@@ -60,6 +67,8 @@ export class PlansService {
       expensesTotal,
       savingsTotal,
       balance,
+      startDate,
+      endDate,
       updatedAt: new Date(),
     };
   }
@@ -142,6 +151,8 @@ export class PlansService {
 
   // Save complete plan
   async savePlan(userId: string, planType: PlanTypeEnum, dto: SavePlanDto) {
+    const { startDate, endDate } = await this.getPlanPeriod(userId, planType);
+
     // Start a transaction to ensure all operations succeed or fail together
     return this.prisma.$transaction(async (tx) => {
       // Delete all existing items for this plan type
@@ -199,6 +210,8 @@ export class PlansService {
         expensesTotal,
         savingsTotal,
         balance,
+        startDate,
+        endDate,
         updatedAt: new Date(),
       };
     });
@@ -221,6 +234,22 @@ export class PlansService {
     return item;
   }
 
+  // Helper method to get the current period of a plan type in the user's timezone and week start day
+  private async getPlanPeriod(userId: string, planType: PlanTypeEnum): Promise<DateRange> {
+    const now = new Date();
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+
+    if (planType === PlanTypeEnum.DAILY) {
+      return this.calendar.getDayRange(now, userCalendar);
+    }
+
+    if (planType === PlanTypeEnum.WEEKLY) {
+      return this.calendar.getWeekRange(now, userCalendar);
+    }
+
+    return this.calendar.getMonthRange(now, userCalendar);
+  }
+
   // Helper method to calculate total amount
   private calculateTotal(items: { amount: number }[]): number {
     return items.reduce((sum, item) => sum + item.amount, 0);
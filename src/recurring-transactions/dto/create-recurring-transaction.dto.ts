@@ -0,0 +1,94 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsEnum, IsIn, IsInt, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionTypeEnum } from 'src/transactions/dto/create-transaction.dto';
+import { BillFrequencyEnum } from 'src/bills/dto/create-bill.dto';
+
+// Recurring series generate income or expenses, they have no accounts to transfer between
+export const RECURRING_TRANSACTION_TYPES = [TransactionTypeEnum.INCOME, TransactionTypeEnum.EXPENSE];
+
+export class CreateRecurringTransactionDto {
+  @ApiProperty({
+    description: 'Amount of each occurrence',
+    example: 3200,
+    minimum: 0.01,
+  })
+  @IsNumber()
+  @IsPositive()
+  @IsNotEmpty()
+  amount: number;
+
+  @ApiProperty({
+    description: 'Transaction type, recurring transfers are not supported',
+    enum: RECURRING_TRANSACTION_TYPES,
+    example: TransactionTypeEnum.INCOME,
+  })
+  @IsIn(RECURRING_TRANSACTION_TYPES)
+  @IsNotEmpty()
+  type: TransactionTypeEnum;
+
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  @IsString()
+  @IsNotEmpty()
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'How often the transaction repeats',
+    enum: BillFrequencyEnum,
+    example: BillFrequencyEnum.MONTHLY,
+  })
+  @IsEnum(BillFrequencyEnum)
+  @IsNotEmpty()
+  frequency: BillFrequencyEnum;
+
+  @ApiProperty({
+    description: 'Date and time of the first occurrence',
+    example: '2023-05-25T09:00:00Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsNotEmpty()
+  startDate: Date;
+
+  @ApiProperty({
+    description: 'No occurrences are generated after this date',
+    example: '2024-05-25T09:00:00Z',
+    required: false,
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  endDate?: Date;
+
+  @ApiProperty({
+    description: 'Maximum number of scheduled occurrences (skipped occurrences count towards it)',
+    example: 12,
+    minimum: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  occurrenceLimit?: number;
+
+  @ApiProperty({
+    description: 'Description copied to each generated transaction',
+    example: 'Monthly salary',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Notes copied to each generated transaction',
+    example: 'Paid on the 25th',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
@@ -0,0 +1,3 @@
+export * from './create-recurring-transaction.dto';
+export * from './update-recurring-transaction.dto';
+export * from './skip-occurrence.dto';
@@ -0,0 +1,16 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SkipOccurrenceDto {
+  @ApiProperty({
+    description: 'Day of the upcoming occurrence to skip',
+    example: '2023-06-25',
+    required: false,
+    default: 'The next occurrence is skipped if not provided',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  date?: Date;
+}
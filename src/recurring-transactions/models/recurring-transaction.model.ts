@@ -0,0 +1,167 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionTypeEnum } from 'src/transactions/dto/create-transaction.dto';
+import { BillFrequencyEnum } from 'src/bills/dto/create-bill.dto';
+
+class CategoryInfo {
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Salary',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Category icon',
+    example: 'briefcase',
+  })
+  icon: string;
+
+  @ApiProperty({
+    description: 'Category color',
+    example: '#4CAF50',
+  })
+  color: string;
+}
+
+export class RecurringTransactionModel {
+  @ApiProperty({
+    description: 'Recurring transaction ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Description copied to each generated transaction',
+    example: 'Monthly salary',
+    nullable: true,
+  })
+  description: string | null;
+
+  @ApiProperty({
+    description: 'Amount of each occurrence',
+    example: 3200,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Transaction type',
+    enum: TransactionTypeEnum,
+    example: TransactionTypeEnum.INCOME,
+  })
+  type: TransactionTypeEnum;
+
+  @ApiProperty({
+    description: 'Notes copied to each generated transaction',
+    example: 'Paid on the 25th',
+    nullable: true,
+  })
+  notes: string | null;
+
+  @ApiProperty({
+    description: 'How often the transaction repeats',
+    enum: BillFrequencyEnum,
+    example: BillFrequencyEnum.MONTHLY,
+  })
+  frequency: BillFrequencyEnum;
+
+  @ApiProperty({
+    description: 'Date and time of the first occurrence',
+    example: '2023-05-25T09:00:00Z',
+  })
+  startDate: Date;
+
+  @ApiProperty({
+    description: 'No occurrences are generated after this date',
+    example: '2024-05-25T09:00:00Z',
+    nullable: true,
+  })
+  endDate: Date | null;
+
+  @ApiProperty({
+    description: 'Maximum number of scheduled occurrences',
+    example: 12,
+    nullable: true,
+  })
+  occurrenceLimit: number | null;
+
+  @ApiProperty({
+    description: 'Number of occurrences already generated or skipped',
+    example: 3,
+  })
+  occurrenceIndex: number;
+
+  @ApiProperty({
+    description: 'Date of the next occurrence, null once the series has ended',
+    example: '2023-08-25T09:00:00Z',
+    nullable: true,
+  })
+  nextOccurrence: Date | null;
+
+  @ApiProperty({
+    description: 'Occurrences that were skipped',
+    example: ['2023-07-25T09:00:00Z'],
+    type: [Date],
+  })
+  skippedDates: Date[];
+
+  @ApiProperty({
+    description: 'Whether the series is paused',
+    example: false,
+  })
+  paused: boolean;
+
+  @ApiProperty({
+    description: 'Whether the series has reached its end date or occurrence limit',
+    example: false,
+  })
+  completed: boolean;
+
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Category information',
+    type: CategoryInfo,
+  })
+  category: CategoryInfo;
+
+  @ApiProperty({
+    description: 'User ID',
+    example: 'cl9ebq7xj000023l29wbg5b2j',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Creation date',
+    example: '2023-05-01T10:00:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update date',
+    example: '2023-05-01T10:00:00Z',
+  })
+  updatedAt: Date;
+}
+
+export class UpcomingOccurrenceModel {
+  @ApiProperty({
+    description: 'Date of the occurrence',
+    example: '2023-06-25T09:00:00Z',
+  })
+  date: Date;
+
+  @ApiProperty({
+    description: 'Whether this occurrence will be skipped',
+    example: false,
+  })
+  skipped: boolean;
+}
@@ -0,0 +1,279 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, ParseIntPipe, Post, Put, Query, UseGuards } from '@nestjs/common';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
+import { JwtGuard } from 'src/auth/guard';
+import { GetUser } from 'src/auth/decorator';
+import { RecurringTransactionsService, MAX_PREVIEW_COUNT } from './recurring-transactions.service';
+import { CreateRecurringTransactionDto, SkipOccurrenceDto, UpdateRecurringTransactionDto } from './dto';
+import { RecurringTransactionModel, UpcomingOccurrenceModel } from './models/recurring-transaction.model';
+
+@ApiTags('recurring-transactions')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
+@Controller('recurring-transactions')
+export class RecurringTransactionsController {
+  constructor(private recurringTransactionsService: RecurringTransactionsService) {}
+
+  /**
+   * Get all recurring transactions for the authenticated user
+   *
+   * @param userId - Current authenticated user ID
+   * @returns Array of recurring transactions
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all recurring transactions',
+    description: 'Retrieves all recurring transaction series for the current user',
+  })
+  @ApiOkResponse({
+    description: 'List of recurring transactions retrieved successfully',
+    type: [RecurringTransactionModel],
+  })
+  getRecurringTransactions(@GetUser('id') userId: string) {
+    return this.recurringTransactionsService.getRecurringTransactions(userId);
+  }
+
+  /**
+   * Get a recurring transaction by ID
+   *
+   * @param userId - Current authenticated user ID
+   * @param seriesId - ID of the recurring transaction to retrieve
+   * @returns The requested recurring transaction
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a recurring transaction by ID',
+    description: 'Retrieves a specific recurring transaction series',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring transaction ID',
+  })
+  @ApiOkResponse({
+    description: 'Recurring transaction retrieved successfully',
+    type: RecurringTransactionModel,
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Recurring transaction with the given ID does not exist' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this recurring transaction' })
+  getRecurringTransactionById(
+    @GetUser('id') userId: string,
+    @Param('id') seriesId: string,
+  ) {
+    return this.recurringTransactionsService.getRecurringTransactionById(userId, seriesId);
+  }
+
+  /**
+   * Preview the upcoming occurrences of a recurring transaction
+   *
+   * @param userId - Current authenticated user ID
+   * @param seriesId - ID of the recurring transaction
+   * @param count - Number of occurrences to return
+   * @returns Upcoming occurrence dates
+   */
+  @Get(':id/upcoming')
+  @ApiOperation({
+    summary: 'Preview upcoming occurrences',
+    description: 'Lists the next occurrences of a series, including the ones marked as skipped',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring transaction ID',
+  })
+  @ApiQuery({
+    name: 'count',
+    required: false,
+    type: Number,
+    description: `Number of occurrences to return (default: 5, max: ${MAX_PREVIEW_COUNT})`,
+  })
+  @ApiOkResponse({
+    description: 'Upcoming occurrences retrieved successfully',
+    type: [UpcomingOccurrenceModel],
+  })
+  @ApiNotFoundResponse({ description: 'Not Found - Recurring transaction with the given ID does not exist' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this recurring transaction' })
+  getUpcomingOccurrences(
+    @GetUser('id') userId: string,
+    @Param('id') seriesId: string,
+    @Query('count', new ParseIntPipe({ optional: true })) count?: number,
+  ) {
+    return this.recurringTransactionsService.getUpcomingOccurrences(userId, seriesId, count || 5);
+  }
+
+  /**
+   * Create a new recurring transaction
+   * Occurrences between the start date and now are generated immediately
+   *
+   * @param userId - Current authenticated user ID
+   * @param dto - Recurring transaction creation data
+   * @returns The created recurring transaction
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create a recurring transaction',
+    description: 'Creates a new series. Occurrences between the start date and now are generated immediately.',
+  })
+  @ApiCreatedResponse({
+    description: 'The recurring transaction has been successfully created',
+    type: RecurringTransactionModel,
+  })
+  @ApiBadRequestResponse({ description: 'End date is before the start date' })
+  @ApiNotFoundResponse({ description: 'Not Found - Category does not exist' })
+  createRecurringTransaction(
+    @GetUser('id') userId: string,
+    @Body() dto: CreateRecurringTransactionDto,
+  ) {
+    return this.recurringTransactionsService.createRecurringTransaction(userId, dto);
+  }
+
+  /**
+   * Update an existing recurring transaction
+   *
+   * @param userId - Current authenticated user ID
+   * @param seriesId - ID of the recurring transaction to update
+   * @param dto - Recurring transaction update data
+   * @returns The updated recurring transaction
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update a recurring transaction',
+    description: 'Updates a series by ID. Already generated transactions are not changed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring transaction ID',
+  })
+  @ApiOkResponse({
+    description: 'The recurring transaction has been successfully updated',
+    type: RecurringTransactionModel,
+  })
+  @ApiBadRequestResponse({ description: 'End date is before the start date' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this recurring transaction' })
+  @ApiNotFoundResponse({ description: 'Not Found - Recurring transaction or category does not exist' })
+  updateRecurringTransaction(
+    @GetUser('id') userId: string,
+    @Param('id') seriesId: string,
+    @Body() dto: UpdateRecurringTransactionDto,
+  ) {
+    return this.recurringTransactionsService.updateRecurringTransaction(userId, seriesId, dto);
+  }
+
+  /**
+   * Skip one upcoming occurrence
+   *
+   * @param userId - Current authenticated user ID
+   * @param seriesId - ID of the recurring transaction
+   * @param dto - Occurrence to skip
+   * @returns The updated recurring transaction
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post(':id/skip')
+  @ApiOperation({
+    summary: 'Skip an occurrence',
+    description: 'Marks one upcoming occurrence (the next one by default) so no transaction is generated for it',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring transaction ID',
+  })
+  @ApiOkResponse({
+    description: 'The occurrence has been skipped',
+    type: RecurringTransactionModel,
+  })
+  @ApiBadRequestResponse({ description: 'Date is not an upcoming occurrence or is already skipped' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this recurring transaction' })
+  @ApiNotFoundResponse({ description: 'Not Found - Recurring transaction with the given ID does not exist' })
+  skipOccurrence(
+    @GetUser('id') userId: string,
+    @Param('id') seriesId: string,
+    @Body() dto: SkipOccurrenceDto,
+  ) {
+    return this.recurringTransactionsService.skipOccurrence(userId, seriesId, dto);
+  }
+
+  /**
+   * Pause a recurring transaction
+   *
+   * @param userId - Current authenticated user ID
+   * @param seriesId - ID of the recurring transaction to pause
+   * @returns The paused recurring transaction
+   */
+  @Put(':id/pause')
+  @ApiOperation({
+    summary: 'Pause a recurring transaction',
+    description: 'Stops generating occurrences until the series is resumed',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring transaction ID',
+  })
+  @ApiOkResponse({
+    description: 'The recurring transaction has been paused',
+    type: RecurringTransactionModel,
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this recurring transaction' })
+  @ApiNotFoundResponse({ description: 'Not Found - Recurring transaction with the given ID does not exist' })
+  pauseRecurringTransaction(
+    @GetUser('id') userId: string,
+    @Param('id') seriesId: string,
+  ) {
+    return this.recurringTransactionsService.pauseRecurringTransaction(userId, seriesId);
+  }
+
+  /**
+   * Resume a paused recurring transaction
+   *
+   * @param userId - Current authenticated user ID
+   * @param seriesId - ID of the recurring transaction to resume
+   * @returns The resumed recurring transaction
+   */
+  @Put(':id/resume')
+  @ApiOperation({
+    summary: 'Resume a recurring transaction',
+    description: 'Resumes a paused series. Occurrences that fell due while paused are not generated.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring transaction ID',
+  })
+  @ApiOkResponse({
+    description: 'The recurring transaction has been resumed',
+    type: RecurringTransactionModel,
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this recurring transaction' })
+  @ApiNotFoundResponse({ description: 'Not Found - Recurring transaction with the given ID does not exist' })
+  resumeRecurringTransaction(
+    @GetUser('id') userId: string,
+    @Param('id') seriesId: string,
+  ) {
+    return this.recurringTransactionsService.resumeRecurringTransaction(userId, seriesId);
+  }
+
+  /**
+   * Delete a recurring transaction
+   *
+   * @param userId - Current authenticated user ID
+   * @param seriesId - ID of the recurring transaction to delete
+   * @returns Success message
+   */
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a recurring transaction',
+    description: 'Deletes a series by ID. Transactions it already generated are kept.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring transaction ID',
+  })
+  @ApiNoContentResponse({
+    description: 'The recurring transaction has been successfully deleted',
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this recurring transaction' })
+  @ApiNotFoundResponse({ description: 'Not Found - Recurring transaction with the given ID does not exist' })
+  deleteRecurringTransaction(
+    @GetUser('id') userId: string,
+    @Param('id') seriesId: string,
+  ) {
+    return this.recurringTransactionsService.deleteRecurringTransaction(userId, seriesId);
+  }
+}
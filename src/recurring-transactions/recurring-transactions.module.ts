@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RecurringTransactionsController } from './recurring-transactions.controller';
+import { RecurringTransactionsService } from './recurring-transactions.service';
+import { RecurringTransactionsScheduler } from './recurring-transactions.scheduler';
+
+@Module({
+  controllers: [RecurringTransactionsController],
+  providers: [RecurringTransactionsService, RecurringTransactionsScheduler],
+  exports: [RecurringTransactionsService],
+})
+export class RecurringTransactionsModule {}
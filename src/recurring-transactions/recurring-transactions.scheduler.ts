@@ -0,0 +1,26 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { RecurringTransactionsService } from './recurring-transactions.service';
+
+@Injectable()
+export class RecurringTransactionsScheduler {
+  private readonly logger = new Logger(RecurringTransactionsScheduler.name);
+
+  constructor(private recurringTransactionsService: RecurringTransactionsService) {}
+
+  // Generate due occurrences every hour; occurrences missed while the server was down are caught up
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleDueOccurrences() {
+    try {
+      const result = await this.recurringTransactionsService.processDueOccurrences();
+
+      if (result.createdTransactions > 0) {
+        this.logger.log(
+          `Generated ${result.createdTransactions} transactions from ${result.processedSeries} recurring series`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to generate recurring transactions', error instanceof Error ? error.stack : error);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { RecurringTransaction } from '@prisma/client';
+import { CalendarService } from 'src/common/calendar';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { BillFrequencyEnum } from 'src/bills/dto/create-bill.dto';
+import { RecurringTransactionsService } from './recurring-transactions.service';
+
+describe('RecurringTransactionsService', () => {
+  const series: RecurringTransaction = {
+    id: 'series-1',
+    userId: 'user-1',
+    amount: 50,
+    type: 'EXPENSE',
+    categoryId: 'category-1',
+    frequency: 'MONTHLY',
+    startDate: new Date('2024-01-15T09:00:00.000Z'),
+    endDate: null,
+    occurrenceLimit: null,
+    description: 'Gym',
+    notes: null,
+    // 15 January, 15 February and 15 March are handled
+    occurrenceIndex: 3,
+    nextOccurrence: new Date('2024-04-15T09:00:00.000Z'),
+    completed: false,
+    paused: false,
+    skippedDates: [],
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-03-15T09:00:00.000Z'),
+  } as RecurringTransaction;
+
+  let prisma: {
+    user: { findUnique: jest.Mock };
+    recurringTransaction: { findUnique: jest.Mock; update: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let service: RecurringTransactionsService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-03-16T12:00:00.000Z') });
+
+    prisma = {
+      user: { findUnique: jest.fn().mockResolvedValue({ weekStartDay: 'MONDAY', timezone: 'UTC' }) },
+      recurringTransaction: {
+        findUnique: jest.fn().mockResolvedValue(series),
+        update: jest.fn(({ data }) => Promise.resolve({ ...series, ...data })),
+      },
+      $transaction: jest.fn(),
+    };
+
+    const calendar = new CalendarService(prisma as unknown as PrismaService);
+    service = new RecurringTransactionsService(prisma as unknown as PrismaService, calendar);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('updateRecurringTransaction', () => {
+    it('continues a series changed from monthly to weekly after the last handled occurrence', async () => {
+      await service.updateRecurringTransaction('user-1', 'series-1', { frequency: BillFrequencyEnum.WEEKLY });
+
+      const { data } = prisma.recurringTransaction.update.mock.calls[0][0];
+
+      // Weekly from 15 January, the first occurrence after 15 March is 18 March, the tenth
+      expect(data.frequency).toBe('WEEKLY');
+      expect(data.occurrenceIndex).toBe(9);
+      expect(data.nextOccurrence).toEqual(new Date('2024-03-18T09:00:00.000Z'));
+      expect(data.completed).toBe(false);
+      // Nothing is due yet, so no occurrence is generated again
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('keeps the occurrence index when the schedule does not change', async () => {
+      await service.updateRecurringTransaction('user-1', 'series-1', { amount: 60 });
+
+      const { data } = prisma.recurringTransaction.update.mock.calls[0][0];
+
+      expect(data.occurrenceIndex).toBe(3);
+      expect(data.nextOccurrence).toEqual(new Date('2024-04-15T09:00:00.000Z'));
+    });
+  });
+});
@@ -0,0 +1,449 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { RecurringTransaction } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CalendarService, UserCalendar } from 'src/common/calendar';
+import { CreateRecurringTransactionDto, SkipOccurrenceDto, UpdateRecurringTransactionDto } from './dto';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+
+// Upper bound of occurrences materialised for one series in a single run
+const MAX_OCCURRENCES_PER_RUN = 366;
+
+// Upper bound of upcoming occurrences returned by a preview
+export const MAX_PREVIEW_COUNT = 50;
+
+@Injectable()
+export class RecurringTransactionsService {
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+  ) {}
+
+  // Category fields returned with each series
+  private readonly categoryInclude = {
+    category: {
+      select: {
+        id: true,
+        name: true,
+        icon: true,
+        color: true,
+      },
+    },
+  };
+
+  // Get all recurring transactions for a user
+  async getRecurringTransactions(userId: string) {
+    return this.prisma.recurringTransaction.findMany({
+      where: { userId },
+      include: this.categoryInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Get a specific recurring transaction by ID
+  async getRecurringTransactionById(userId: string, seriesId: string) {
+    await this.verifyOwnership(userId, seriesId);
+
+    return this.prisma.recurringTransaction.findUnique({
+      where: { id: seriesId },
+      include: this.categoryInclude,
+    });
+  }
+
+  // Create a new recurring transaction and generate occurrences that are already due
+  async createRecurringTransaction(userId: string, dto: CreateRecurringTransactionDto) {
+    await this.verifyCategory(userId, dto.categoryId);
+    this.validateSchedule(dto.startDate, dto.endDate);
+
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const schedule = this.getScheduleState(
+      {
+        startDate: dto.startDate,
+        endDate: dto.endDate ?? null,
+        frequency: dto.frequency,
+        occurrenceLimit: dto.occurrenceLimit ?? null,
+      },
+      0,
+      userCalendar,
+    );
+
+    const series = await this.prisma.recurringTransaction.create({
+      data: {
+        userId,
+        amount: dto.amount,
+        type: dto.type,
+        categoryId: dto.categoryId,
+        frequency: dto.frequency,
+        startDate: dto.startDate,
+        endDate: dto.endDate,
+        occurrenceLimit: dto.occurrenceLimit,
+        description: dto.description,
+        notes: dto.notes,
+        occurrenceIndex: 0,
+        ...schedule,
+      },
+    });
+
+    await this.materializeSeries(series, userCalendar, new Date());
+
+    return this.getRecurringTransactionById(userId, series.id);
+  }
+
+  // Update a recurring transaction; the schedule is recalculated from the occurrences already handled
+  async updateRecurringTransaction(userId: string, seriesId: string, dto: UpdateRecurringTransactionDto) {
+    const series = await this.verifyOwnership(userId, seriesId);
+
+    if (dto.categoryId) {
+      await this.verifyCategory(userId, dto.categoryId);
+    }
+
+    const startDate = dto.startDate || series.startDate;
+    const endDate = dto.endDate !== undefined ? dto.endDate : series.endDate;
+    this.validateSchedule(startDate, endDate);
+
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const updatedSchedule = {
+      startDate,
+      endDate,
+      frequency: dto.frequency || series.frequency,
+      occurrenceLimit: dto.occurrenceLimit !== undefined ? dto.occurrenceLimit : series.occurrenceLimit,
+    };
+
+    // The index counts periods from the start date, so a new start or frequency counts again from the
+    // new start, past the last occurrence already handled so nothing is skipped or generated twice
+    let occurrenceIndex = series.occurrenceIndex;
+    const scheduleChanged = startDate.getTime() !== series.startDate.getTime() || updatedSchedule.frequency !== series.frequency;
+
+    if (scheduleChanged) {
+      const lastHandled = series.occurrenceIndex > 0
+        ? this.calendar.addFrequency(series.startDate, series.frequency, userCalendar, series.occurrenceIndex - 1)
+        : null;
+
+      occurrenceIndex = lastHandled ? this.getIndexAfter(updatedSchedule, 0, userCalendar, lastHandled) : 0;
+    }
+
+    const schedule = this.getScheduleState(updatedSchedule, occurrenceIndex, userCalendar);
+
+    const updatedSeries = await this.prisma.recurringTransaction.update({
+      where: { id: seriesId },
+      data: {
+        ...(dto.amount !== undefined && { amount: dto.amount }),
+        ...(dto.type && { type: dto.type }),
+        ...(dto.categoryId && { categoryId: dto.categoryId }),
+        ...(dto.frequency && { frequency: dto.frequency }),
+        ...(dto.startDate && { startDate: dto.startDate }),
+        ...(dto.endDate !== undefined && { endDate: dto.endDate }),
+        ...(dto.occurrenceLimit !== undefined && { occurrenceLimit: dto.occurrenceLimit }),
+        ...(dto.description !== undefined && { description: dto.description }),
+        ...(dto.notes !== undefined && { notes: dto.notes }),
+        occurrenceIndex,
+        ...schedule,
+      },
+    });
+
+    await this.materializeSeries(updatedSeries, userCalendar, new Date());
+
+    return this.getRecurringTransactionById(userId, seriesId);
+  }
+
+  // Delete a recurring transaction, keeping the transactions it already generated
+  async deleteRecurringTransaction(userId: string, seriesId: string) {
+    await this.verifyOwnership(userId, seriesId);
+
+    await this.prisma.$transaction(async (prisma) => {
+      await prisma.transaction.updateMany({
+        where: { recurringTransactionId: seriesId },
+        data: { recurringTransactionId: null },
+      });
+
+      await prisma.recurringTransaction.delete({
+        where: { id: seriesId },
+      });
+    });
+
+    return { message: 'Recurring transaction deleted successfully' };
+  }
+
+  // Preview the upcoming occurrences of a series
+  async getUpcomingOccurrences(userId: string, seriesId: string, count: number) {
+    const series = await this.verifyOwnership(userId, seriesId);
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+
+    return this.listUpcomingOccurrences(series, userCalendar, Math.min(count, MAX_PREVIEW_COUNT));
+  }
+
+  // Skip one upcoming occurrence so no transaction is generated for it
+  async skipOccurrence(userId: string, seriesId: string, dto: SkipOccurrenceDto) {
+    const series = await this.verifyOwnership(userId, seriesId);
+
+    if (series.completed || !series.nextOccurrence) {
+      throw new BadRequestException('Recurring transaction has no upcoming occurrences');
+    }
+
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    let occurrenceDate = series.nextOccurrence;
+
+    // Match the requested day against the upcoming occurrences in the user's timezone
+    if (dto.date) {
+      const requestedDay = this.calendar.formatDate(
+        this.calendar.resolveDateFilter(dto.date, userCalendar, 'start'),
+        'yyyy-MM-dd',
+        userCalendar,
+      );
+      const upcoming = this.listUpcomingOccurrences(series, userCalendar, MAX_OCCURRENCES_PER_RUN);
+      const match = upcoming.find(
+        occurrence => this.calendar.formatDate(occurrence.date, 'yyyy-MM-dd', userCalendar) === requestedDay,
+      );
+
+      if (!match) {
+        throw new BadRequestException('Date is not an upcoming occurrence of this recurring transaction');
+      }
+
+      occurrenceDate = match.date;
+    }
+
+    if (series.skippedDates.some(date => date.getTime() === occurrenceDate.getTime())) {
+      throw new BadRequestException('Occurrence is already skipped');
+    }
+
+    return this.prisma.recurringTransaction.update({
+      where: { id: seriesId },
+      data: {
+        skippedDates: { push: occurrenceDate },
+      },
+      include: this.categoryInclude,
+    });
+  }
+
+  // Pause a series so no occurrences are generated
+  async pauseRecurringTransaction(userId: string, seriesId: string) {
+    await this.verifyOwnership(userId, seriesId);
+
+    return this.prisma.recurringTransaction.update({
+      where: { id: seriesId },
+      data: { paused: true },
+      include: this.categoryInclude,
+    });
+  }
+
+  // Resume a paused series; occurrences that fell due while paused are not generated
+  async resumeRecurringTransaction(userId: string, seriesId: string) {
+    const series = await this.verifyOwnership(userId, seriesId);
+
+    if (!series.paused) {
+      return this.getRecurringTransactionById(userId, seriesId);
+    }
+
+    const now = new Date();
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+
+    // Move past every occurrence that is already due
+    const occurrenceIndex = this.getIndexAfter(series, series.occurrenceIndex, userCalendar, now);
+    const schedule = this.getScheduleState(series, occurrenceIndex, userCalendar);
+
+    return this.prisma.recurringTransaction.update({
+      where: { id: seriesId },
+      data: {
+        paused: false,
+        occurrenceIndex,
+        ...schedule,
+      },
+      include: this.categoryInclude,
+    });
+  }
+
+  /**
+   * Generate transactions for every occurrence that is due across all users
+   * Safe to run concurrently and repeatedly: each occurrence is claimed once
+   *
+   * @param now - Reference time, occurrences up to it are generated
+   * @returns Number of series processed and transactions created
+   */
+  async processDueOccurrences(now: Date = new Date()) {
+    const dueSeries = await this.prisma.recurringTransaction.findMany({
+      where: {
+        completed: false,
+        paused: false,
+        nextOccurrence: { lte: now },
+        // Series whose category is in the trash wait until it is restored
+        category: NOT_DELETED,
+      },
+    });
+
+    const calendars = new Map<string, UserCalendar>();
+    let createdTransactions = 0;
+
+    for (const series of dueSeries) {
+      if (!calendars.has(series.userId)) {
+        calendars.set(series.userId, await this.calendar.getUserCalendar(series.userId));
+      }
+
+      createdTransactions += await this.materializeSeries(series, calendars.get(series.userId)!, now);
+    }
+
+    return {
+      processedSeries: dueSeries.length,
+      createdTransactions,
+    };
+  }
+
+  // Helper method to generate the due occurrences of one series
+  private async materializeSeries(series: RecurringTransaction, userCalendar: UserCalendar, now: Date) {
+    let current: RecurringTransaction | null = series;
+    let createdTransactions = 0;
+    let handled = 0;
+
+    while (
+      current
+      && !current.completed
+      && !current.paused
+      && current.nextOccurrence
+      && current.nextOccurrence <= now
+      && handled < MAX_OCCURRENCES_PER_RUN
+    ) {
+      const occurrence: RecurringTransaction = current;
+      const occurrenceDate = occurrence.nextOccurrence!;
+      const skipped = occurrence.skippedDates.some(date => date.getTime() === occurrenceDate.getTime());
+      const schedule = this.getScheduleState(occurrence, occurrence.occurrenceIndex + 1, userCalendar);
+
+      current = await this.prisma.$transaction(async (prisma) => {
+        // Claim the occurrence; a concurrent run that already advanced the series makes this a no-op
+        const claimed = await prisma.recurringTransaction.updateMany({
+          where: {
+            id: occurrence.id,
+            occurrenceIndex: occurrence.occurrenceIndex,
+          },
+          data: {
+            occurrenceIndex: occurrence.occurrenceIndex + 1,
+            ...schedule,
+          },
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        if (!skipped) {
+          await prisma.transaction.create({
+            data: {
+              userId: occurrence.userId,
+              amount: occurrence.amount,
+              type: occurrence.type,
+              date: occurrenceDate,
+              description: occurrence.description,
+              notes: occurrence.notes,
+              categoryId: occurrence.categoryId,
+              recurringTransactionId: occurrence.id,
+              occurrenceDate,
+            },
+          });
+        }
+
+        return prisma.recurringTransaction.findUnique({
+          where: { id: occurrence.id },
+        });
+      });
+
+      if (current && !skipped) {
+        createdTransactions++;
+      }
+      handled++;
+    }
+
+    return createdTransactions;
+  }
+
+  // Helper method to list upcoming occurrences from the next one onwards
+  private listUpcomingOccurrences(series: RecurringTransaction, userCalendar: UserCalendar, count: number) {
+    const occurrences: { date: Date; skipped: boolean }[] = [];
+    let occurrenceIndex = series.occurrenceIndex;
+
+    while (occurrences.length < count) {
+      const { nextOccurrence } = this.getScheduleState(series, occurrenceIndex, userCalendar);
+      if (!nextOccurrence) break;
+
+      occurrences.push({
+        date: nextOccurrence,
+        skipped: series.skippedDates.some(date => date.getTime() === nextOccurrence.getTime()),
+      });
+      occurrenceIndex++;
+    }
+
+    return occurrences;
+  }
+
+  // Helper method to move an occurrence index forward to the first occurrence after a date
+  private getIndexAfter(
+    series: Pick<RecurringTransaction, 'startDate' | 'endDate' | 'frequency' | 'occurrenceLimit'>,
+    occurrenceIndex: number,
+    userCalendar: UserCalendar,
+    after: Date,
+  ) {
+    let index = occurrenceIndex;
+    let schedule = this.getScheduleState(series, index, userCalendar);
+
+    while (schedule.nextOccurrence && schedule.nextOccurrence <= after) {
+      index++;
+      schedule = this.getScheduleState(series, index, userCalendar);
+    }
+
+    return index;
+  }
+
+  // Helper method to get the next occurrence for a given number of handled occurrences
+  private getScheduleState(
+    series: Pick<RecurringTransaction, 'startDate' | 'endDate' | 'frequency' | 'occurrenceLimit'>,
+    occurrenceIndex: number,
+    userCalendar: UserCalendar,
+  ) {
+    // Occurrences are counted from the start date so month-end dates do not drift
+    const nextOccurrence = this.calendar.addFrequency(series.startDate, series.frequency, userCalendar, occurrenceIndex);
+
+    const limitReached = series.occurrenceLimit !== null && occurrenceIndex >= series.occurrenceLimit;
+    const endDatePassed = !!series.endDate && nextOccurrence > series.endDate;
+
+    if (limitReached || endDatePassed) {
+      return { nextOccurrence: null, completed: true };
+    }
+
+    return { nextOccurrence, completed: false };
+  }
+
+  // Helper method to make sure the end date does not precede the start date
+  private validateSchedule(startDate: Date, endDate?: Date | null) {
+    if (endDate && new Date(endDate).getTime() < new Date(startDate).getTime()) {
+      throw new BadRequestException('End date must not be before the start date');
+    }
+  }
+
+  // Helper method to verify the category belongs to the user
+  private async verifyCategory(userId: string, categoryId: string) {
+    const category = await this.prisma.category.findFirst({
+      where: {
+        id: categoryId,
+        userId,
+        ...NOT_DELETED,
+      },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Category not found or does not belong to user');
+    }
+  }
+
+  // Helper method to verify ownership
+  private async verifyOwnership(userId: string, seriesId: string) {
+    const series = await this.prisma.recurringTransaction.findUnique({
+      where: { id: seriesId },
+    });
+
+    if (!series) {
+      throw new NotFoundException('Recurring transaction not found');
+    }
+
+    if (series.userId !== userId) {
+      throw new ForbiddenException('Access to resource denied');
+    }
+
+    return series;
+  }
+}
@@ -1,4 +1,5 @@
-import { IsNotEmpty, IsNumber, IsPositive } from 'class-validator';
+import { IsDate, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class AddFundsDto {
@@ -11,4 +12,32 @@ export class AddFundsDto {
   @IsNotEmpty()
   @IsPositive()
   amount: number;
-} 
\ No newline at end of file
+
+  @ApiProperty({
+    description: 'Date the money was set aside, defaults to now',
+    example: '2023-05-28T09:00:00Z',
+    required: false,
+  })
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  date?: Date;
+
+  @ApiProperty({
+    description: 'Note about the contribution',
+    example: 'May bonus',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  note?: string;
+
+  @ApiProperty({
+    description: 'Transaction that moved the money, such as a transfer into the savings account',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  transactionId?: string;
+}
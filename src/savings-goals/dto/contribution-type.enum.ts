@@ -0,0 +1,4 @@
+export enum ContributionTypeEnum {
+  DEPOSIT = 'DEPOSIT',
+  WITHDRAWAL = 'WITHDRAWAL',
+}
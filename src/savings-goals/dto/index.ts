@@ -1,3 +1,4 @@
 export * from './create-savings-goal.dto';
 export * from './update-savings-goal.dto';
-export * from './add-funds.dto'; 
\ No newline at end of file
+export * from './add-funds.dto';
+export * from './withdraw-funds.dto';
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { IsDate, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class WithdrawFundsDto {
+  @ApiProperty({
+    description: 'Amount to take out of the savings goal, at most its current amount',
+    example: 200,
+    minimum: 0.01,
+  })
+  @IsNumber()
+  @IsNotEmpty()
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({
+    description: 'Date the money was taken out, defaults to now',
+    example: '2023-06-02T09:00:00Z',
+    required: false,
+  })
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  date?: Date;
+
+  @ApiProperty({
+    description: 'Note about the withdrawal',
+    example: 'Car repair',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  note?: string;
+
+  @ApiProperty({
+    description: 'Transaction that moved the money, such as a transfer out of the savings account',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  transactionId?: string;
+}
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { ContributionTypeEnum } from '../dto/contribution-type.enum';
 
 export class SavingsGoalModel {
   @ApiProperty({
@@ -83,4 +84,57 @@ export class DeleteGoalResponseModel {
     example: 'Goal deleted successfully',
   })
   message: string;
-} 
\ No newline at end of file
+}
+
+export class GoalContributionModel {
+  @ApiProperty({
+    description: 'Unique identifier',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Savings goal ID',
+    example: 'cl9ebqkxk000098l23xjp7y2a',
+  })
+  goalId: string;
+
+  @ApiProperty({
+    description: 'Whether the money was added to or taken out of the goal',
+    enum: ContributionTypeEnum,
+    example: ContributionTypeEnum.DEPOSIT,
+  })
+  type: ContributionTypeEnum;
+
+  @ApiProperty({
+    description: 'Amount added or taken out, always positive',
+    example: 500,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Date the money was added or taken out',
+    example: '2023-05-28T09:00:00.000Z',
+  })
+  date: Date;
+
+  @ApiProperty({
+    description: 'Note about the contribution',
+    example: 'May bonus',
+    nullable: true,
+  })
+  note: string | null;
+
+  @ApiProperty({
+    description: 'Transaction that moved the money',
+    example: 'cl9ebqkxk000098l23xjp7y3b',
+    nullable: true,
+  })
+  transactionId: string | null;
+
+  @ApiProperty({
+    description: 'Date when the contribution was recorded',
+    example: '2023-05-28T09:00:00.000Z',
+  })
+  createdAt: Date;
+}
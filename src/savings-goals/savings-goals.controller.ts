@@ -1,11 +1,11 @@
 import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Query, UseGuards } from '@nestjs/common';
 import { SavingsGoalsService } from './savings-goals.service';
-import { AddFundsDto, CreateSavingsGoalDto, UpdateSavingsGoalDto } from './dto';
+import { AddFundsDto, CreateSavingsGoalDto, UpdateSavingsGoalDto, WithdrawFundsDto } from './dto';
 import { JwtGuard } from 'src/auth/guard';
 import { GetUser } from 'src/auth/decorator';
 import { ValidateStatusPipe } from './pipes/validate-status.pipe';
-import { ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
-import { DeleteGoalResponseModel, SavingsGoalModel } from './models/savings-goal.model';
+import { ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse, ApiBadRequestResponse } from '@nestjs/swagger';
+import { DeleteGoalResponseModel, GoalContributionModel, SavingsGoalModel } from './models/savings-goal.model';
 
 @ApiTags('goals')
 @ApiBearerAuth('JWT-auth')
@@ -110,7 +110,7 @@ export class SavingsGoalsController {
   @Delete(':id')
   @ApiOperation({
     summary: 'Delete a savings goal',
-    description: 'Deletes a savings goal by ID',
+    description: 'Moves a savings goal to the trash and deletes its savings plan items',
   })
   @ApiParam({
     name: 'id',
@@ -139,7 +139,7 @@ export class SavingsGoalsController {
   @Put(':id/add-funds')
   @ApiOperation({
     summary: 'Add funds to a savings goal',
-    description: 'Adds funds to an existing savings goal, increasing its current amount',
+    description: 'Adds funds to an existing savings goal, recording a deposit and increasing its current amount',
   })
   @ApiParam({
     name: 'id',
@@ -161,6 +161,67 @@ export class SavingsGoalsController {
     return this.goalService.addFunds(userId, goalId, dto);
   }
 
+  /**
+   * Withdraw funds from a savings goal
+   * 
+   * @param userId - Current authenticated user ID
+   * @param goalId - ID of the goal to withdraw funds from
+   * @param dto - Withdrawal data
+   * @returns The updated goal with new amount and progress calculations
+   */
+  @Put(':id/withdraw')
+  @ApiOperation({
+    summary: 'Withdraw funds from a savings goal',
+    description: 'Takes funds out of a savings goal, decreasing its current amount',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Savings goal ID',
+  })
+  @ApiOkResponse({
+    description: 'Funds have been successfully withdrawn from the goal',
+    type: SavingsGoalModel,
+  })
+  @ApiBadRequestResponse({ description: 'Bad Request - Amount is larger than the saved amount' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this goal' })
+  @ApiNotFoundResponse({ description: 'Not Found - Goal or linked transaction does not exist' })
+  withdrawFunds(
+    @GetUser('id') userId: string,
+    @Param('id') goalId: string,
+    @Body() dto: WithdrawFundsDto,
+  ) {
+    return this.goalService.withdrawFunds(userId, goalId, dto);
+  }
+
+  /**
+   * Get the contributions ledger of a savings goal
+   * 
+   * @param userId - Current authenticated user ID
+   * @param goalId - ID of the goal
+   * @returns Deposits and withdrawals, most recent first
+   */
+  @Get(':id/contributions')
+  @ApiOperation({
+    summary: 'Get savings goal contributions',
+    description: 'Retrieves the deposits and withdrawals of a savings goal, most recent first',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Savings goal ID',
+  })
+  @ApiOkResponse({
+    description: 'Contributions retrieved successfully',
+    type: [GoalContributionModel],
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this goal' })
+  @ApiNotFoundResponse({ description: 'Not Found - Goal with the given ID does not exist' })
+  getContributions(
+    @GetUser('id') userId: string,
+    @Param('id') goalId: string,
+  ) {
+    return this.goalService.getContributions(userId, goalId);
+  }
+
   /**
    * Mark a savings goal as completed
    * 
@@ -1,14 +1,21 @@
-import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { ContributionType, Prisma, SavingsGoal } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { AddFundsDto, CreateSavingsGoalDto, UpdateSavingsGoalDto } from './dto';
+import { AddFundsDto, CreateSavingsGoalDto, UpdateSavingsGoalDto, WithdrawFundsDto } from './dto';
+import { CalendarService } from 'src/common/calendar';
+import { subMonths } from 'date-fns';
+import { NOT_DELETED } from 'src/trash/soft-delete';
 
 @Injectable()
 export class SavingsGoalsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+  ) {}
 
   // Get all goals for a user with optional status filter
   async getGoals(userId: string, status?: 'active' | 'completed') {
-    const whereClause: any = { userId };
+    const whereClause: any = { userId, ...NOT_DELETED };
     
     if (status === 'active') {
       whereClause.completed = false;
@@ -42,6 +49,9 @@ export class SavingsGoalsService {
   // Create a new savings goal
   async createGoal(userId: string, dto: CreateSavingsGoalDto) {
     try {
+      // Savings plan items are keyed by the month in the user's timezone
+      const userCalendar = await this.calendar.getUserCalendar(userId);
+
       // Use transaction to ensure both operations succeed or fail together
       const result = await this.prisma.$transaction(async (prisma) => {
         const goal = await prisma.savingsGoal.create({
@@ -56,10 +66,19 @@ export class SavingsGoalsService {
           },
         });
 
-        // If there's an initial current amount, create a plan item
+        // If there's an initial current amount, record it as the first contribution and create a plan item
         if (goal.currentAmount > 0) {
-          const currentDate = new Date();
-          const currentMonthPlan = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
+          await prisma.goalContribution.create({
+            data: {
+              userId,
+              goalId: goal.id,
+              type: ContributionType.DEPOSIT,
+              amount: goal.currentAmount,
+              note: 'Initial savings',
+            },
+          });
+
+          const currentMonthPlan = this.calendar.getMonthKey(new Date(), userCalendar);
           
           await prisma.planItem.create({
             data: {
@@ -161,16 +180,17 @@ export class SavingsGoalsService {
         },
       });
 
-      // Delete the goal
-      await prisma.savingsGoal.delete({
+      // Move the goal to the trash
+      await prisma.savingsGoal.update({
         where: { id: goalId },
+        data: { deletedAt: new Date() },
       });
     });
 
     return { message: 'Goal deleted successfully' };
   }
 
-  // Add funds to a savings goal
+  // Add funds to a savings goal, recorded as a deposit in its contributions ledger
   async addFunds(userId: string, goalId: string, dto: AddFundsDto) {
     // Check if goal exists and belongs to the user
     const goal = await this.verifyOwnership(userId, goalId);
@@ -180,17 +200,36 @@ export class SavingsGoalsService {
       throw new ForbiddenException('Cannot add funds to a completed goal');
     }
 
+    if (dto.transactionId) {
+      await this.verifyTransaction(userId, dto.transactionId);
+    }
+
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+
     // Use transaction to ensure both operations succeed or fail together
     const result = await this.prisma.$transaction(async (prisma) => {
-      // Update the current amount in savings goal
-      const newAmount = goal.currentAmount + dto.amount;
-      const isCompleted = newAmount >= goal.targetAmount;
+      await this.backfillOpeningContribution(prisma, goalId);
+
+      await prisma.goalContribution.create({
+        data: {
+          userId,
+          goalId,
+          type: ContributionType.DEPOSIT,
+          amount: dto.amount,
+          date: dto.date,
+          note: dto.note,
+          transactionId: dto.transactionId,
+        },
+      });
+
+      // Derive the current amount from the ledger
+      const currentAmount = await this.sumContributions(prisma, goalId);
 
       const updatedGoal = await prisma.savingsGoal.update({
         where: { id: goalId },
         data: {
-          currentAmount: newAmount,
-          completed: isCompleted,
+          currentAmount,
+          completed: currentAmount >= goal.targetAmount,
         },
       });
 
@@ -198,8 +237,7 @@ export class SavingsGoalsService {
       const planItemDescription = `Savings: ${goal.name}`;
       
       // Check if there's already a savings plan item for current month
-      const currentDate = new Date();
-      const currentMonthPlan = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
+      const currentMonthPlan = this.calendar.getMonthKey(new Date(), userCalendar);
       
       const existingSavingsItem = await prisma.planItem.findFirst({
         where: {
@@ -216,7 +254,6 @@ export class SavingsGoalsService {
           where: { id: existingSavingsItem.id },
           data: {
             amount: existingSavingsItem.amount + dto.amount,
-            notes: `${existingSavingsItem.notes || ''}\nAdded $${dto.amount} on ${new Date().toISOString().split('T')[0]}`,
             updatedAt: new Date(),
           },
         });
@@ -237,19 +274,82 @@ export class SavingsGoalsService {
       return updatedGoal;
     });
 
-    const progressPercentage = result.targetAmount > 0 
-      ? Math.min(100, (result.currentAmount / result.targetAmount) * 100) 
-      : 0;
-    
-    const daysRemaining = result.targetDate 
-      ? Math.max(0, Math.ceil((new Date(result.targetDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))) 
-      : null;
+    return this.withProgress(result);
+  }
 
-    return {
-      ...result,
-      progressPercentage,
-      daysRemaining,
-    };
+  // Take funds out of a savings goal, recorded as a withdrawal in its contributions ledger
+  async withdrawFunds(userId: string, goalId: string, dto: WithdrawFundsDto) {
+    // Check if goal exists and belongs to the user
+    const goal = await this.verifyOwnership(userId, goalId);
+
+    if (dto.transactionId) {
+      await this.verifyTransaction(userId, dto.transactionId);
+    }
+
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+
+    const result = await this.prisma.$transaction(async (prisma) => {
+      await this.backfillOpeningContribution(prisma, goalId);
+
+      const savedAmount = await this.sumContributions(prisma, goalId);
+
+      // Compare in cents to avoid floating point noise
+      if (Math.round(dto.amount * 100) > Math.round(savedAmount * 100)) {
+        throw new BadRequestException(`Cannot withdraw more than the saved amount (${savedAmount})`);
+      }
+
+      await prisma.goalContribution.create({
+        data: {
+          userId,
+          goalId,
+          type: ContributionType.WITHDRAWAL,
+          amount: dto.amount,
+          date: dto.date,
+          note: dto.note,
+          transactionId: dto.transactionId,
+        },
+      });
+
+      // Completed goals stay completed, the money is usually taken out to pay for what it was saved for
+      const updatedGoal = await prisma.savingsGoal.update({
+        where: { id: goalId },
+        data: { currentAmount: await this.sumContributions(prisma, goalId) },
+      });
+
+      // Take the amount off this month's savings plan item so the dashboard total follows
+      const currentMonthPlan = this.calendar.getMonthKey(new Date(), userCalendar);
+
+      const existingSavingsItem = await prisma.planItem.findFirst({
+        where: {
+          userId,
+          itemType: 'SAVINGS',
+          planType: currentMonthPlan,
+          description: { contains: goal.name },
+        },
+      });
+
+      if (existingSavingsItem) {
+        await prisma.planItem.update({
+          where: { id: existingSavingsItem.id },
+          data: { amount: Math.max(0, existingSavingsItem.amount - dto.amount) },
+        });
+      }
+
+      return updatedGoal;
+    });
+
+    return this.withProgress(result);
+  }
+
+  // Get the deposits and withdrawals of a goal, most recent first
+  async getContributions(userId: string, goalId: string) {
+    // Check if goal exists and belongs to the user
+    await this.verifyOwnership(userId, goalId);
+
+    return this.prisma.goalContribution.findMany({
+      where: { goalId },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
   }
 
   // Mark a goal as completed
@@ -281,15 +381,16 @@ export class SavingsGoalsService {
 
   // Sync savings goals with dashboard plan items (repair inconsistencies)
   async syncGoalsWithDashboard(userId: string) {
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+
     return await this.prisma.$transaction(async (prisma) => {
       // Get all savings goals
       const savingsGoals = await prisma.savingsGoal.findMany({
-        where: { userId },
+        where: { userId, ...NOT_DELETED },
       });
 
       // Get current month plan
-      const currentDate = new Date();
-      const currentMonthPlan = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
+      const currentMonthPlan = this.calendar.getMonthKey(new Date(), userCalendar);
 
       // Delete all existing savings plan items for current month to start fresh
       await prisma.planItem.deleteMany({
@@ -336,12 +437,12 @@ export class SavingsGoalsService {
 
   // Get savings analytics - compare actual vs planned savings
   async getSavingsAnalytics(userId: string, period?: string) {
-    const currentDate = new Date();
-    const currentMonthPlan = period || `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const currentMonthPlan = period || this.calendar.getMonthKey(new Date(), userCalendar);
 
     // Get total from all savings goals (actual savings)
     const savingsGoals = await this.prisma.savingsGoal.findMany({
-      where: { userId },
+      where: { userId, ...NOT_DELETED },
     });
 
     const totalActualSavings = savingsGoals.reduce((sum, goal) => sum + goal.currentAmount, 0);
@@ -400,48 +501,70 @@ export class SavingsGoalsService {
     };
   }
 
-  // Get historical savings data across multiple months
+  // Get historical savings data across multiple months from the contributions ledger
   async getSavingsHistory(userId: string, months?: number) {
     const monthsToRetrieve = months || 6; // Default 6 months
     const currentDate = new Date();
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const context = this.calendar.getContext(userCalendar);
     
-    // Generate list of months to check
+    // Generate list of months to check, in the user's timezone
     const monthsList: any[] = [];
     for (let i = 0; i < monthsToRetrieve; i++) {
-      const date = new Date(currentDate.getFullYear(), currentDate.getMonth() - i, 1);
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      const date = subMonths(currentDate, i, { in: context });
+      const monthKey = this.calendar.getMonthKey(date, userCalendar);
       monthsList.push({
         key: monthKey,
         year: date.getFullYear(),
         month: date.getMonth() + 1,
-        monthName: date.toLocaleString('default', { month: 'long', year: 'numeric' }),
+        monthName: this.calendar.formatDate(date, 'MMMM yyyy', userCalendar),
       });
     }
 
+    // Contributions of the whole range, grouped by month below
+    const rangeStart = this.calendar.getMonthRange(
+      subMonths(currentDate, monthsToRetrieve - 1, { in: context }),
+      userCalendar,
+    ).startDate;
+
+    const contributions = await this.prisma.goalContribution.findMany({
+      where: {
+        userId,
+        goal: NOT_DELETED,
+        date: { gte: rangeStart },
+      },
+      include: { goal: { select: { name: true } } },
+      orderBy: { date: 'asc' },
+    });
+
     // Get savings data for each month
     const historyData: any[] = [];
     for (const monthData of monthsList) {
-      const plannedSavings = await this.prisma.planItem.findMany({
-        where: {
-          userId,
-          itemType: 'SAVINGS',
-          planType: monthData.key,
-        },
-      });
-
-      const totalSaved = plannedSavings.reduce((sum, item) => sum + item.amount, 0);
+      const monthContributions = contributions.filter(contribution =>
+        this.calendar.getMonthKey(contribution.date, userCalendar) === monthData.key);
+
+      const totalDeposited = monthContributions
+        .filter(contribution => contribution.type === ContributionType.DEPOSIT)
+        .reduce((sum, contribution) => sum + contribution.amount, 0);
+      const totalWithdrawn = monthContributions
+        .filter(contribution => contribution.type === ContributionType.WITHDRAWAL)
+        .reduce((sum, contribution) => sum + contribution.amount, 0);
       
       historyData.push({
         period: monthData.key,
         periodName: monthData.monthName,
-        totalSaved,
-        itemsCount: plannedSavings.length,
-        items: plannedSavings.map(item => ({
-          id: item.id,
-          description: item.description,
-          amount: item.amount,
-          notes: item.notes,
-          createdAt: item.createdAt,
+        totalSaved: totalDeposited - totalWithdrawn,
+        totalDeposited,
+        totalWithdrawn,
+        itemsCount: monthContributions.length,
+        items: monthContributions.map(contribution => ({
+          id: contribution.id,
+          goalId: contribution.goalId,
+          goalName: contribution.goal.name,
+          type: contribution.type,
+          amount: contribution.amount,
+          note: contribution.note,
+          date: contribution.date,
         })),
       });
     }
@@ -471,7 +594,7 @@ export class SavingsGoalsService {
   // Helper method to verify ownership
   private async verifyOwnership(userId: string, goalId: string) {
     const goal = await this.prisma.savingsGoal.findUnique({
-      where: { id: goalId },
+      where: { id: goalId, ...NOT_DELETED },
     });
 
     if (!goal) {
@@ -484,4 +607,81 @@ export class SavingsGoalsService {
 
     return goal;
   }
-} 
\ No newline at end of file
+
+  // Helper method to make sure a linked transaction exists and belongs to the user
+  private async verifyTransaction(userId: string, transactionId: string) {
+    const transaction = await this.prisma.transaction.findFirst({
+      where: {
+        id: transactionId,
+        userId,
+        ...NOT_DELETED,
+      },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException('Transaction not found or does not belong to user');
+    }
+  }
+
+  // Helper method to sum the deposits minus the withdrawals of a goal
+  private async sumContributions(prisma: Prisma.TransactionClient, goalId: string) {
+    const groups = await prisma.goalContribution.groupBy({
+      by: ['type'],
+      where: { goalId },
+      _sum: { amount: true },
+    });
+
+    const sumOf = (type: ContributionType) => groups.find(group => group.type === type)?._sum.amount || 0;
+
+    return sumOf(ContributionType.DEPOSIT) - sumOf(ContributionType.WITHDRAWAL);
+  }
+
+  // Helper method to record the current amount of a goal saved before the contributions ledger existed,
+  // for goals the backfill:goal-contributions script has not reached; only called inside write transactions
+  private async backfillOpeningContribution(prisma: Prisma.TransactionClient, goalId: string) {
+    const goal = await prisma.savingsGoal.findFirst({
+      where: {
+        id: goalId,
+        currentAmount: { gt: 0 },
+        contributions: { none: {} },
+      },
+    });
+
+    if (!goal) return;
+
+    // Writing the goal first makes a concurrent backfill of the same goal fail with a write conflict,
+    // so at most one opening balance is committed
+    await prisma.savingsGoal.update({
+      where: { id: goalId },
+      data: { updatedAt: new Date() },
+    });
+
+    await prisma.goalContribution.create({
+      data: {
+        userId: goal.userId,
+        goalId: goal.id,
+        type: ContributionType.DEPOSIT,
+        amount: goal.currentAmount,
+        date: goal.createdAt,
+        note: 'Opening balance',
+      },
+    });
+  }
+
+  // Helper method to add the progress percentage and days remaining to a goal
+  private withProgress(goal: SavingsGoal) {
+    const progressPercentage = goal.targetAmount > 0 
+      ? Math.min(100, (goal.currentAmount / goal.targetAmount) * 100) 
+      : 0;
+    
+    const daysRemaining = goal.targetDate 
+      ? Math.max(0, Math.ceil((new Date(goal.targetDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))) 
+      : null;
+
+    return {
+      ...goal,
+      progressPercentage,
+      daysRemaining,
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export * from './update-preferences.dto';
+export * from './update-notifications.dto';
@@ -0,0 +1,40 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateNotificationsDto {
+  @ApiProperty({
+    description: 'Notify when an account balance is low',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  notifyLowBalance?: boolean;
+
+  @ApiProperty({
+    description: 'Notify when bills are due',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  notifyBillsDue?: boolean;
+
+  @ApiProperty({
+    description: 'Notify when a savings goal is reached',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  notifyGoalReached?: boolean;
+
+  @ApiProperty({
+    description: 'Notify when a budget is exceeded',
+    example: false,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  notifyBudgetExceeded?: boolean;
+}
@@ -0,0 +1,134 @@
+import { IsBoolean, IsEnum, IsIn, IsInt, IsISO4217CurrencyCode, IsOptional, IsTimeZone, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum SymbolPositionEnum {
+  BEFORE = 'BEFORE',
+  AFTER = 'AFTER',
+}
+
+export enum RoundingOptionEnum {
+  NONE = 'NONE',
+  NEAREST_DOLLAR = 'NEAREST_DOLLAR',
+  NEAREST_FIFTY_CENTS = 'NEAREST_FIFTY_CENTS',
+  NEAREST_QUARTER = 'NEAREST_QUARTER',
+}
+
+export enum WeekDayEnum {
+  SUNDAY = 'SUNDAY',
+  MONDAY = 'MONDAY',
+  TUESDAY = 'TUESDAY',
+  WEDNESDAY = 'WEDNESDAY',
+  THURSDAY = 'THURSDAY',
+  FRIDAY = 'FRIDAY',
+  SATURDAY = 'SATURDAY',
+}
+
+export enum ThemeEnum {
+  LIGHT = 'LIGHT',
+  DARK = 'DARK',
+}
+
+export const DECIMAL_SEPARATORS = ['.', ','];
+export const THOUSANDS_SEPARATORS = [',', '.', ' ', "'", ''];
+
+export class UpdatePreferencesDto {
+  @ApiProperty({
+    description: 'ISO 4217 currency code',
+    example: 'EUR',
+    required: false,
+  })
+  @IsISO4217CurrencyCode()
+  @IsOptional()
+  currency?: string;
+
+  @ApiProperty({
+    description: 'Position of the currency symbol relative to the amount',
+    enum: SymbolPositionEnum,
+    example: SymbolPositionEnum.AFTER,
+    required: false,
+  })
+  @IsEnum(SymbolPositionEnum)
+  @IsOptional()
+  symbolPosition?: SymbolPositionEnum;
+
+  @ApiProperty({
+    description: 'Number of decimal places to display',
+    example: 2,
+    minimum: 0,
+    maximum: 4,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(4)
+  @IsOptional()
+  decimalPlaces?: number;
+
+  @ApiProperty({
+    description: 'Thousands separator (empty string for none)',
+    enum: THOUSANDS_SEPARATORS,
+    example: '.',
+    required: false,
+  })
+  @IsIn(THOUSANDS_SEPARATORS)
+  @IsOptional()
+  thousandsSeparator?: string;
+
+  @ApiProperty({
+    description: 'Decimal separator (must differ from the thousands separator)',
+    enum: DECIMAL_SEPARATORS,
+    example: ',',
+    required: false,
+  })
+  @IsIn(DECIMAL_SEPARATORS)
+  @IsOptional()
+  decimalSeparator?: string;
+
+  @ApiProperty({
+    description: 'Hide the fractional part of amounts',
+    example: false,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  hideCents?: boolean;
+
+  @ApiProperty({
+    description: 'Rounding applied to displayed amounts',
+    enum: RoundingOptionEnum,
+    example: RoundingOptionEnum.NONE,
+    required: false,
+  })
+  @IsEnum(RoundingOptionEnum)
+  @IsOptional()
+  roundToNearest?: RoundingOptionEnum;
+
+  @ApiProperty({
+    description: 'First day of the week',
+    enum: WeekDayEnum,
+    example: WeekDayEnum.MONDAY,
+    required: false,
+  })
+  @IsEnum(WeekDayEnum)
+  @IsOptional()
+  weekStartDay?: WeekDayEnum;
+
+  @ApiProperty({
+    description: 'IANA timezone used for days, weeks, months and bill due dates',
+    example: 'Europe/Berlin',
+    required: false,
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiProperty({
+    description: 'UI theme',
+    enum: ThemeEnum,
+    example: ThemeEnum.DARK,
+    required: false,
+  })
+  @IsEnum(ThemeEnum)
+  @IsOptional()
+  theme?: ThemeEnum;
+}
@@ -0,0 +1,108 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RoundingOptionEnum, SymbolPositionEnum, ThemeEnum, WeekDayEnum } from '../dto/update-preferences.dto';
+
+export class PreferencesModel {
+  @ApiProperty({
+    description: 'ISO 4217 currency code',
+    example: 'USD',
+  })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Position of the currency symbol relative to the amount',
+    enum: SymbolPositionEnum,
+    example: SymbolPositionEnum.BEFORE,
+  })
+  symbolPosition: SymbolPositionEnum;
+
+  @ApiProperty({
+    description: 'Number of decimal places to display',
+    example: 2,
+  })
+  decimalPlaces: number;
+
+  @ApiProperty({
+    description: 'Thousands separator',
+    example: ',',
+  })
+  thousandsSeparator: string;
+
+  @ApiProperty({
+    description: 'Decimal separator',
+    example: '.',
+  })
+  decimalSeparator: string;
+
+  @ApiProperty({
+    description: 'Hide the fractional part of amounts',
+    example: false,
+  })
+  hideCents: boolean;
+
+  @ApiProperty({
+    description: 'Rounding applied to displayed amounts',
+    enum: RoundingOptionEnum,
+    example: RoundingOptionEnum.NONE,
+  })
+  roundToNearest: RoundingOptionEnum;
+
+  @ApiProperty({
+    description: 'First day of the week',
+    enum: WeekDayEnum,
+    example: WeekDayEnum.SUNDAY,
+  })
+  weekStartDay: WeekDayEnum;
+
+  @ApiProperty({
+    description: 'IANA timezone used for days, weeks, months and bill due dates',
+    example: 'UTC',
+  })
+  timezone: string;
+
+  @ApiProperty({
+    description: 'UI theme',
+    enum: ThemeEnum,
+    example: ThemeEnum.LIGHT,
+  })
+  theme: ThemeEnum;
+}
+
+export class NotificationPreferencesModel {
+  @ApiProperty({
+    description: 'Notify when an account balance is low',
+    example: true,
+  })
+  notifyLowBalance: boolean;
+
+  @ApiProperty({
+    description: 'Notify when bills are due',
+    example: true,
+  })
+  notifyBillsDue: boolean;
+
+  @ApiProperty({
+    description: 'Notify when a savings goal is reached',
+    example: true,
+  })
+  notifyGoalReached: boolean;
+
+  @ApiProperty({
+    description: 'Notify when a budget is exceeded',
+    example: true,
+  })
+  notifyBudgetExceeded: boolean;
+}
+
+export class SettingsModel {
+  @ApiProperty({
+    description: 'Formatting and display preferences',
+    type: PreferencesModel,
+  })
+  preferences: PreferencesModel;
+
+  @ApiProperty({
+    description: 'Notification preferences',
+    type: NotificationPreferencesModel,
+  })
+  notifications: NotificationPreferencesModel;
+}
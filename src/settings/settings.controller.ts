@@ -0,0 +1,120 @@
+import { Body, Controller, Get, Patch, UseGuards } from '@nestjs/common';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiOkResponse, ApiOperation, ApiTags, ApiUnauthorizedResponse } from '@nestjs/swagger';
+import { JwtGuard } from 'src/auth/guard';
+import { GetUser } from 'src/auth/decorator';
+import { SettingsService } from './settings.service';
+import { UpdateNotificationsDto, UpdatePreferencesDto } from './dto';
+import { NotificationPreferencesModel, PreferencesModel, SettingsModel } from './models/settings.model';
+
+@ApiTags('settings')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
+@Controller('settings')
+export class SettingsController {
+  constructor(private settingsService: SettingsService) {}
+
+  /**
+   * Get all settings
+   *
+   * @param userId - Current authenticated user ID
+   * @returns Formatting and notification preferences
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all settings',
+    description: 'Retrieves formatting, display and notification preferences for the current user',
+  })
+  @ApiOkResponse({
+    description: 'Settings retrieved successfully',
+    type: SettingsModel,
+  })
+  getSettings(@GetUser('id') userId: string) {
+    return this.settingsService.getSettings(userId);
+  }
+
+  /**
+   * Get formatting and display preferences
+   *
+   * @param userId - Current authenticated user ID
+   * @returns Formatting and display preferences
+   */
+  @Get('preferences')
+  @ApiOperation({
+    summary: 'Get preferences',
+    description: 'Retrieves currency, number formatting, week start and theme preferences',
+  })
+  @ApiOkResponse({
+    description: 'Preferences retrieved successfully',
+    type: PreferencesModel,
+  })
+  getPreferences(@GetUser('id') userId: string) {
+    return this.settingsService.getPreferences(userId);
+  }
+
+  /**
+   * Update formatting and display preferences
+   *
+   * @param userId - Current authenticated user ID
+   * @param dto - Preferences to update
+   * @returns The updated preferences
+   */
+  @Patch('preferences')
+  @ApiOperation({
+    summary: 'Update preferences',
+    description: 'Updates currency, number formatting, week start and theme preferences',
+  })
+  @ApiOkResponse({
+    description: 'Preferences updated successfully',
+    type: PreferencesModel,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid preference value or identical decimal and thousands separators' })
+  updatePreferences(
+    @GetUser('id') userId: string,
+    @Body() dto: UpdatePreferencesDto,
+  ) {
+    return this.settingsService.updatePreferences(userId, dto);
+  }
+
+  /**
+   * Get notification preferences
+   *
+   * @param userId - Current authenticated user ID
+   * @returns Notification preferences
+   */
+  @Get('notifications')
+  @ApiOperation({
+    summary: 'Get notification preferences',
+    description: 'Retrieves which notifications the current user receives',
+  })
+  @ApiOkResponse({
+    description: 'Notification preferences retrieved successfully',
+    type: NotificationPreferencesModel,
+  })
+  getNotificationPreferences(@GetUser('id') userId: string) {
+    return this.settingsService.getNotificationPreferences(userId);
+  }
+
+  /**
+   * Update notification preferences
+   *
+   * @param userId - Current authenticated user ID
+   * @param dto - Notification flags to update
+   * @returns The updated notification preferences
+   */
+  @Patch('notifications')
+  @ApiOperation({
+    summary: 'Update notification preferences',
+    description: 'Turns individual notifications on or off for the current user',
+  })
+  @ApiOkResponse({
+    description: 'Notification preferences updated successfully',
+    type: NotificationPreferencesModel,
+  })
+  updateNotificationPreferences(
+    @GetUser('id') userId: string,
+    @Body() dto: UpdateNotificationsDto,
+  ) {
+    return this.settingsService.updateNotificationPreferences(userId, dto);
+  }
+}
@@ -0,0 +1,112 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { UpdateNotificationsDto, UpdatePreferencesDto } from './dto';
+
+@Injectable()
+export class SettingsService {
+  constructor(private prisma: PrismaService) {}
+
+  // User fields exposed as formatting and display preferences
+  private readonly preferencesSelect = {
+    currency: true,
+    symbolPosition: true,
+    decimalPlaces: true,
+    thousandsSeparator: true,
+    decimalSeparator: true,
+    hideCents: true,
+    roundToNearest: true,
+    weekStartDay: true,
+    timezone: true,
+    theme: true,
+  };
+
+  // User fields exposed as notification preferences
+  private readonly notificationsSelect = {
+    notifyLowBalance: true,
+    notifyBillsDue: true,
+    notifyGoalReached: true,
+    notifyBudgetExceeded: true,
+  };
+
+  // Get all settings for a user
+  async getSettings(userId: string) {
+    const [preferences, notifications] = await Promise.all([
+      this.getPreferences(userId),
+      this.getNotificationPreferences(userId),
+    ]);
+
+    return { preferences, notifications };
+  }
+
+  // Get formatting and display preferences
+  async getPreferences(userId: string) {
+    const preferences = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: this.preferencesSelect,
+    });
+
+    if (!preferences) {
+      throw new NotFoundException('User not found');
+    }
+
+    return preferences;
+  }
+
+  // Update formatting and display preferences
+  async updatePreferences(userId: string, dto: UpdatePreferencesDto) {
+    const current = await this.getPreferences(userId);
+
+    // Separators are validated against the values the user will end up with
+    const decimalSeparator = dto.decimalSeparator ?? current.decimalSeparator;
+    const thousandsSeparator = dto.thousandsSeparator ?? current.thousandsSeparator;
+
+    if (decimalSeparator === thousandsSeparator) {
+      throw new BadRequestException('Decimal and thousands separators must be different');
+    }
+
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(dto.currency && { currency: dto.currency.toUpperCase() }),
+        ...(dto.symbolPosition && { symbolPosition: dto.symbolPosition }),
+        ...(dto.decimalPlaces !== undefined && { decimalPlaces: dto.decimalPlaces }),
+        ...(dto.thousandsSeparator !== undefined && { thousandsSeparator: dto.thousandsSeparator }),
+        ...(dto.decimalSeparator !== undefined && { decimalSeparator: dto.decimalSeparator }),
+        ...(dto.hideCents !== undefined && { hideCents: dto.hideCents }),
+        ...(dto.roundToNearest && { roundToNearest: dto.roundToNearest }),
+        ...(dto.weekStartDay && { weekStartDay: dto.weekStartDay }),
+        ...(dto.timezone && { timezone: dto.timezone }),
+        ...(dto.theme && { theme: dto.theme }),
+      },
+      select: this.preferencesSelect,
+    });
+  }
+
+  // Get notification preferences
+  async getNotificationPreferences(userId: string) {
+    const notifications = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: this.notificationsSelect,
+    });
+
+    if (!notifications) {
+      throw new NotFoundException('User not found');
+    }
+
+    return notifications;
+  }
+
+  // Update notification preferences
+  async updateNotificationPreferences(userId: string, dto: UpdateNotificationsDto) {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(dto.notifyLowBalance !== undefined && { notifyLowBalance: dto.notifyLowBalance }),
+        ...(dto.notifyBillsDue !== undefined && { notifyBillsDue: dto.notifyBillsDue }),
+        ...(dto.notifyGoalReached !== undefined && { notifyGoalReached: dto.notifyGoalReached }),
+        ...(dto.notifyBudgetExceeded !== undefined && { notifyBudgetExceeded: dto.notifyBudgetExceeded }),
+      },
+      select: this.notificationsSelect,
+    });
+  }
+}
@@ -10,12 +10,14 @@ export interface PeriodDataPoint {
 
 export interface CategoryDataPoint {
   id: string;
+  parentId: string | null;
   name: string;
   color: string;
   icon: string;
   amount: number;
   count: number;
   percentage?: number;
+  subcategories?: CategoryDataPoint[];
 }
 
 export interface MonthlyDataPoint {
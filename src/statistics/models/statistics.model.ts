@@ -73,6 +73,13 @@ export class ExpenseCategoryBreakdown {
   })
   id: string;
 
+  @ApiProperty({
+    description: 'Parent category ID, null for top-level categories',
+    example: null,
+    nullable: true,
+  })
+  parentId: string | null;
+
   @ApiProperty({
     description: 'Category name',
     example: 'Groceries',
@@ -92,7 +99,7 @@ export class ExpenseCategoryBreakdown {
   icon: string;
 
   @ApiProperty({
-    description: 'Total amount spent in this category',
+    description: 'Total amount spent in this category and its subcategories',
     example: 425.75,
   })
   amount: number;
@@ -104,10 +111,16 @@ export class ExpenseCategoryBreakdown {
   percentage: number;
 
   @ApiProperty({
-    description: 'Number of transactions in this category',
+    description: 'Number of transactions in this category and its subcategories',
     example: 12,
   })
   count: number;
+
+  @ApiProperty({
+    description: 'Breakdown of the subcategories with spending, each also counted in this category',
+    type: () => [ExpenseCategoryBreakdown],
+  })
+  subcategories: ExpenseCategoryBreakdown[];
 }
 
 export class ExpenseCategoriesModel {
@@ -21,11 +21,13 @@ import {
   SavingsGoalsModel
 } from './models/statistics.model';
 import { ParseDatePipe } from 'src/transactions/pipes/parse-date.pipe';
+import { SupportsDisplayFormat } from 'src/common/formatting';
 
 @ApiTags('statistics')
 @ApiBearerAuth('JWT-auth')
 @ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
 @UseGuards(JwtGuard)
+@SupportsDisplayFormat()
 @Controller('statistics')
 export class StatisticsController {
   constructor(private statisticsService: StatisticsService) {}
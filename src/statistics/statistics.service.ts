@@ -2,11 +2,12 @@ import { Injectable } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { BudgetComparisonTypeEnum, TimePeriodEnum } from './dto/statistics-params.dto';
 import { TransactionTypeEnum } from 'src/transactions/dto/create-transaction.dto';
-import { 
-  addDays, addMonths, differenceInDays, endOfDay, endOfMonth, endOfWeek, 
-  format, getMonth, getYear, isAfter, isBefore, startOfDay, startOfMonth, 
-  startOfWeek, subMonths, subDays
-} from 'date-fns';
+import { addDays, addMonths, differenceInDays, isAfter, isBefore, subMonths, subDays } from 'date-fns';
+import { CalendarService } from 'src/common/calendar';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { getCategoryPortions } from 'src/transactions/transaction-splits';
+import { NOT_TRANSFER } from 'src/transactions/transfers';
+import { buildCategoryTree, CategoryTree, getCategoryPath, getParentMap } from 'src/categories/category-tree';
 import {
   PeriodDataPoint,
   CategoryDataPoint,
@@ -17,7 +18,10 @@ import {
 
 @Injectable()
 export class StatisticsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+  ) {}
 
   /**
    * Get income vs expenses chart data
@@ -29,13 +33,17 @@ export class StatisticsService {
    */
   async getIncomeExpensesChart(userId: string, period: TimePeriodEnum, months: number = 3) {
     const now = new Date();
-    const endDate = endOfMonth(now);
-    const startDate = startOfMonth(subMonths(now, months - 1));
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const context = this.calendar.getContext(userCalendar);
+    const endDate = this.calendar.getMonthRange(now, userCalendar).endDate;
+    const startDate = this.calendar.getMonthRange(subMonths(now, months - 1, { in: context }), userCalendar).startDate;
     
-    // Get all transactions for the period
+    // Get all income and expenses for the period, transfers only move money between accounts
     const transactions = await this.prisma.transaction.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
+        ...NOT_TRANSFER,
         date: {
           gte: startDate,
           lte: endDate,
@@ -56,14 +64,11 @@ export class StatisticsService {
       // Create month groups for the entire range
       let currentDate = new Date(startDate);
       while (!isAfter(currentDate, endDate)) {
-        const year = getYear(currentDate);
-        const month = getMonth(currentDate);
-        const monthKey = `${year}-${month}`;
-        const monthStart = startOfMonth(currentDate);
-        const monthEnd = endOfMonth(currentDate);
+        const monthKey = this.calendar.getMonthKey(currentDate, userCalendar);
+        const { startDate: monthStart, endDate: monthEnd } = this.calendar.getMonthRange(currentDate, userCalendar);
         
         monthGroups[monthKey] = {
-          label: format(monthStart, 'MMM yyyy'),
+          label: this.calendar.formatDate(monthStart, 'MMM yyyy', userCalendar),
           income: 0,
           expense: 0,
           net: 0,
@@ -71,15 +76,12 @@ export class StatisticsService {
           endDate: monthEnd,
         };
         
-        currentDate = addMonths(currentDate, 1);
+        currentDate = addMonths(currentDate, 1, { in: context });
       }
       
       // Add transaction amounts to appropriate months
       transactions.forEach(tx => {
-        const txDate = new Date(tx.date);
-        const year = getYear(txDate);
-        const month = getMonth(txDate);
-        const monthKey = `${year}-${month}`;
+        const monthKey = this.calendar.getMonthKey(new Date(tx.date), userCalendar);
         
         if (monthGroups[monthKey]) {
           if (tx.type === TransactionTypeEnum.INCOME) {
@@ -100,17 +102,17 @@ export class StatisticsService {
       // Group by week
       const weekGroups: Record<string, PeriodDataPoint> = {};
       
-      // Create week groups for the entire range
-      let currentDate = startOfWeek(startDate, { weekStartsOn: 0 });
+      // Create week groups for the entire range, starting on the user's week start day
+      let currentDate = this.calendar.getWeekRange(startDate, userCalendar).startDate;
       let weekCounter = 1;
       
       while (!isAfter(currentDate, endDate)) {
-        const weekStart = currentDate;
-        const weekEnd = endOfWeek(currentDate, { weekStartsOn: 0 });
-        const weekKey = format(weekStart, 'yyyy-MM-dd');
+        const { startDate: weekStart, endDate: weekEnd } = this.calendar.getWeekRange(currentDate, userCalendar);
+        const weekKey = this.calendar.formatDate(weekStart, 'yyyy-MM-dd', userCalendar);
+        const weekLabel = `${this.calendar.formatDate(weekStart, 'MMM d', userCalendar)} - ${this.calendar.formatDate(weekEnd, 'MMM d', userCalendar)}`;
         
         weekGroups[weekKey] = {
-          label: `Week ${weekCounter} (${format(weekStart, 'MMM d')} - ${format(weekEnd, 'MMM d')})`,
+          label: `Week ${weekCounter} (${weekLabel})`,
           income: 0,
           expense: 0,
           net: 0,
@@ -118,7 +120,7 @@ export class StatisticsService {
           endDate: weekEnd,
         };
         
-        currentDate = addDays(weekEnd, 1);
+        currentDate = addDays(weekEnd, 1, { in: context });
         weekCounter++;
       }
       
@@ -166,17 +168,24 @@ export class StatisticsService {
 
   /**
    * Get expense distribution by category
+   * Spending in subcategories also counts towards their parents, which list them in subcategories
    * 
    * @param userId - Current authenticated user ID
    * @param startDate - Start date for period
    * @param endDate - End date for period
-   * @returns Expense categories breakdown
+   * @returns Expense categories breakdown of the top-level categories
    */
-  async getExpenseCategories(userId: string, startDate: Date, endDate: Date) {
+  async getExpenseCategories(userId: string, fromDate: Date, toDate: Date) {
+    // Resolve date-only filters as whole days in the user's timezone
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const startDate = this.calendar.resolveDateFilter(fromDate, userCalendar, 'start');
+    const endDate = this.calendar.resolveDateFilter(toDate, userCalendar, 'end');
+
     // Get all expense transactions for the period with categories
     const transactions = await this.prisma.transaction.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
         type: TransactionTypeEnum.EXPENSE,
         date: {
           gte: startDate,
@@ -185,43 +194,60 @@ export class StatisticsService {
       },
       include: {
         category: true,
+        splits: { include: { category: true } },
       },
     });
     
     // Calculate total expenses amount
     const totalAmount = transactions.reduce((sum, tx) => sum + tx.amount, 0);
     
-    // Group transactions by category
+    // Trashed categories are included, their past spending still rolls up into their parents
+    const userCategories = await this.prisma.category.findMany({
+      where: { userId },
+      select: { id: true, parentId: true, name: true, color: true, icon: true },
+    });
+    const parents = getParentMap(userCategories);
+    const categoryById = new Map(userCategories.map(category => [category.id, category]));
+    
+    // Group transactions by category, split transactions count towards each category of their split lines
+    // and each portion also counts towards the parents of its category
     const categoryMap = new Map<string, CategoryDataPoint>();
     
-    transactions.forEach(tx => {
-      const { category } = tx;
-      
-      if (!categoryMap.has(category.id)) {
-        categoryMap.set(category.id, {
-          id: category.id,
-          name: category.name,
-          color: category.color,
-          icon: category.icon,
-          amount: 0,
-          count: 0,
-        });
-      }
-      
-      const categoryData = categoryMap.get(category.id);
-      if (categoryData) {
-        categoryData.amount += tx.amount;
-        categoryData.count += 1;
-      }
+    transactions.flatMap(tx => getCategoryPortions(tx)).forEach(portion => {
+      getCategoryPath(portion.categoryId, parents).forEach(categoryId => {
+        const category = categoryById.get(categoryId);
+        if (!category) return;
+        
+        if (!categoryMap.has(categoryId)) {
+          categoryMap.set(categoryId, {
+            id: category.id,
+            parentId: category.parentId,
+            name: category.name,
+            color: category.color,
+            icon: category.icon,
+            amount: 0,
+            count: 0,
+          });
+        }
+        
+        const categoryData = categoryMap.get(categoryId);
+        if (categoryData) {
+          categoryData.amount += portion.amount;
+          categoryData.count += 1;
+        }
+      });
     });
     
-    // Calculate percentages and sort by amount descending
-    const categories = Array.from(categoryMap.values()).map(category => {
-      return {
+    // Calculate percentages, nest subcategories under their parents and sort by amount descending
+    const toBreakdown = (nodes: CategoryTree<CategoryDataPoint>[]): CategoryDataPoint[] => nodes
+      .map(({ children, ...category }) => ({
         ...category,
         percentage: totalAmount > 0 ? (category.amount / totalAmount) * 100 : 0,
-      };
-    }).sort((a, b) => b.amount - a.amount);
+        subcategories: toBreakdown(children),
+      }))
+      .sort((a, b) => b.amount - a.amount);
+    
+    const categories = toBreakdown(buildCategoryTree(Array.from(categoryMap.values())));
     
     return {
       categories,
@@ -242,6 +268,7 @@ export class StatisticsService {
     const savingsGoals = await this.prisma.savingsGoal.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
       },
     });
     
@@ -289,13 +316,17 @@ export class StatisticsService {
    */
   async getMonthlyTrends(userId: string, months: number = 6) {
     const now = new Date();
-    const endDate = endOfMonth(now);
-    const startDate = startOfMonth(subMonths(now, months - 1));
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const context = this.calendar.getContext(userCalendar);
+    const endDate = this.calendar.getMonthRange(now, userCalendar).endDate;
+    const startDate = this.calendar.getMonthRange(subMonths(now, months - 1, { in: context }), userCalendar).startDate;
     
-    // Get all transactions for the period
+    // Get all income and expenses for the period, transfers only move money between accounts
     const transactions = await this.prisma.transaction.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
+        ...NOT_TRANSFER,
         date: {
           gte: startDate,
           lte: endDate,
@@ -317,9 +348,9 @@ export class StatisticsService {
     // Create month data for the entire range
     let currentDate = new Date(startDate);
     while (!isAfter(currentDate, endDate)) {
-      const monthStart = startOfMonth(currentDate);
-      const monthEnd = endOfMonth(currentDate);
-      const monthLabel = format(monthStart, 'MMM yyyy');
+      const { startDate: monthStart, endDate: monthEnd } = this.calendar.getMonthRange(currentDate, userCalendar);
+      const monthKey = this.calendar.getMonthKey(monthStart, userCalendar);
+      const monthLabel = this.calendar.formatDate(monthStart, 'MMM yyyy', userCalendar);
       
       // Filter transactions for this month
       const monthTransactions = transactions.filter(tx => {
@@ -338,10 +369,7 @@ export class StatisticsService {
       
       // Get savings for this month (using plan items)
       const savings = savingsItems
-        .filter(item => {
-          const itemDate = new Date(item.createdAt);
-          return getYear(itemDate) === getYear(monthStart) && getMonth(itemDate) === getMonth(monthStart);
-        })
+        .filter(item => this.calendar.getMonthKey(new Date(item.createdAt), userCalendar) === monthKey)
         .reduce((sum, item) => sum + item.amount, 0);
       
       // Calculate net amount
@@ -356,7 +384,7 @@ export class StatisticsService {
         date: monthStart,
       });
       
-      currentDate = addMonths(currentDate, 1);
+      currentDate = addMonths(currentDate, 1, { in: context });
     }
     
     // Calculate averages
@@ -400,13 +428,16 @@ export class StatisticsService {
    */
   async getDailySpending(userId: string, days: number = 14) {
     const now = new Date();
-    const endDate = endOfDay(now);
-    const startDate = startOfDay(subDays(now, days - 1));
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+    const context = this.calendar.getContext(userCalendar);
+    const endDate = this.calendar.getDayRange(now, userCalendar).endDate;
+    const startDate = this.calendar.getDayRange(subDays(now, days - 1, { in: context }), userCalendar).startDate;
     
     // Get all expense transactions for the period
     const transactions = await this.prisma.transaction.findMany({
       where: {
         userId,
+        ...NOT_DELETED,
         type: TransactionTypeEnum.EXPENSE,
         date: {
           gte: startDate,
@@ -424,9 +455,8 @@ export class StatisticsService {
     // Create day data for the entire range
     let currentDate = new Date(startDate);
     while (!isAfter(currentDate, endDate)) {
-      const dayStart = startOfDay(currentDate);
-      const dayEnd = endOfDay(currentDate);
-      const dayLabel = format(dayStart, 'MMM d, yyyy');
+      const { startDate: dayStart, endDate: dayEnd } = this.calendar.getDayRange(currentDate, userCalendar);
+      const dayLabel = this.calendar.formatDate(dayStart, 'MMM d, yyyy', userCalendar);
       
       // Filter transactions for this day
       const dayTransactions = transactions.filter(tx => {
@@ -445,7 +475,7 @@ export class StatisticsService {
         comparisonToAverage: 0, // Will be calculated after average is computed
       });
       
-      currentDate = addDays(currentDate, 1);
+      currentDate = addDays(currentDate, 1, { in: context });
     }
     
     // Calculate totals and averages
@@ -494,11 +524,12 @@ export class StatisticsService {
    */
   async getBudgetActualComparison(userId: string, groupBy: BudgetComparisonTypeEnum) {
     const now = new Date();
+    const userCalendar = await this.calendar.getUserCalendar(userId);
     
     if (groupBy === BudgetComparisonTypeEnum.MONTH) {
       // Compare by month for the current year
-      const yearStart = new Date(now.getFullYear(), 0, 1);
-      const yearEnd = new Date(now.getFullYear(), 11, 31, 23, 59, 59);
+      const { startDate: yearStart, endDate: yearEnd } = this.calendar.getYearRange(now, userCalendar);
+      const context = this.calendar.getContext(userCalendar);
       
       // Get all budgets for the year
       const budgets = await this.prisma.budget.findMany({
@@ -514,6 +545,7 @@ export class StatisticsService {
         },
         include: {
           categoryAllocations: {
+            where: { category: NOT_DELETED },
             include: {
               category: true,
             },
@@ -525,6 +557,7 @@ export class StatisticsService {
       const transactions = await this.prisma.transaction.findMany({
         where: {
           userId,
+          ...NOT_DELETED,
           type: TransactionTypeEnum.EXPENSE,
           date: {
             gte: yearStart,
@@ -537,15 +570,13 @@ export class StatisticsService {
       const monthlyData: BudgetCategoryDataPoint[] = [];
       
       // Create month data for each month of the year up to current month
-      for (let month = 0; month < now.getMonth() + 1; month++) {
-        const monthStart = new Date(now.getFullYear(), month, 1);
-        const monthEnd = endOfMonth(monthStart);
-        const monthLabel = format(monthStart, 'MMMM yyyy');
+      for (let monthStart: Date = yearStart; !isAfter(monthStart, now); monthStart = addMonths(monthStart, 1, { in: context })) {
+        const monthKey = this.calendar.getMonthKey(monthStart, userCalendar);
+        const monthLabel = this.calendar.formatDate(monthStart, 'MMMM yyyy', userCalendar);
         
         // Find budget for this month
         const monthBudget = budgets.find(budget => {
-          const budgetStart = new Date(budget.startDate);
-          return getMonth(budgetStart) === month;
+          return this.calendar.getMonthKey(new Date(budget.startDate), userCalendar) === monthKey;
         });
         
         // Calculate budgeted amount
@@ -553,8 +584,7 @@ export class StatisticsService {
         
         // Filter transactions for this month
         const monthTransactions = transactions.filter(tx => {
-          const txDate = new Date(tx.date);
-          return getMonth(txDate) === month;
+          return this.calendar.getMonthKey(new Date(tx.date), userCalendar) === monthKey;
         });
         
         // Calculate actual amount spent
@@ -591,8 +621,7 @@ export class StatisticsService {
       };
     } else {
       // Compare by category for the current month
-      const monthStart = startOfMonth(now);
-      const monthEnd = endOfMonth(now);
+      const { startDate: monthStart, endDate: monthEnd } = this.calendar.getMonthRange(now, userCalendar);
       
       // Get the current month's budget with categories
       const budget = await this.prisma.budget.findFirst({
@@ -608,6 +637,7 @@ export class StatisticsService {
         },
         include: {
           categoryAllocations: {
+            where: { category: NOT_DELETED },
             include: {
               category: true,
             },
@@ -619,6 +649,7 @@ export class StatisticsService {
       const transactions = await this.prisma.transaction.findMany({
         where: {
           userId,
+          ...NOT_DELETED,
           type: TransactionTypeEnum.EXPENSE,
           date: {
             gte: monthStart,
@@ -627,9 +658,17 @@ export class StatisticsService {
         },
         include: {
           category: true,
+          splits: { include: { category: true } },
         },
       });
       
+      const userCategories = await this.prisma.category.findMany({
+        where: { userId },
+        select: { id: true, parentId: true, name: true, color: true },
+      });
+      const parents = getParentMap(userCategories);
+      const categoryById = new Map(userCategories.map(category => [category.id, category]));
+      
       // Group transactions by category
       const categoryMap = new Map<string, BudgetCategoryDataPoint>();
       
@@ -648,25 +687,39 @@ export class StatisticsService {
         });
       }
       
-      // Add transaction amounts to categories
-      transactions.forEach(tx => {
-        if (!categoryMap.has(tx.categoryId)) {
-          // Category not in budget
-          categoryMap.set(tx.categoryId, {
-            label: tx.category.name,
-            id: tx.categoryId,
-            budgetAmount: 0,
-            actualAmount: 0,
-            variance: 0,
-            variancePercentage: 0,
-            color: tx.category.color,
-          });
-        }
+      const portions = transactions.flatMap(tx => getCategoryPortions(tx));
+      
+      // Add transaction amounts to categories, split per split line; spending in a subcategory
+      // also counts towards the allocations of its parents
+      portions.forEach(portion => {
+        const path = getCategoryPath(portion.categoryId, parents);
+        const allocated = path.filter(categoryId => budget?.categoryAllocations.some(allocation => allocation.categoryId === categoryId));
         
-        const categoryData = categoryMap.get(tx.categoryId);
-        if (categoryData) {
-          categoryData.actualAmount += tx.amount;
+        if (allocated.length === 0) {
+          // Category not in budget, grouped under its top-level category
+          const root = categoryById.get(path[path.length - 1]) ?? portion.category;
+          
+          if (!categoryMap.has(root.id)) {
+            categoryMap.set(root.id, {
+              label: root.name,
+              id: root.id,
+              budgetAmount: 0,
+              actualAmount: 0,
+              variance: 0,
+              variancePercentage: 0,
+              color: root.color,
+            });
+          }
+          
+          allocated.push(root.id);
         }
+        
+        allocated.forEach(categoryId => {
+          const categoryData = categoryMap.get(categoryId);
+          if (categoryData) {
+            categoryData.actualAmount += portion.amount;
+          }
+        });
       });
       
       // Calculate variances and sort by budget amount descending
@@ -685,7 +738,8 @@ export class StatisticsService {
       
       // Calculate totals
       const totalBudget = categoryData.reduce((sum, category) => sum + category.budgetAmount, 0);
-      const totalActual = categoryData.reduce((sum, category) => sum + category.actualAmount, 0);
+      // Summed over the spending itself, a parent row already includes its allocated subcategories
+      const totalActual = portions.reduce((sum, portion) => sum + portion.amount, 0);
       const totalVariance = totalActual - totalBudget;
       const totalVariancePercentage = totalBudget > 0 ? (totalVariance / totalBudget) * 100 : 0;
       
@@ -0,0 +1,67 @@
+import { CategoryExample, rankCategories, tokenize } from './category-suggestions';
+
+describe('category-suggestions', () => {
+  describe('tokenize', () => {
+    it('keeps distinct lower case words and drops numbers and short words', () => {
+      expect(tokenize('STARBUCKS #1234 Seattle WA starbucks x')).toEqual(['starbucks', 'seattle', 'wa']);
+    });
+
+    it('keeps letters outside of ASCII', () => {
+      expect(tokenize('Café Đi chợ')).toEqual(['café', 'đi', 'chợ']);
+    });
+
+    it('adds the order of magnitude of a positive amount', () => {
+      expect(tokenize('Rent', 1200)).toEqual(['rent', 'amount:10']);
+      expect(tokenize('Rent', 0)).toEqual(['rent']);
+    });
+
+    it('returns no tokens without a description or amount', () => {
+      expect(tokenize(null)).toEqual([]);
+      expect(tokenize(undefined)).toEqual([]);
+    });
+  });
+
+  describe('rankCategories', () => {
+    const examples: CategoryExample[] = [
+      { description: 'Starbucks Seattle', amount: 4.5, categoryId: 'coffee' },
+      { description: 'Starbucks Portland', amount: 5.2, categoryId: 'coffee' },
+      { description: 'Lidl store', amount: 54, categoryId: 'groceries' },
+      { description: 'Aldi store', amount: 61, categoryId: 'groceries' },
+      { description: 'Aldi', amount: 38, categoryId: 'groceries' },
+    ];
+
+    it('ranks the category whose history shares the words first', () => {
+      const [first, second] = rankCategories(examples, 'STARBUCKS #42');
+
+      expect(first.categoryId).toBe('coffee');
+      expect(first.examples).toBe(2);
+      expect(second.categoryId).toBe('groceries');
+      expect(first.confidence).toBeGreaterThan(second.confidence);
+    });
+
+    it('uses the amount to tell apart payments with the same words', () => {
+      const history: CategoryExample[] = [
+        { description: 'Amazon', amount: 8, categoryId: 'books' },
+        { description: 'Amazon', amount: 9, categoryId: 'books' },
+        { description: 'Amazon', amount: 700, categoryId: 'electronics' },
+        { description: 'Amazon', amount: 900, categoryId: 'electronics' },
+      ];
+
+      expect(rankCategories(history, 'Amazon', 850)[0].categoryId).toBe('electronics');
+      expect(rankCategories(history, 'Amazon', 7)[0].categoryId).toBe('books');
+    });
+
+    it('returns confidences that add up to 1', () => {
+      const scores = rankCategories(examples, 'unknown payee');
+      const total = scores.reduce((sum, score) => sum + score.confidence, 0);
+
+      expect(total).toBeCloseTo(1);
+      // Unseen words leave the category with more history ahead
+      expect(scores[0].categoryId).toBe('groceries');
+    });
+
+    it('returns nothing without history', () => {
+      expect(rankCategories([], 'Starbucks')).toEqual([]);
+    });
+  });
+});
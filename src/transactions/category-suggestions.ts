@@ -0,0 +1,99 @@
+// Past transaction, or split line, the suggestions learn from
+export interface CategoryExample {
+  description: string | null;
+  amount: number;
+  categoryId: string;
+}
+
+// Likelihood of a category for a new transaction
+export interface CategoryScore {
+  categoryId: string;
+  // Probability between 0 and 1, the scores of all categories add up to 1
+  confidence: number;
+  // Number of examples of the category in the history
+  examples: number;
+}
+
+// Shorter words are mostly abbreviations and noise in bank descriptions
+const MIN_WORD_LENGTH = 2;
+
+/**
+ * Break a transaction down into the tokens the classifier counts
+ * Words of the description are counted once each; numbers such as card or store numbers are dropped.
+ * The amount adds a token for its order of magnitude, so a coffee and a rent payment at the same payee differ
+ *
+ * @param description - Transaction description
+ * @param amount - Optional transaction amount
+ * @returns Distinct tokens of the transaction
+ */
+export function tokenize(description: string | null | undefined, amount?: number): string[] {
+  const words = (description || '')
+    .toLowerCase()
+    .split(/[^\p{L}]+/u)
+    .filter(word => word.length >= MIN_WORD_LENGTH);
+  const tokens = [...new Set(words)];
+
+  if (amount !== undefined && amount > 0) {
+    tokens.push(`amount:${Math.floor(Math.log2(amount))}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Rank categories for a transaction with a naive Bayes classifier trained on the user's history
+ * Token counts are smoothed with add-one smoothing, so unseen words do not rule a category out
+ *
+ * @param examples - Categorised transactions of the user
+ * @param description - Description of the transaction to categorise
+ * @param amount - Optional amount of the transaction to categorise
+ * @returns Categories seen in the history, most likely first
+ */
+export function rankCategories(examples: CategoryExample[], description: string | null | undefined, amount?: number): CategoryScore[] {
+  const models = new Map<string, { examples: number; tokenTotal: number; tokens: Map<string, number> }>();
+  const vocabulary = new Set<string>();
+
+  for (const example of examples) {
+    let model = models.get(example.categoryId);
+
+    if (!model) {
+      model = { examples: 0, tokenTotal: 0, tokens: new Map() };
+      models.set(example.categoryId, model);
+    }
+
+    model.examples++;
+
+    for (const token of tokenize(example.description, example.amount)) {
+      model.tokens.set(token, (model.tokens.get(token) || 0) + 1);
+      model.tokenTotal++;
+      vocabulary.add(token);
+    }
+  }
+
+  const tokens = tokenize(description, amount);
+  // One extra slot for tokens never seen in the history
+  const vocabularySize = vocabulary.size + 1;
+
+  const scores = [...models].map(([categoryId, model]) => {
+    let logScore = Math.log(model.examples / examples.length);
+
+    for (const token of tokens) {
+      logScore += Math.log(((model.tokens.get(token) || 0) + 1) / (model.tokenTotal + vocabularySize));
+    }
+
+    return { categoryId, logScore, examples: model.examples };
+  });
+
+  // Turn the log scores into probabilities, shifted by the highest score to avoid underflow
+  const highest = Math.max(...scores.map(score => score.logScore));
+  const weights = scores.map(score => Math.exp(score.logScore - highest));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return scores
+    .map((score, index) => ({
+      categoryId: score.categoryId,
+      confidence: weights[index] / totalWeight,
+      examples: score.examples,
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
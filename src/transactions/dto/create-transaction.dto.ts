@@ -1,10 +1,40 @@
 import { Type } from 'class-transformer';
-import { IsDate, IsEnum, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString, ValidateIf } from 'class-validator';
+import { IsArray, IsDate, IsEnum, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString, ValidateNested } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export enum TransactionTypeEnum {
   INCOME = 'INCOME',
   EXPENSE = 'EXPENSE',
+  TRANSFER = 'TRANSFER',
+}
+
+export class TransactionSplitDto {
+  @ApiProperty({
+    description: 'Category ID the split line is attributed to',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  @IsString()
+  @IsNotEmpty()
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Part of the transaction amount attributed to the category',
+    example: 30.5,
+    minimum: 0.01,
+  })
+  @IsNumber()
+  @IsPositive()
+  @IsNotEmpty()
+  amount: number;
+
+  @ApiProperty({
+    description: 'Note about the split line',
+    example: 'Cleaning supplies',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  note?: string;
 }
 
 export class CreateTransactionDto {
@@ -19,7 +49,7 @@ export class CreateTransactionDto {
   amount: number;
 
   @ApiProperty({
-    description: 'Transaction type',
+    description: 'Transaction type; a TRANSFER moves the amount from accountId to transferAccountId',
     enum: TransactionTypeEnum,
     example: TransactionTypeEnum.EXPENSE,
   })
@@ -37,12 +67,14 @@ export class CreateTransactionDto {
   date: Date;
 
   @ApiProperty({
-    description: 'Category ID',
+    description: 'Category ID of income and expenses, not used by transfers; when left out, the first matching category rule picks it',
     example: 'cl9ebqkxk000098l23xjp7y1z',
+    required: false,
   })
   @IsString()
   @IsNotEmpty()
-  categoryId: string;
+  @IsOptional()
+  categoryId?: string;
 
   @ApiProperty({
     description: 'Transaction description',
@@ -70,4 +102,34 @@ export class CreateTransactionDto {
   @IsString()
   @IsOptional()
   billId?: string;
+
+  @ApiProperty({
+    description: 'Account the money moved in or out of, or the account a transfer takes it from; null detaches an income or expense from its account',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    required: false,
+    nullable: true,
+  })
+  @IsString()
+  @IsOptional()
+  accountId?: string | null;
+
+  @ApiProperty({
+    description: 'Account a transfer moves the money to, required for transfers',
+    example: 'cl9ebqkxk000098l23xjp7y2a',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  transferAccountId?: string;
+
+  @ApiProperty({
+    description: 'Split lines attributing parts of the amount to several categories; they must add up to the amount. An empty list removes the splits',
+    type: [TransactionSplitDto],
+    required: false,
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TransactionSplitDto)
+  @IsOptional()
+  splits?: TransactionSplitDto[];
 }
@@ -0,0 +1,157 @@
+import { Transform, Type } from 'class-transformer';
+import { IsEnum, IsInt, IsNumber, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionTypeEnum } from './create-transaction.dto';
+import { ParseDatePipe } from '../pipes/parse-date.pipe';
+
+export enum TransactionSortFieldEnum {
+  DATE = 'date',
+  AMOUNT = 'amount',
+  CREATED_AT = 'createdAt',
+}
+
+export enum SortOrderEnum {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export const MAX_TRANSACTIONS_PAGE_SIZE = 100;
+
+export class GetTransactionsQueryDto {
+  @ApiProperty({
+    description: 'Start date for filtering (ISO format)',
+    example: '2023-05-01',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => new ParseDatePipe().transform(value))
+  fromDate?: Date;
+
+  @ApiProperty({
+    description: 'End date for filtering (ISO format)',
+    example: '2023-05-31',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => new ParseDatePipe().transform(value))
+  toDate?: Date;
+
+  @ApiProperty({
+    description: 'Filter transactions by type',
+    enum: TransactionTypeEnum,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TransactionTypeEnum)
+  type?: TransactionTypeEnum;
+
+  @ApiProperty({
+    description: 'Filter transactions by category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @ApiProperty({
+    description: 'Filter transactions by several category IDs, comma separated or repeated',
+    example: 'cl9ebqkxk000098l23xjp7y1z,cl9ebqkxk000098l23xjp7y2a',
+    required: false,
+    type: String,
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  @Transform(({ value }) =>
+    (Array.isArray(value) ? value : String(value).split(','))
+      .map((id: string) => id.trim())
+      .filter((id: string) => id.length > 0),
+  )
+  categoryIds?: string[];
+
+  @ApiProperty({
+    description: 'Filter transactions by account ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  accountId?: string;
+
+  @ApiProperty({
+    description: 'Minimum transaction amount',
+    example: 10,
+    required: false,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  minAmount?: number;
+
+  @ApiProperty({
+    description: 'Maximum transaction amount',
+    example: 500,
+    required: false,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  maxAmount?: number;
+
+  @ApiProperty({
+    description: 'Case-insensitive text searched in the description and notes',
+    example: 'grocery',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiProperty({
+    description: 'Field to sort by',
+    enum: TransactionSortFieldEnum,
+    default: TransactionSortFieldEnum.DATE,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TransactionSortFieldEnum)
+  sortBy?: TransactionSortFieldEnum = TransactionSortFieldEnum.DATE;
+
+  @ApiProperty({
+    description: 'Sort direction',
+    enum: SortOrderEnum,
+    default: SortOrderEnum.DESC,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SortOrderEnum)
+  sortOrder?: SortOrderEnum = SortOrderEnum.DESC;
+
+  @ApiProperty({
+    description: 'Maximum number of transactions to return',
+    example: 50,
+    default: 50,
+    required: false,
+    minimum: 1,
+    maximum: MAX_TRANSACTIONS_PAGE_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_TRANSACTIONS_PAGE_SIZE)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 50;
+
+  @ApiProperty({
+    description: 'Cursor returned as nextCursor by the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
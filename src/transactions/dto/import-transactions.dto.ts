@@ -0,0 +1,189 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional, IsString, Length } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ImportSourceEnum } from '../models/import-result.model';
+
+// Multipart fields arrive as strings
+const toBoolean = ({ value }: { value: unknown }) => value === true || value === 'true';
+
+export class ImportTransactionsDto {
+  @ApiProperty({
+    description: 'Bank statement file (CSV, OFX, QFX or QIF)',
+    type: 'string',
+    format: 'binary',
+  })
+  file: any;
+
+  @ApiProperty({
+    description: 'File format, detected from the file extension if not provided (CSV otherwise)',
+    enum: ImportSourceEnum,
+    example: ImportSourceEnum.OFX,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ImportSourceEnum)
+  format?: ImportSourceEnum;
+
+  @ApiProperty({
+    description: 'Only validate the file and return a preview without creating transactions',
+    example: true,
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toBoolean)
+  dryRun?: boolean = true;
+
+  @ApiProperty({
+    description: 'Import rows that match an existing transaction',
+    example: false,
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toBoolean)
+  includeDuplicates?: boolean = false;
+
+  @ApiProperty({
+    description: 'Cell delimiter',
+    example: ',',
+    default: ',',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 1)
+  delimiter?: string = ',';
+
+  @ApiProperty({
+    description: 'Whether the first row holds column names',
+    example: true,
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toBoolean)
+  hasHeader?: boolean = true;
+
+  @ApiProperty({
+    description: 'Column with the transaction date (column name, or zero-based index), required for CSV files',
+    example: 'Date',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  dateColumn?: string;
+
+  @ApiProperty({
+    description: 'Column with a signed amount; negative amounts are expenses, positive amounts are income',
+    example: 'Amount',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  amountColumn?: string;
+
+  @ApiProperty({
+    description: 'Column with money going out, for statements with separate debit and credit columns',
+    example: 'Debit',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  debitColumn?: string;
+
+  @ApiProperty({
+    description: 'Column with money coming in, for statements with separate debit and credit columns',
+    example: 'Credit',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  creditColumn?: string;
+
+  @ApiProperty({
+    description: 'Column with the transaction type (EXPENSE/INCOME or DEBIT/CREDIT), overrides the amount sign',
+    example: 'Type',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  typeColumn?: string;
+
+  @ApiProperty({
+    description: 'Column with the transaction description',
+    example: 'Description',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  descriptionColumn?: string;
+
+  @ApiProperty({
+    description: 'Column with notes',
+    example: 'Reference',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  notesColumn?: string;
+
+  @ApiProperty({
+    description: 'Column with a category name, matched against the user\'s categories',
+    example: 'Category',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  categoryColumn?: string;
+
+  @ApiProperty({
+    description: 'Category for rows without a matching category',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @ApiProperty({
+    description: 'Account the statement belongs to, set on every imported transaction',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  accountId?: string;
+
+  @ApiProperty({
+    description: 'Date format of CSV and QIF dates (date-fns tokens); CSV defaults to yyyy-MM-dd, QIF to US month/day order',
+    example: 'dd/MM/yyyy',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  dateFormat?: string;
+
+  @ApiProperty({
+    description: 'Decimal separator of CSV and QIF amounts, defaults to the user\'s preference',
+    example: ',',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 1)
+  decimalSeparator?: string;
+
+  @ApiProperty({
+    description: 'Thousands separator of CSV and QIF amounts, defaults to the user\'s preference',
+    example: '.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(0, 1)
+  thousandsSeparator?: string;
+}
@@ -0,0 +1,52 @@
+import { Transform, Type } from 'class-transformer';
+import { IsIn, IsInt, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionTypeEnum } from './create-transaction.dto';
+
+export const MAX_CATEGORY_SUGGESTIONS = 10;
+
+export class SuggestCategoryQueryDto {
+  @ApiProperty({
+    description: 'Description of the transaction to categorise',
+    example: 'LIDL 1234 BERLIN',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  description: string;
+
+  @ApiProperty({
+    description: 'Amount of the transaction, improves the ranking when given',
+    example: 45.99,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  @Type(() => Number)
+  amount?: number;
+
+  @ApiProperty({
+    description: 'Type of the transaction, only transactions of this type are learned from',
+    enum: [TransactionTypeEnum.INCOME, TransactionTypeEnum.EXPENSE],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn([TransactionTypeEnum.INCOME, TransactionTypeEnum.EXPENSE])
+  type?: TransactionTypeEnum;
+
+  @ApiProperty({
+    description: 'Maximum number of suggestions to return',
+    example: 3,
+    default: 3,
+    required: false,
+    minimum: 1,
+    maximum: MAX_CATEGORY_SUGGESTIONS,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_CATEGORY_SUGGESTIONS)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 3;
+}
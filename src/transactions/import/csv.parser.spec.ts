@@ -0,0 +1,40 @@
+import { parseCsv } from './csv.parser';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('date,amount\n2024-01-05,12.50\n2024-01-06,3')).toEqual([
+      ['date', 'amount'],
+      ['2024-01-05', '12.50'],
+      ['2024-01-06', '3'],
+    ]);
+  });
+
+  it('reads quoted cells with delimiters, line breaks and doubled quotes', () => {
+    expect(parseCsv('description,notes\n"Smith, John","Line one\nline ""two"""\n')).toEqual([
+      ['description', 'notes'],
+      ['Smith, John', 'Line one\nline "two"'],
+    ]);
+  });
+
+  it('treats CRLF as one line break and leaves out blank lines', () => {
+    expect(parseCsv('a,b\r\n\r\n1,2\r\n , \r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('date;amount\n05.01.2024;"1.234,50"', ';')).toEqual([
+      ['date', 'amount'],
+      ['05.01.2024', '1.234,50'],
+    ]);
+  });
+
+  it('drops the byte order mark', () => {
+    expect(parseCsv('\uFEFFdate,amount\n2024-01-05,1')[0]).toEqual(['date', 'amount']);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('a,,c,\n')).toEqual([['a', '', 'c', '']]);
+  });
+});
@@ -0,0 +1,87 @@
+import { parseOfx } from './ofx.parser';
+
+describe('parseOfx', () => {
+  it('reads OFX 1.x statements without closing tags on leaf elements', () => {
+    const content = [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      '',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+      '<BANKACCTFROM><BANKID>123<ACCTID>000111<ACCTTYPE>CHECKING</BANKACCTFROM>',
+      '<BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240105120000[-5:EST]',
+      '<TRNAMT>-12.50',
+      '<FITID>2024010501',
+      '<NAME>Joe&apos;s Coffee &amp; Co',
+      '<MEMO>Card 1234',
+      '</STMTTRN>',
+      '<STMTTRN>',
+      '<TRNTYPE>CHECK',
+      '<DTPOSTED>20240106',
+      '<TRNAMT>-300.00',
+      '<FITID>2024010601',
+      '<CHECKNUM>1042',
+      '<PAYEE><NAME>Landlord<ADDR1>Main St</PAYEE>',
+      '</STMTTRN>',
+      '</BANKTRANLIST>',
+      '</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\r\n');
+
+    expect(parseOfx(content)).toEqual([
+      {
+        row: 1,
+        accountId: '000111',
+        trnType: 'DEBIT',
+        datePosted: '20240105120000[-5:EST]',
+        amount: '-12.50',
+        fitId: '2024010501',
+        name: 'Joe\'s Coffee & Co',
+        memo: 'Card 1234',
+        checkNumber: null,
+      },
+      {
+        row: 2,
+        accountId: '000111',
+        trnType: 'CHECK',
+        datePosted: '20240106',
+        amount: '-300.00',
+        fitId: '2024010601',
+        name: 'Landlord',
+        memo: null,
+        checkNumber: '1042',
+      },
+    ]);
+  });
+
+  it('reads OFX 2.x XML with several statements', () => {
+    const content = `<?xml version="1.0"?>
+<OFX>
+  <BANKMSGSRSV1><STMTTRNRS><STMTRS>
+    <BANKACCTFROM><ACCTID>CHK-1</ACCTID></BANKACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20240201</DTPOSTED><TRNAMT>2500.00</TRNAMT><FITID>A1</FITID><NAME>Payroll</NAME></STMTTRN>
+    </BANKTRANLIST>
+  </STMTRS></STMTTRNRS></BANKMSGSRSV1>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CCACCTFROM><ACCTID>CC-2</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240203</DTPOSTED><TRNAMT>-45.10</TRNAMT><FITID>B1</FITID><NAME>Grocer</NAME></STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+    const transactions = parseOfx(content);
+
+    expect(transactions.map(transaction => [transaction.row, transaction.accountId, transaction.fitId, transaction.amount, transaction.name]))
+      .toEqual([
+        [1, 'CHK-1', 'A1', '2500.00', 'Payroll'],
+        [2, 'CC-2', 'B1', '-45.10', 'Grocer'],
+      ]);
+  });
+
+  it('returns no transactions for content without statements', () => {
+    expect(parseOfx('not an ofx file')).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+// Raw values of one <STMTTRN> record of an OFX/QFX file
+export interface OfxTransaction {
+  row: number;
+  accountId: string | null;
+  trnType: string | null;
+  datePosted: string | null;
+  amount: string | null;
+  fitId: string | null;
+  name: string | null;
+  memo: string | null;
+  checkNumber: string | null;
+}
+
+/**
+ * Parse the statement transactions of an OFX or QFX file
+ * Handles both OFX 1.x (SGML, leaf elements without closing tags) and OFX 2.x (XML)
+ *
+ * @param content - File content
+ * @returns Transactions in file order, numbered from 1
+ */
+export function parseOfx(content: string): OfxTransaction[] {
+  const transactions: OfxTransaction[] = [];
+  // Each statement (bank or credit card) starts with its own account aggregate
+  const statements = content.split(/<(?:BANKACCTFROM|CCACCTFROM)>/i);
+
+  for (const statement of statements) {
+    const accountId = readElement(statement, 'ACCTID');
+    const records = statement.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+    for (const record of records) {
+      // PAYEE aggregates carry the name when NAME is missing
+      const payee = record.match(/<PAYEE>[\s\S]*?<\/PAYEE>/i);
+
+      transactions.push({
+        row: transactions.length + 1,
+        accountId,
+        trnType: readElement(record, 'TRNTYPE'),
+        datePosted: readElement(record, 'DTPOSTED'),
+        amount: readElement(record, 'TRNAMT'),
+        fitId: readElement(record, 'FITID'),
+        name: readElement(record, 'NAME') || (payee ? readElement(payee[0], 'NAME') : null),
+        memo: readElement(record, 'MEMO'),
+        checkNumber: readElement(record, 'CHECKNUM'),
+      });
+    }
+  }
+
+  return transactions;
+}
+
+// Read the value of the first element with the given tag, closed or not
+function readElement(source: string, tag: string): string | null {
+  const match = source.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1].trim()) : '';
+
+  return value || null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
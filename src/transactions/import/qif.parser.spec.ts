@@ -0,0 +1,69 @@
+import { parseQif } from './qif.parser';
+
+describe('parseQif', () => {
+  it('reads the transactions of a bank account', () => {
+    const content = [
+      '!Type:Bank',
+      'D01/05/2024',
+      'T-12.50',
+      'PJoe\'s Coffee',
+      'MCard 1234',
+      'LDining Out',
+      '^',
+      'D01/06/2024',
+      'U-300.00',
+      'N1042',
+      'PLandlord',
+      '^',
+    ].join('\r\n');
+
+    expect(parseQif(content)).toEqual([
+      { row: 1, date: '01/05/2024', amount: '-12.50', payee: 'Joe\'s Coffee', memo: 'Card 1234', category: 'Dining Out', checkNumber: null },
+      { row: 2, date: '01/06/2024', amount: '-300.00', payee: 'Landlord', memo: null, category: null, checkNumber: '1042' },
+    ]);
+  });
+
+  it('keeps the first value of fields repeated by split lines', () => {
+    const content = [
+      '!Type:CCard',
+      'D2024-02-01',
+      'T-100.00',
+      'PSupermarket',
+      'LGroceries',
+      'SGroceries',
+      '$-60.00',
+      'SHousehold',
+      'EDetergent',
+      '$-40.00',
+      '^',
+    ].join('\n');
+
+    const [transaction] = parseQif(content);
+
+    expect(transaction.amount).toBe('-100.00');
+    expect(transaction.category).toBe('Groceries');
+    expect(transaction.memo).toBeNull();
+  });
+
+  it('skips lists that are not transactions', () => {
+    const content = [
+      '!Type:Cat',
+      'NGroceries',
+      'E',
+      '^',
+      '!Account',
+      'NChecking',
+      'TBank',
+      '^',
+      '!Type:Cash',
+      'D03/01/2024',
+      'T-5',
+      'PKiosk',
+      '',
+    ].join('\n');
+
+    expect(parseQif(content)).toEqual([
+      { row: 1, date: '03/01/2024', amount: '-5', payee: 'Kiosk', memo: null, category: null, checkNumber: null },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+// Raw values of one transaction record of a QIF file
+export interface QifTransaction {
+  row: number;
+  date: string | null;
+  amount: string | null;
+  payee: string | null;
+  memo: string | null;
+  category: string | null;
+  checkNumber: string | null;
+}
+
+// Account types whose records are transactions; lists such as !Type:Cat or !Account are skipped
+const TRANSACTION_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l', 'invst'];
+
+/**
+ * Parse the transactions of a QIF file
+ * Records are separated by "^" lines; split lines (S, E, $) are ignored
+ *
+ * @param content - File content
+ * @returns Transactions in file order, numbered from 1
+ */
+export function parseQif(content: string): QifTransaction[] {
+  const transactions: QifTransaction[] = [];
+  let inTransactions = false;
+  let record: Record<string, string> = {};
+
+  const flush = () => {
+    if (inTransactions && Object.keys(record).length > 0) {
+      transactions.push({
+        row: transactions.length + 1,
+        date: record.D || null,
+        // U holds the same amount with more precision in newer exports
+        amount: record.T || record.U || null,
+        payee: record.P || null,
+        memo: record.M || null,
+        category: record.L || null,
+        checkNumber: record.N || null,
+      });
+    }
+    record = {};
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      continue;
+    }
+
+    if (line.startsWith('!')) {
+      flush();
+      const header = line.toLowerCase();
+      inTransactions = header.startsWith('!type:') && TRANSACTION_TYPES.includes(header.slice(6).trim());
+      continue;
+    }
+
+    if (line === '^') {
+      flush();
+      continue;
+    }
+
+    const code = line[0];
+
+    // Keep the first value of each field, split details repeat S/E/$ per split
+    if (!(code in record)) {
+      record[code] = line.slice(1).trim();
+    }
+  }
+
+  flush();
+
+  return transactions;
+}
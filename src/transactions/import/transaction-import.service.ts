@@ -0,0 +1,768 @@
+import { BadRequestException, ForbiddenException, HttpException, Injectable, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CalendarService, UserCalendar } from 'src/common/calendar';
+import { MoneyFormatService } from 'src/common/formatting';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { CategoryRulesService } from 'src/category-rules/category-rules.service';
+import { findMatchingRule } from 'src/category-rules/rule-matcher';
+import { TransactionsService } from '../transactions.service';
+import { TransactionTypeEnum } from '../dto/create-transaction.dto';
+import { ImportTransactionsDto } from '../dto/import-transactions.dto';
+import { ImportRowStatusEnum, ImportSourceEnum } from '../models/import-result.model';
+import { parseCsv } from './csv.parser';
+import { parseOfx } from './ofx.parser';
+import { parseQif } from './qif.parser';
+
+// Transaction read from one row of an import file, before categories and duplicates are resolved
+export interface ImportCandidate {
+  row: number;
+  date?: Date;
+  amount?: number;
+  type?: TransactionTypeEnum;
+  description?: string | null;
+  notes?: string | null;
+  categoryName?: string | null;
+  // FITID or content hash identifying the row across imports
+  externalId?: string;
+  errors: string[];
+}
+
+interface ImportOptions {
+  source: ImportSourceEnum;
+  fileName?: string;
+  dryRun: boolean;
+  includeDuplicates: boolean;
+  categoryId?: string;
+  accountId?: string;
+}
+
+interface NumberFormat {
+  decimalSeparator: string;
+  thousandsSeparator: string;
+}
+
+interface CsvColumns {
+  date: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  type?: number;
+  description?: number;
+  notes?: number;
+  category?: number;
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Values of the type column accepted for each transaction type
+const EXPENSE_TYPE_VALUES = ['EXPENSE', 'DEBIT', 'DR', 'D'];
+const INCOME_TYPE_VALUES = ['INCOME', 'CREDIT', 'CR', 'C'];
+
+// Date formats tried for QIF files when the request does not set one
+const QIF_DATE_FORMATS = ['M/d/yy', 'M/d/yyyy', 'M-d-yy', 'M-d-yyyy', 'yyyy-MM-dd'];
+
+@Injectable()
+export class TransactionImportService {
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+    private moneyFormat: MoneyFormatService,
+    private categoryRules: CategoryRulesService,
+    private transactionsService: TransactionsService,
+  ) {}
+
+  // Import transactions from a bank statement file, in the given format or the one matching its extension
+  async importFile(userId: string, file: Express.Multer.File | undefined, dto: ImportTransactionsDto) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    const format = dto.format ?? this.detectFormat(file.originalname);
+    const content = file.buffer.toString('utf8');
+
+    // Amounts follow the user's number format unless the request overrides it
+    const [userCalendar, preferences] = await Promise.all([
+      this.calendar.getUserCalendar(userId),
+      this.moneyFormat.getPreferences(userId),
+    ]);
+    const numberFormat = {
+      decimalSeparator: dto.decimalSeparator ?? preferences.decimalSeparator,
+      thousandsSeparator: dto.thousandsSeparator ?? preferences.thousandsSeparator,
+    };
+
+    if (numberFormat.decimalSeparator === numberFormat.thousandsSeparator) {
+      throw new BadRequestException('Decimal and thousands separators must be different');
+    }
+
+    let candidates: ImportCandidate[];
+
+    switch (format) {
+      case ImportSourceEnum.OFX:
+      case ImportSourceEnum.QFX:
+        candidates = this.readOfx(content, userCalendar);
+        break;
+      case ImportSourceEnum.QIF:
+        candidates = this.readQif(content, dto.dateFormat, numberFormat, userCalendar);
+        break;
+      case ImportSourceEnum.CSV:
+      default:
+        candidates = this.readCsv(content, dto, numberFormat, userCalendar);
+    }
+
+    if (candidates.length === 0) {
+      throw new BadRequestException('File does not contain any transactions');
+    }
+
+    if (candidates.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`File contains more than ${MAX_IMPORT_ROWS} transactions`);
+    }
+
+    return this.processCandidates(userId, candidates, userCalendar, {
+      source: format,
+      fileName: file.originalname,
+      dryRun: dto.dryRun !== false,
+      includeDuplicates: dto.includeDuplicates === true,
+      categoryId: dto.categoryId,
+      accountId: dto.accountId,
+    });
+  }
+
+  // Get the import batches of a user, most recent first
+  async getImportBatches(userId: string) {
+    return this.prisma.importBatch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Roll back an import batch, deleting the transactions it created
+  async rollbackImportBatch(userId: string, batchId: string) {
+    const batch = await this.prisma.importBatch.findUnique({
+      where: { id: batchId },
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Import batch not found');
+    }
+
+    if (batch.userId !== userId) {
+      throw new ForbiddenException('Access to resource denied');
+    }
+
+    return this.prisma.$transaction(async (prisma) => {
+      // Claim the rollback so concurrent requests cannot run it twice
+      const claimed = await prisma.importBatch.updateMany({
+        where: { id: batchId, rolledBack: false },
+        data: { rolledBack: true, rolledBackAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new BadRequestException('Import batch was already rolled back');
+      }
+
+      await prisma.transactionSplit.deleteMany({
+        where: { transaction: { importBatchId: batchId, userId } },
+      });
+
+      await prisma.goalContribution.updateMany({
+        where: { transaction: { importBatchId: batchId, userId } },
+        data: { transactionId: null },
+      });
+
+      await prisma.transaction.deleteMany({
+        where: { importBatchId: batchId, userId },
+      });
+
+      return prisma.importBatch.findUnique({
+        where: { id: batchId },
+      });
+    });
+  }
+
+  /**
+   * Resolve categories and duplicates of the rows read from an import file
+   * Rows take the category named in the file, else the one of the first matching rule, else the default category
+   * Dry runs only return the preview; otherwise all rows are created in one batch, or none if any row is invalid
+   *
+   * @param userId - Current authenticated user ID
+   * @param candidates - Transactions read from the file
+   * @param userCalendar - Calendar settings of the user
+   * @param options - Import options
+   * @returns Import summary with the result of each row
+   */
+  private async processCandidates(
+    userId: string,
+    candidates: ImportCandidate[],
+    userCalendar: UserCalendar,
+    options: ImportOptions,
+  ) {
+    const categories = await this.prisma.category.findMany({
+      where: { userId, ...NOT_DELETED },
+      select: { id: true, name: true, type: true },
+    });
+
+    const rules = await this.categoryRules.getActiveRules(userId);
+
+    if (options.categoryId && !categories.some(category => category.id === options.categoryId)) {
+      throw new NotFoundException('Category not found or does not belong to user');
+    }
+
+    if (options.accountId) {
+      const account = await this.prisma.account.findFirst({
+        where: { id: options.accountId, userId },
+      });
+
+      if (!account) {
+        throw new NotFoundException('Account not found or does not belong to user');
+      }
+    }
+
+    // Existing transactions on the same days, counted per duplicate key
+    const existingCounts = await this.getExistingCounts(userId, candidates, userCalendar);
+
+    // Rows imported before, recognised by their FITID or content hash
+    const importedIds = await this.getImportedExternalIds(userId, candidates);
+
+    const rows = candidates.map(candidate => {
+      const errors = [...candidate.errors];
+      let categoryId: string | undefined;
+      let notes = candidate.notes ?? null;
+      let ruleId: string | null = null;
+
+      if (errors.length === 0) {
+        // Only a category of the row's type matches the name, a category of the other type is unmatched
+        const name = candidate.categoryName?.trim().toLowerCase();
+        const match = name
+          ? categories.find(category => category.type === candidate.type && category.name.toLowerCase() === name)
+          : undefined;
+        const rule = match ? undefined : findMatchingRule(rules, { ...candidate, amount: candidate.amount!, type: candidate.type! });
+
+        if (rule) {
+          ruleId = rule.id;
+          notes = notes || rule.notes;
+        }
+
+        categoryId = match?.id || rule?.categoryId || options.categoryId;
+
+        if (!categoryId) {
+          errors.push(candidate.categoryName
+            ? `No ${candidate.type} category "${candidate.categoryName}" found, no category rule matches and no default categoryId provided`
+            : 'No category provided, no category rule matches and no default categoryId provided');
+        }
+      }
+
+      if (errors.length > 0) {
+        return {
+          row: candidate.row,
+          status: ImportRowStatusEnum.ERROR,
+          errors,
+          ruleId,
+          transaction: null,
+        };
+      }
+
+      let duplicate = false;
+
+      if (candidate.externalId) {
+        duplicate = importedIds.has(candidate.externalId);
+        // A FITID repeated within the file is only imported once
+        importedIds.add(candidate.externalId);
+      }
+
+      if (!duplicate) {
+        const key = this.getDuplicateKey(candidate, userCalendar);
+        const existing = existingCounts.get(key) || 0;
+
+        // Each existing transaction matches at most one row, so repeated rows within a file are kept
+        if (existing > 0) {
+          existingCounts.set(key, existing - 1);
+          duplicate = true;
+        }
+      }
+
+      return {
+        row: candidate.row,
+        status: duplicate ? ImportRowStatusEnum.DUPLICATE : ImportRowStatusEnum.VALID,
+        errors,
+        ruleId,
+        transaction: {
+          date: candidate.date!,
+          amount: candidate.amount!,
+          type: candidate.type!,
+          description: candidate.description ?? null,
+          notes,
+          categoryId: categoryId!,
+          externalId: candidate.externalId ?? null,
+        },
+      };
+    });
+
+    await this.validateRows(userId, rows, options);
+
+    const validRows = rows.filter(row => row.status === ImportRowStatusEnum.VALID).length;
+    const duplicateRows = rows.filter(row => row.status === ImportRowStatusEnum.DUPLICATE).length;
+    const errorRows = rows.filter(row => row.status === ImportRowStatusEnum.ERROR).length;
+    const summary = {
+      totalRows: rows.length,
+      validRows,
+      duplicateRows,
+      errorRows,
+    };
+
+    if (options.dryRun) {
+      return { dryRun: true, batchId: null, ...summary, importedRows: 0, rows };
+    }
+
+    if (errorRows > 0) {
+      throw new BadRequestException(`File contains ${errorRows} invalid rows, run a dry run to review them`);
+    }
+
+    const toImport = rows.filter(row =>
+      row.status === ImportRowStatusEnum.VALID
+      || (options.includeDuplicates && row.status === ImportRowStatusEnum.DUPLICATE));
+
+    if (toImport.length === 0) {
+      throw new BadRequestException('File does not contain any new transactions');
+    }
+
+    // Create the batch and all its transactions atomically
+    const batch = await this.prisma.$transaction(async (prisma) => {
+      const createdBatch = await prisma.importBatch.create({
+        data: {
+          userId,
+          source: options.source,
+          fileName: options.fileName,
+          importedCount: toImport.length,
+          duplicateCount: duplicateRows,
+        },
+      });
+
+      await prisma.transaction.createMany({
+        data: toImport.map(row => ({
+          userId,
+          ...row.transaction!,
+          accountId: options.accountId,
+          importBatchId: createdBatch.id,
+        })),
+      });
+
+      return createdBatch;
+    });
+
+    return { dryRun: false, batchId: batch.id, ...summary, importedRows: toImport.length, rows };
+  }
+
+  // Helper method to run the checks of transactions entered by hand on every row, failing rows become errors
+  private async validateRows(
+    userId: string,
+    rows: { status: ImportRowStatusEnum; errors: string[]; transaction: { type: TransactionTypeEnum; amount: number; categoryId: string } | null }[],
+    options: ImportOptions,
+  ) {
+    // Rows with the same type and category pass or fail the same checks, each combination is checked once
+    const results = new Map<string, Promise<string | null>>();
+
+    for (const row of rows) {
+      if (!row.transaction) continue;
+
+      const input = { ...row.transaction, accountId: options.accountId };
+      const key = `${input.type}:${input.categoryId}`;
+
+      if (!results.has(key)) {
+        results.set(key, this.transactionsService.validateNewTransaction(userId, input).then(
+          () => null,
+          // Only rejected references become row errors, anything else fails the import
+          (error: unknown) => {
+            if (error instanceof HttpException) return error.message;
+            throw error;
+          },
+        ));
+      }
+
+      const error = await results.get(key);
+
+      if (error) {
+        row.status = ImportRowStatusEnum.ERROR;
+        row.errors.push(error);
+        row.transaction = null;
+      }
+    }
+  }
+
+  // Helper method to read the rows of a CSV file using the column mappings of the request
+  private readCsv(
+    content: string,
+    dto: ImportTransactionsDto,
+    numberFormat: NumberFormat,
+    userCalendar: UserCalendar,
+  ): ImportCandidate[] {
+    if (!dto.dateColumn) {
+      throw new BadRequestException('dateColumn must be provided for CSV files');
+    }
+
+    if (!dto.amountColumn && !dto.debitColumn && !dto.creditColumn) {
+      throw new BadRequestException('Either amountColumn or debitColumn/creditColumn must be provided');
+    }
+
+    const rows = parseCsv(content, dto.delimiter || ',');
+    const header = dto.hasHeader !== false ? rows.shift() : undefined;
+
+    const columns: CsvColumns = {
+      date: this.resolveColumn(dto.dateColumn, header)!,
+      amount: this.resolveColumn(dto.amountColumn, header),
+      debit: this.resolveColumn(dto.debitColumn, header),
+      credit: this.resolveColumn(dto.creditColumn, header),
+      type: this.resolveColumn(dto.typeColumn, header),
+      description: this.resolveColumn(dto.descriptionColumn, header),
+      notes: this.resolveColumn(dto.notesColumn, header),
+      category: this.resolveColumn(dto.categoryColumn, header),
+    };
+
+    const firstRow = header ? 2 : 1;
+
+    return rows.map((cells, index) => this.readCsvRow(cells, columns, firstRow + index, {
+      dateFormat: dto.dateFormat || 'yyyy-MM-dd',
+      ...numberFormat,
+      userCalendar,
+    }));
+  }
+
+  // Helper method to read one CSV row into an import candidate
+  private readCsvRow(
+    cells: string[],
+    columns: CsvColumns,
+    row: number,
+    format: NumberFormat & { dateFormat: string; userCalendar: UserCalendar },
+  ): ImportCandidate {
+    const cell = (index?: number) => (index === undefined ? '' : (cells[index] ?? '').trim());
+    const candidate: ImportCandidate = {
+      row,
+      description: cell(columns.description) || null,
+      notes: cell(columns.notes) || null,
+      categoryName: cell(columns.category) || null,
+      errors: [],
+    };
+
+    // Date
+    const dateValue = cell(columns.date);
+    candidate.date = dateValue ? this.calendar.parseDate(dateValue, format.dateFormat, format.userCalendar) ?? undefined : undefined;
+
+    if (!candidate.date) {
+      candidate.errors.push(dateValue
+        ? `Invalid date "${dateValue}", expected format ${format.dateFormat}`
+        : 'Date is missing');
+    }
+
+    // Amount and type, from a signed amount or from separate debit and credit columns
+    let signedAmount: number | null = null;
+    let invalidAmount = false;
+    const amountValues = columns.amount !== undefined
+      ? [{ value: cell(columns.amount), sign: 0 }]
+      : [{ value: cell(columns.debit), sign: -1 }, { value: cell(columns.credit), sign: 1 }];
+
+    for (const { value, sign } of amountValues) {
+      if (!value) {
+        continue;
+      }
+
+      const parsed = this.parseAmount(value, format.decimalSeparator, format.thousandsSeparator);
+
+      if (parsed === null) {
+        candidate.errors.push(`Invalid amount "${value}"`);
+        invalidAmount = true;
+      } else if (parsed !== 0) {
+        // Debit and credit columns decide the sign themselves
+        signedAmount = sign === 0 ? parsed : sign * Math.abs(parsed);
+        break;
+      }
+    }
+
+    if (signedAmount === null) {
+      if (!invalidAmount) {
+        candidate.errors.push('Amount is missing or zero');
+      }
+    } else {
+      candidate.amount = Math.abs(signedAmount);
+      candidate.type = signedAmount < 0 ? TransactionTypeEnum.EXPENSE : TransactionTypeEnum.INCOME;
+    }
+
+    // An explicit type column wins over the amount sign
+    const typeValue = cell(columns.type).toUpperCase();
+
+    if (typeValue) {
+      if (EXPENSE_TYPE_VALUES.includes(typeValue)) {
+        candidate.type = TransactionTypeEnum.EXPENSE;
+      } else if (INCOME_TYPE_VALUES.includes(typeValue)) {
+        candidate.type = TransactionTypeEnum.INCOME;
+      } else {
+        candidate.errors.push(`Invalid type "${cell(columns.type)}"`);
+      }
+    }
+
+    return candidate;
+  }
+
+  // Helper method to read the statement transactions of an OFX or QFX file
+  private readOfx(content: string, userCalendar: UserCalendar): ImportCandidate[] {
+    const seenContent = new Map<string, number>();
+
+    return parseOfx(content).map(record => {
+      const candidate: ImportCandidate = {
+        row: record.row,
+        description: record.name,
+        notes: record.memo,
+        // FITIDs are only unique within an account
+        externalId: record.fitId
+          ? [record.accountId, record.fitId].filter(Boolean).join(':')
+          : this.hashContent([record.accountId, record.datePosted, record.amount, record.name, record.memo], seenContent),
+        errors: [],
+      };
+
+      candidate.date = record.datePosted ? this.parseOfxDate(record.datePosted, userCalendar) ?? undefined : undefined;
+
+      if (!candidate.date) {
+        candidate.errors.push(record.datePosted ? `Invalid date "${record.datePosted}"` : 'Date is missing');
+      }
+
+      // OFX amounts always use a decimal point, without grouping
+      this.applyAmount(candidate, record.amount, '.', '');
+
+      // Explicit debits and credits win over the amount sign
+      if (candidate.amount !== undefined && record.trnType) {
+        const trnType = record.trnType.toUpperCase();
+
+        if (trnType === 'DEBIT') {
+          candidate.type = TransactionTypeEnum.EXPENSE;
+        } else if (trnType === 'CREDIT') {
+          candidate.type = TransactionTypeEnum.INCOME;
+        }
+      }
+
+      return candidate;
+    });
+  }
+
+  // Helper method to read the transactions of a QIF file
+  private readQif(
+    content: string,
+    dateFormat: string | undefined,
+    numberFormat: NumberFormat,
+    userCalendar: UserCalendar,
+  ): ImportCandidate[] {
+    const seenContent = new Map<string, number>();
+
+    return parseQif(content).map(record => {
+      const candidate: ImportCandidate = {
+        row: record.row,
+        description: record.payee,
+        notes: record.memo,
+        // Transfers are written as [Account]; categories as Category:Subcategory/Class
+        categoryName: record.category && !record.category.startsWith('[')
+          ? record.category.split('/')[0].split(':')[0].trim() || null
+          : null,
+        // QIF has no transaction IDs, so rows are recognised by their content
+        externalId: this.hashContent([record.date, record.amount, record.payee, record.memo, record.checkNumber], seenContent),
+        errors: [],
+      };
+
+      candidate.date = record.date ? this.parseQifDate(record.date, dateFormat, userCalendar) ?? undefined : undefined;
+
+      if (!candidate.date) {
+        candidate.errors.push(record.date ? `Invalid date "${record.date}"` : 'Date is missing');
+      }
+
+      this.applyAmount(candidate, record.amount, numberFormat.decimalSeparator, numberFormat.thousandsSeparator);
+
+      return candidate;
+    });
+  }
+
+  // Helper method to set the amount and type of a candidate from a signed amount
+  private applyAmount(candidate: ImportCandidate, value: string | null, decimalSeparator: string, thousandsSeparator: string) {
+    const parsed = value ? this.parseAmount(value, decimalSeparator, thousandsSeparator) : null;
+
+    if (value && parsed === null) {
+      candidate.errors.push(`Invalid amount "${value}"`);
+    } else if (!parsed) {
+      candidate.errors.push('Amount is missing or zero');
+    } else {
+      candidate.amount = Math.abs(parsed);
+      candidate.type = parsed < 0 ? TransactionTypeEnum.EXPENSE : TransactionTypeEnum.INCOME;
+    }
+  }
+
+  // Helper method to parse an OFX date such as 20230515, 20230515120000.000 or 20230515120000[-5:EST]
+  private parseOfxDate(value: string, userCalendar: UserCalendar): Date | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?/);
+
+    if (!match) {
+      return null;
+    }
+
+    const [, year, month, day, hours, minutes, seconds, offset] = match;
+
+    // A bare date is a calendar day for the user, like dates in CSV files
+    if (hours === undefined && offset === undefined) {
+      return this.calendar.parseDate(`${year}-${month}-${day}`, 'yyyy-MM-dd', userCalendar);
+    }
+
+    // Times without an offset are in GMT, as the OFX specification requires
+    const utc = Date.UTC(+year, +month - 1, +day, +(hours || 0), +(minutes || 0), +(seconds || 0));
+    const date = new Date(utc - parseFloat(offset || '0') * 60 * 60 * 1000);
+
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Helper method to parse a QIF date; Quicken writes years after 1999 with an apostrophe, e.g. 5/15'23
+  private parseQifDate(value: string, dateFormat: string | undefined, userCalendar: UserCalendar): Date | null {
+    const normalized = value
+      .replace(/'\s*(\d)$/, '/0$1')
+      .replace(/'\s*/, '/')
+      .replace(/\s+/g, '');
+    const formats = dateFormat ? [dateFormat] : QIF_DATE_FORMATS;
+
+    for (const format of formats) {
+      const date = this.calendar.parseDate(normalized, format, userCalendar);
+
+      if (date) {
+        return date;
+      }
+    }
+
+    return null;
+  }
+
+  // Helper method to hash the content of a row; identical rows within a file get distinct hashes
+  private hashContent(values: (string | null)[], seen: Map<string, number>) {
+    const content = values.map(value => value ?? '').join('|');
+    const occurrence = seen.get(content) || 0;
+    seen.set(content, occurrence + 1);
+
+    return createHash('sha256').update(`${content}#${occurrence}`).digest('hex');
+  }
+
+  // Helper method to pick the import format from the file extension, CSV if unknown
+  private detectFormat(fileName?: string): ImportSourceEnum {
+    const extension = fileName?.split('.').pop()?.toUpperCase();
+    const formats = [ImportSourceEnum.OFX, ImportSourceEnum.QFX, ImportSourceEnum.QIF] as string[];
+
+    return extension && formats.includes(extension) ? extension as ImportSourceEnum : ImportSourceEnum.CSV;
+  }
+
+  // Helper method to parse an amount such as "1.234,56", "(12.50)", "12.50-" or "$ 1,200"
+  private parseAmount(value: string, decimalSeparator: string, thousandsSeparator: string): number | null {
+    let text = value.trim();
+    let negative = false;
+
+    if (text.startsWith('(') && text.endsWith(')')) {
+      negative = true;
+      text = text.slice(1, -1);
+    }
+
+    if (text.endsWith('-')) {
+      negative = true;
+      text = text.slice(0, -1);
+    }
+
+    if (thousandsSeparator) {
+      text = text.split(thousandsSeparator).join('');
+    }
+
+    // Drop currency symbols and spaces, then normalise the decimal separator
+    text = text.split(decimalSeparator).map(part => part.replace(/[^\d+-]/g, '')).join('.');
+
+    if (!/^[+-]?\d+(\.\d+)?$/.test(text)) {
+      return null;
+    }
+
+    const amount = parseFloat(text);
+
+    return negative ? -Math.abs(amount) : amount;
+  }
+
+  // Helper method to find a column by header name or zero-based index
+  private resolveColumn(reference: string | undefined, header?: string[]) {
+    if (!reference) {
+      return undefined;
+    }
+
+    const normalized = reference.trim().toLowerCase();
+    const headerIndex = header ? header.findIndex(name => name.trim().toLowerCase() === normalized) : -1;
+
+    if (headerIndex >= 0) {
+      return headerIndex;
+    }
+
+    if (/^\d+$/.test(normalized)) {
+      return parseInt(normalized, 10);
+    }
+
+    throw new BadRequestException(`Column "${reference}" not found in the file`);
+  }
+
+  // Helper method to count the user's transactions on the days covered by the import, per duplicate key
+  private async getExistingCounts(userId: string, candidates: ImportCandidate[], userCalendar: UserCalendar) {
+    const counts = new Map<string, number>();
+    const dates = candidates
+      .filter(candidate => candidate.date)
+      .map(candidate => candidate.date!.getTime());
+
+    if (dates.length === 0) {
+      return counts;
+    }
+
+    const existing = await this.prisma.transaction.findMany({
+      where: {
+        userId,
+        ...NOT_DELETED,
+        date: {
+          gte: this.calendar.getDayRange(new Date(Math.min(...dates)), userCalendar).startDate,
+          lte: this.calendar.getDayRange(new Date(Math.max(...dates)), userCalendar).endDate,
+        },
+      },
+      select: { date: true, amount: true, type: true, description: true },
+    });
+
+    for (const transaction of existing) {
+      const key = this.getDuplicateKey(transaction, userCalendar);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+
+    return counts;
+  }
+
+  // Helper method to find which external IDs of the import already belong to the user's transactions
+  private async getImportedExternalIds(userId: string, candidates: ImportCandidate[]) {
+    const externalIds = candidates
+      .filter(candidate => candidate.externalId)
+      .map(candidate => candidate.externalId!);
+
+    if (externalIds.length === 0) {
+      return new Set<string>();
+    }
+
+    const imported = await this.prisma.transaction.findMany({
+      where: {
+        userId,
+        ...NOT_DELETED,
+        externalId: { in: externalIds },
+      },
+      select: { externalId: true },
+    });
+
+    return new Set(imported.map(transaction => transaction.externalId!));
+  }
+
+  // Helper method to build the key two transactions must share to be considered duplicates
+  private getDuplicateKey(
+    transaction: { date?: Date; amount?: number; type?: string; description?: string | null },
+    userCalendar: UserCalendar,
+  ) {
+    return [
+      this.calendar.formatDate(transaction.date!, 'yyyy-MM-dd', userCalendar),
+      transaction.type,
+      transaction.amount!.toFixed(2),
+      (transaction.description || '').trim().toLowerCase(),
+    ].join('|');
+  }
+}
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CategoryTypeEnum } from 'src/categories/dto/create-category.dto';
+
+class SuggestedCategoryInfo {
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Groceries',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Category icon',
+    example: 'shopping-cart',
+  })
+  icon: string;
+
+  @ApiProperty({
+    description: 'Category color',
+    example: '#4CAF50',
+  })
+  color: string;
+
+  @ApiProperty({
+    description: 'Category type',
+    enum: CategoryTypeEnum,
+    example: CategoryTypeEnum.EXPENSE,
+  })
+  type: CategoryTypeEnum;
+}
+
+export class CategorySuggestionModel {
+  @ApiProperty({
+    description: 'Suggested category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Suggested category',
+    type: SuggestedCategoryInfo,
+  })
+  category: SuggestedCategoryInfo;
+
+  @ApiProperty({
+    description: 'Estimated probability that the category is the right one, between 0 and 1',
+    example: 0.87,
+  })
+  confidence: number;
+
+  @ApiProperty({
+    description: 'Number of past transactions of the category the suggestion learned from',
+    example: 42,
+  })
+  transactionCount: number;
+}
@@ -0,0 +1,209 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionTypeEnum } from '../dto/create-transaction.dto';
+
+export enum ImportRowStatusEnum {
+  VALID = 'VALID',
+  DUPLICATE = 'DUPLICATE',
+  ERROR = 'ERROR',
+}
+
+export enum ImportSourceEnum {
+  CSV = 'CSV',
+  OFX = 'OFX',
+  QFX = 'QFX',
+  QIF = 'QIF',
+}
+
+class ImportedTransactionInfo {
+  @ApiProperty({
+    description: 'Transaction date',
+    example: '2023-05-15T00:00:00Z',
+  })
+  date: Date;
+
+  @ApiProperty({
+    description: 'Transaction amount',
+    example: 45.99,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Transaction type',
+    enum: TransactionTypeEnum,
+    example: TransactionTypeEnum.EXPENSE,
+  })
+  type: TransactionTypeEnum;
+
+  @ApiProperty({
+    description: 'Transaction description',
+    example: 'SUPERMARKET 1234',
+    nullable: true,
+  })
+  description: string | null;
+
+  @ApiProperty({
+    description: 'Transaction notes',
+    example: null,
+    nullable: true,
+  })
+  notes: string | null;
+
+  @ApiProperty({
+    description: 'Category the transaction is assigned to',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Bank transaction ID (OFX FITID) or content hash (QIF) used to detect rows imported before',
+    example: '20230515001',
+    nullable: true,
+  })
+  externalId: string | null;
+}
+
+export class ImportRowModel {
+  @ApiProperty({
+    description: 'Row number in a CSV file counting the header row, or position of the transaction in OFX/QFX/QIF files',
+    example: 2,
+  })
+  row: number;
+
+  @ApiProperty({
+    description: 'Outcome of the row',
+    enum: ImportRowStatusEnum,
+    example: ImportRowStatusEnum.VALID,
+  })
+  status: ImportRowStatusEnum;
+
+  @ApiProperty({
+    description: 'Validation errors of the row',
+    example: [],
+    type: [String],
+  })
+  errors: string[];
+
+  @ApiProperty({
+    description: 'Category rule that picked the category of the row, null if the file named the category or none matched',
+    example: null,
+    nullable: true,
+  })
+  ruleId: string | null;
+
+  @ApiProperty({
+    description: 'Transaction read from the row, null if the row is invalid',
+    type: ImportedTransactionInfo,
+    nullable: true,
+  })
+  transaction: ImportedTransactionInfo | null;
+}
+
+export class ImportResultModel {
+  @ApiProperty({
+    description: 'Whether this was a dry run',
+    example: true,
+  })
+  dryRun: boolean;
+
+  @ApiProperty({
+    description: 'Import batch ID, null for dry runs',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    nullable: true,
+  })
+  batchId: string | null;
+
+  @ApiProperty({
+    description: 'Number of rows read from the file',
+    example: 42,
+  })
+  totalRows: number;
+
+  @ApiProperty({
+    description: 'Number of valid rows',
+    example: 39,
+  })
+  validRows: number;
+
+  @ApiProperty({
+    description: 'Number of rows already imported or matching an existing transaction',
+    example: 2,
+  })
+  duplicateRows: number;
+
+  @ApiProperty({
+    description: 'Number of invalid rows',
+    example: 1,
+  })
+  errorRows: number;
+
+  @ApiProperty({
+    description: 'Number of transactions created (0 for dry runs)',
+    example: 0,
+  })
+  importedRows: number;
+
+  @ApiProperty({
+    description: 'Result of each row',
+    type: [ImportRowModel],
+  })
+  rows: ImportRowModel[];
+}
+
+export class ImportBatchModel {
+  @ApiProperty({
+    description: 'Import batch ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'File format of the import',
+    enum: ImportSourceEnum,
+    example: ImportSourceEnum.CSV,
+  })
+  source: ImportSourceEnum;
+
+  @ApiProperty({
+    description: 'Name of the uploaded file',
+    example: 'statement-may.csv',
+    nullable: true,
+  })
+  fileName: string | null;
+
+  @ApiProperty({
+    description: 'Number of transactions created',
+    example: 39,
+  })
+  importedCount: number;
+
+  @ApiProperty({
+    description: 'Number of duplicate rows in the file',
+    example: 2,
+  })
+  duplicateCount: number;
+
+  @ApiProperty({
+    description: 'Whether the import was rolled back',
+    example: false,
+  })
+  rolledBack: boolean;
+
+  @ApiProperty({
+    description: 'Date the import was rolled back',
+    example: null,
+    nullable: true,
+  })
+  rolledBackAt: Date | null;
+
+  @ApiProperty({
+    description: 'User ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Import date',
+    example: '2023-05-15T14:30:00Z',
+  })
+  createdAt: Date;
+}
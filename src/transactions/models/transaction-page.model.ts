@@ -0,0 +1,69 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionModel } from './transaction.model';
+
+class TransactionPageInfo {
+  @ApiProperty({
+    description: 'Maximum number of transactions in the page',
+    example: 50,
+  })
+  limit: number;
+
+  @ApiProperty({
+    description: 'Whether more transactions follow this page',
+    example: true,
+  })
+  hasMore: boolean;
+
+  @ApiProperty({
+    description: 'Cursor to pass to get the next page, null on the last page',
+    example: 'eyJ2IjoiMjAyMy0wNS0xNVQxNDozMDowMC4wMDBaIiwiaWQiOiI2NDYyMWYifQ',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
+
+class TransactionTotals {
+  @ApiProperty({
+    description: 'Number of transactions matching the filters, across all pages',
+    example: 132,
+  })
+  transactionCount: number;
+
+  @ApiProperty({
+    description: 'Total income of the matching transactions',
+    example: 2500.00,
+  })
+  totalIncome: number;
+
+  @ApiProperty({
+    description: 'Total expenses of the matching transactions',
+    example: 1750.45,
+  })
+  totalExpenses: number;
+
+  @ApiProperty({
+    description: 'Balance (income - expenses)',
+    example: 749.55,
+  })
+  balance: number;
+}
+
+export class TransactionPageModel {
+  @ApiProperty({
+    description: 'Transactions of the page',
+    type: [TransactionModel],
+  })
+  items: TransactionModel[];
+
+  @ApiProperty({
+    description: 'Pagination details',
+    type: TransactionPageInfo,
+  })
+  pageInfo: TransactionPageInfo;
+
+  @ApiProperty({
+    description: 'Totals of all transactions matching the filters, independent of the page',
+    type: TransactionTotals,
+  })
+  totals: TransactionTotals;
+}
@@ -27,6 +27,39 @@ class CategoryInfo {
   color: string;
 }
 
+class TransactionSplitInfo {
+  @ApiProperty({
+    description: 'Split line ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Part of the transaction amount attributed to the category',
+    example: 30.5,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Note about the split line',
+    example: 'Cleaning supplies',
+    nullable: true,
+  })
+  note: string | null;
+
+  @ApiProperty({
+    description: 'Category ID',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Category information',
+    type: CategoryInfo,
+  })
+  category: CategoryInfo;
+}
+
 export class TransactionModel {
   @ApiProperty({
     description: 'Transaction ID',
@@ -74,10 +107,11 @@ export class TransactionModel {
   userId: string;
 
   @ApiProperty({
-    description: 'Category ID',
+    description: 'Category ID, null for transfers',
     example: 'cl9ebqkxk000098l23xjp7y1z',
+    nullable: true,
   })
-  categoryId: string;
+  categoryId: string | null;
 
   @ApiProperty({
     description: 'Associated bill ID',
@@ -86,6 +120,48 @@ export class TransactionModel {
   })
   billId: string | null;
 
+  @ApiProperty({
+    description: 'Account the money moved in or out of, for transfers the account it was taken from',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    nullable: true,
+  })
+  accountId: string | null;
+
+  @ApiProperty({
+    description: 'Account a transfer moved the money to',
+    example: 'cl9ebqkxk000098l23xjp7y2a',
+    nullable: true,
+  })
+  transferAccountId: string | null;
+
+  @ApiProperty({
+    description: 'Recurring transaction that generated this transaction',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    nullable: true,
+  })
+  recurringTransactionId: string | null;
+
+  @ApiProperty({
+    description: 'Scheduled occurrence this transaction was generated for',
+    example: '2023-05-25T09:00:00Z',
+    nullable: true,
+  })
+  occurrenceDate: Date | null;
+
+  @ApiProperty({
+    description: 'Import batch that created this transaction',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+    nullable: true,
+  })
+  importBatchId: string | null;
+
+  @ApiProperty({
+    description: 'Bank transaction ID (OFX FITID) or content hash of the imported row',
+    example: '12345:20230515001',
+    nullable: true,
+  })
+  externalId: string | null;
+
   @ApiProperty({
     description: 'Transaction creation date',
     example: '2023-05-15T14:30:00Z',
@@ -99,8 +175,15 @@ export class TransactionModel {
   updatedAt: Date;
 
   @ApiProperty({
-    description: 'Category information',
+    description: 'Category information, null for transfers',
     type: CategoryInfo,
+    nullable: true,
   })
-  category: CategoryInfo;
-} 
\ No newline at end of file
+  category: CategoryInfo | null;
+
+  @ApiProperty({
+    description: 'Split lines attributing parts of the amount to other categories, empty if the transaction is not split',
+    type: [TransactionSplitInfo],
+  })
+  splits: TransactionSplitInfo[];
+}
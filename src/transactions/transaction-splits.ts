@@ -0,0 +1,33 @@
+// Part of a transaction amount attributed to one category
+export interface CategoryPortion<C> {
+  categoryId: string;
+  category: C;
+  amount: number;
+}
+
+/**
+ * Break a transaction down into the amounts it attributes to each category
+ * A transaction without split lines attributes its whole amount to its own category,
+ * transfers have no category and attribute nothing
+ *
+ * @param transaction - Transaction with its category and split lines
+ * @returns One portion per split line, or a single portion for the whole amount
+ */
+export function getCategoryPortions<C>(transaction: {
+  amount: number;
+  categoryId: string | null;
+  category: C | null;
+  splits?: { amount: number; categoryId: string; category: C }[];
+}): CategoryPortion<C>[] {
+  if (!transaction.splits || transaction.splits.length === 0) {
+    if (!transaction.categoryId || !transaction.category) return [];
+
+    return [{ categoryId: transaction.categoryId, category: transaction.category, amount: transaction.amount }];
+  }
+
+  return transaction.splits.map(split => ({
+    categoryId: split.categoryId,
+    category: split.category,
+    amount: split.amount,
+  }));
+}
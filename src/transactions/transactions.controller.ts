@@ -1,74 +1,85 @@
-import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Query, UseGuards } from '@nestjs/common';
-import { ApiBearerAuth, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Query, UploadedFile, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiBody, ApiConsumes, ApiCreatedResponse, ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
 import { JwtGuard } from 'src/auth/guard';
 import { GetUser } from 'src/auth/decorator';
 import { TransactionsService } from './transactions.service';
-import { CreateTransactionDto, TransactionTypeEnum } from './dto/create-transaction.dto';
+import { CreateTransactionDto } from './dto/create-transaction.dto';
 import { UpdateTransactionDto } from './dto/update-transaction.dto';
+import { GetTransactionsQueryDto } from './dto/get-transactions-query.dto';
 import { TransactionModel } from './models/transaction.model';
+import { TransactionPageModel } from './models/transaction-page.model';
 import { ParseDatePipe } from './pipes/parse-date.pipe';
 import { TransactionStatsModel } from './models/transaction-stats.model';
+import { SupportsDisplayFormat } from 'src/common/formatting';
+import { ImportTransactionsDto } from './dto/import-transactions.dto';
+import { ImportBatchModel, ImportResultModel } from './models/import-result.model';
+import { TransactionImportService } from './import/transaction-import.service';
+import { SuggestCategoryQueryDto } from './dto/suggest-category-query.dto';
+import { CategorySuggestionModel } from './models/category-suggestion.model';
+
+// Largest statement file accepted by the import endpoint
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
 
 @ApiTags('transactions')
 @ApiBearerAuth('JWT-auth')
 @ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
 @UseGuards(JwtGuard)
+@SupportsDisplayFormat()
 @Controller('transactions')
 export class TransactionsController {
-  constructor(private transactionService: TransactionsService) {}
+  constructor(
+    private transactionService: TransactionsService,
+    private transactionImportService: TransactionImportService,
+  ) {}
 
   /**
-   * Get all transactions for the authenticated user
-   * With optional filtering by date range, type, and category
+   * Get the transactions of the authenticated user, one page at a time
+   * With optional filtering by date range, type, categories, amount range and text
    * 
    * @param userId - Current authenticated user ID
-   * @param fromDate - Optional start date for filtering
-   * @param toDate - Optional end date for filtering
-   * @param type - Optional transaction type filter
-   * @param categoryId - Optional category filter
-   * @returns Array of transactions
+   * @param query - Filters, sorting and pagination options
+   * @returns Page of transactions with the totals of the filtered set
    */
   @Get()
   @ApiOperation({
-    summary: 'Get all transactions',
-    description: 'Retrieves all transactions for the current user with optional filtering',
-  })
-  @ApiQuery({
-    name: 'fromDate',
-    required: false,
-    type: String,
-    description: 'Start date for filtering (ISO format)',
-  })
-  @ApiQuery({
-    name: 'toDate',
-    required: false,
-    type: String,
-    description: 'End date for filtering (ISO format)',
+    summary: 'Get transactions',
+    description: 'Retrieves a page of the current user\'s transactions with optional filtering and sorting. Pass pageInfo.nextCursor as cursor to get the next page',
   })
-  @ApiQuery({
-    name: 'type',
-    required: false,
-    enum: TransactionTypeEnum,
-    description: 'Filter transactions by type',
+  @ApiOkResponse({
+    description: 'Page of transactions retrieved successfully',
+    type: TransactionPageModel,
   })
-  @ApiQuery({
-    name: 'categoryId',
-    required: false,
-    type: String,
-    description: 'Filter transactions by category ID',
+  @ApiBadRequestResponse({ description: 'Bad Request - Invalid filter or cursor' })
+  getTransactions(
+    @GetUser('id') userId: string,
+    @Query() query: GetTransactionsQueryDto,
+  ) {
+    return this.transactionService.getTransactions(userId, query);
+  }
+
+  /**
+   * Suggest categories for a transaction description
+   * Learned from the user's own categorised transactions, without any external service
+   * 
+   * @param userId - Current authenticated user ID
+   * @param query - Description, and optionally the amount and type, of the transaction
+   * @returns Categories ranked by confidence
+   */
+  @Get('suggest-category')
+  @ApiOperation({
+    summary: 'Suggest categories',
+    description: 'Ranks the user\'s categories for a transaction description (and optional amount) using their past transactions',
   })
   @ApiOkResponse({
-    description: 'List of transactions retrieved successfully',
-    type: [TransactionModel],
+    description: 'Suggested categories, most likely first; empty when there is no history to learn from',
+    type: [CategorySuggestionModel],
   })
-  getTransactions(
+  suggestCategories(
     @GetUser('id') userId: string,
-    @Query('fromDate', ParseDatePipe) fromDate?: Date,
-    @Query('toDate', ParseDatePipe) toDate?: Date,
-    @Query('type') type?: TransactionTypeEnum,
-    @Query('categoryId') categoryId?: string,
+    @Query() query: SuggestCategoryQueryDto,
   ) {
-    return this.transactionService.getTransactions(userId, fromDate, toDate, type, categoryId);
+    return this.transactionService.suggestCategories(userId, query);
   }
 
   /**
@@ -110,12 +121,13 @@ export class TransactionsController {
   @Post()
   @ApiOperation({
     summary: 'Create a new transaction',
-    description: 'Creates a new transaction for the current user',
+    description: 'Creates a new transaction for the current user. Without a categoryId the first matching category rule picks the category; if none matches, the 400 response lists suggested categories in `suggestions`',
   })
   @ApiCreatedResponse({
     description: 'The transaction has been successfully created',
     type: TransactionModel,
   })
+  @ApiBadRequestResponse({ description: 'Bad Request - No categoryId and no matching category rule, see suggestions' })
   createTransaction(
     @GetUser('id') userId: string,
     @Body() dto: CreateTransactionDto,
@@ -165,7 +177,7 @@ export class TransactionsController {
   @Delete(':id')
   @ApiOperation({
     summary: 'Delete a transaction',
-    description: 'Deletes a transaction by ID',
+    description: 'Moves a transaction to the trash, it can be restored from /trash until it is purged',
   })
   @ApiParam({
     name: 'id',
@@ -219,4 +231,86 @@ export class TransactionsController {
   ) {
     return this.transactionService.getTransactionStats(userId, fromDate, toDate);
   }
+
+  /**
+   * Import transactions from a bank statement (CSV, OFX, QFX or QIF)
+   * Runs as a dry run by default, returning the preview of each row
+   * 
+   * @param userId - Current authenticated user ID
+   * @param file - Uploaded statement file
+   * @param dto - Column mappings, formats and import options
+   * @returns Import summary with the result of each row
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: ImportTransactionsDto })
+  @ApiOperation({
+    summary: 'Import transactions from a bank statement',
+    description: 'Reads a CSV (using the given column mappings), OFX, QFX or QIF bank statement. Rows imported before are detected by FITID or content hash. A dry run returns the preview with duplicates and validation errors; otherwise all rows are created in one batch, or none if any row is invalid.',
+  })
+  @ApiOkResponse({
+    description: 'File processed successfully',
+    type: ImportResultModel,
+  })
+  @ApiBadRequestResponse({ description: 'Missing file, unknown column, or invalid rows when not a dry run' })
+  @ApiNotFoundResponse({ description: 'Not Found - Default category does not exist' })
+  importTransactions(
+    @GetUser('id') userId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: ImportTransactionsDto,
+  ) {
+    return this.transactionImportService.importFile(userId, file, dto);
+  }
+
+  /**
+   * Get the import batches of the authenticated user
+   * 
+   * @param userId - Current authenticated user ID
+   * @returns Array of import batches, most recent first
+   */
+  @Get('import/batches')
+  @ApiOperation({
+    summary: 'Get import batches',
+    description: 'Retrieves the file imports of the current user, most recent first',
+  })
+  @ApiOkResponse({
+    description: 'Import batches retrieved successfully',
+    type: [ImportBatchModel],
+  })
+  getImportBatches(@GetUser('id') userId: string) {
+    return this.transactionImportService.getImportBatches(userId);
+  }
+
+  /**
+   * Roll back an import batch
+   * 
+   * @param userId - Current authenticated user ID
+   * @param batchId - ID of the import batch to roll back
+   * @returns The rolled back import batch
+   */
+  @HttpCode(HttpStatus.OK)
+  @Post('import/batches/:id/rollback')
+  @ApiOperation({
+    summary: 'Roll back an import',
+    description: 'Deletes all transactions created by an import batch',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Import batch ID',
+  })
+  @ApiOkResponse({
+    description: 'The import has been rolled back',
+    type: ImportBatchModel,
+  })
+  @ApiBadRequestResponse({ description: 'Import batch was already rolled back' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this import batch' })
+  @ApiNotFoundResponse({ description: 'Not Found - Import batch with the given ID does not exist' })
+  rollbackImportBatch(
+    @GetUser('id') userId: string,
+    @Param('id') batchId: string,
+  ) {
+    return this.transactionImportService.rollbackImportBatch(userId, batchId);
+  }
 }
@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { TransactionsController } from './transactions.controller';
 import { TransactionsService } from './transactions.service';
+import { TransactionImportService } from './import/transaction-import.service';
+import { CategoryRulesModule } from 'src/category-rules/category-rules.module';
 
 @Module({
+  imports: [CategoryRulesModule],
   controllers: [TransactionsController],
-  providers: [TransactionsService],
+  providers: [TransactionsService, TransactionImportService],
 })
 export class TransactionsModule {}
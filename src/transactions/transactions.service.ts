@@ -1,78 +1,161 @@
-import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { CreateTransactionDto, TransactionTypeEnum } from './dto/create-transaction.dto';
+import { CreateTransactionDto, TransactionSplitDto, TransactionTypeEnum } from './dto/create-transaction.dto';
 import { UpdateTransactionDto } from './dto/update-transaction.dto';
+import { GetTransactionsQueryDto, SortOrderEnum, TransactionSortFieldEnum } from './dto/get-transactions-query.dto';
+import { CalendarService } from 'src/common/calendar';
+import { NOT_DELETED } from 'src/trash/soft-delete';
+import { getCategoryPortions } from './transaction-splits';
+import { NOT_TRANSFER } from './transfers';
+import { CategoryExample, rankCategories } from './category-suggestions';
+import { SuggestCategoryQueryDto } from './dto/suggest-category-query.dto';
+import { CategoryRulesService } from 'src/category-rules/category-rules.service';
+
+// Number of recent transactions the category suggestions learn from
+const SUGGESTION_HISTORY_SIZE = 5000;
+
+// Fields of a new transaction checked before it is written, with its category already resolved
+export type NewTransactionInput = Pick<CreateTransactionDto, 'type' | 'amount' | 'accountId' | 'transferAccountId' | 'splits'> & {
+  categoryId?: string | null;
+};
 
 @Injectable()
 export class TransactionsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private calendar: CalendarService,
+    private categoryRules: CategoryRulesService,
+  ) {}
+
+  // Category fields and split lines returned with each transaction
+  private readonly transactionInclude = {
+    category: {
+      select: {
+        id: true,
+        name: true,
+        icon: true,
+        color: true,
+      },
+    },
+    splits: {
+      include: {
+        category: {
+          select: {
+            id: true,
+            name: true,
+            icon: true,
+            color: true,
+          },
+        },
+      },
+    },
+  };
+
+  /**
+   * Get one page of the user's transactions matching the filters
+   * Pages are cursor based: the sort value and ID of the last transaction tell where the next page starts,
+   * so pages stay consistent while transactions are added or removed
+   *
+   * @param userId - Current authenticated user ID
+   * @param query - Filters, sorting and pagination options
+   * @returns Page of transactions with the totals of the whole filtered set
+   */
+  async getTransactions(userId: string, query: GetTransactionsQueryDto) {
+    const sortBy = query.sortBy || TransactionSortFieldEnum.DATE;
+    const sortOrder = query.sortOrder || SortOrderEnum.DESC;
+    const limit = query.limit || 50;
 
-  // Get all transactions for a user with optional filtering
-  async getTransactions(
-    userId: string,
-    fromDate?: Date,
-    toDate?: Date,
-    type?: TransactionTypeEnum,
-    categoryId?: string,
-  ) {
     // Build the where clause dynamically based on provided filters
-    const whereClause: any = { userId };
+    const whereClause: any = { userId, ...NOT_DELETED };
 
-    if (fromDate) {
-      whereClause.date = {
-        ...(whereClause.date || {}),
-        gte: fromDate,
-      };
+    // Date-only filters cover whole days in the user's timezone
+    const dateFilter = await this.buildDateFilter(userId, query.fromDate, query.toDate);
+    if (dateFilter) {
+      whereClause.date = dateFilter;
+    }
+
+    if (query.type) {
+      whereClause.type = query.type;
+    }
+
+    if (query.accountId) {
+      whereClause.accountId = query.accountId;
     }
 
-    if (toDate) {
-      whereClause.date = {
-        ...(whereClause.date || {}),
-        lte: toDate,
+    // Filters combining several conditions are ANDed together
+    const conditions: any[] = [];
+
+    const categoryIds = [
+      ...(query.categoryIds || []),
+      ...(query.categoryId ? [query.categoryId] : []),
+    ];
+    if (categoryIds.length > 0) {
+      // Split transactions also match the categories of their split lines
+      conditions.push({
+        OR: [
+          { categoryId: { in: categoryIds } },
+          { splits: { some: { categoryId: { in: categoryIds } } } },
+        ],
+      });
+    }
+
+    if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+      whereClause.amount = {
+        ...(query.minAmount !== undefined && { gte: query.minAmount }),
+        ...(query.maxAmount !== undefined && { lte: query.maxAmount }),
       };
     }
 
-    if (type) {
-      whereClause.type = type;
+    const search = query.search?.trim();
+    if (search) {
+      conditions.push({
+        OR: [
+          { description: { contains: search, mode: 'insensitive' } },
+          { notes: { contains: search, mode: 'insensitive' } },
+        ],
+      });
     }
 
-    if (categoryId) {
-      whereClause.categoryId = categoryId;
+    if (conditions.length > 0) {
+      whereClause.AND = conditions;
     }
 
-    // Get transactions with category information
-    const transactions = await this.prisma.transaction.findMany({
-      where: whereClause,
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            icon: true,
-            color: true,
-          },
-        },
-      },
-      orderBy: { date: 'desc' },
-    });
+    // Resume after the last transaction of the previous page
+    const pageWhere = query.cursor
+      ? { AND: [whereClause, this.buildCursorFilter(query.cursor, sortBy, sortOrder)] }
+      : whereClause;
+
+    // Fetch one extra transaction to know whether another page follows
+    const [transactions, totals] = await Promise.all([
+      this.prisma.transaction.findMany({
+        where: pageWhere,
+        include: this.transactionInclude,
+        // The ID breaks ties between transactions with the same sort value
+        orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }],
+        take: limit + 1,
+      }),
+      this.getTotals(whereClause),
+    ]);
+
+    const hasMore = transactions.length > limit;
+    const items = transactions.slice(0, limit);
 
-    return transactions;
+    return {
+      items,
+      pageInfo: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? this.encodeCursor(items[items.length - 1], sortBy) : null,
+      },
+      totals,
+    };
   }
 
   // Get a specific transaction by ID
   async getTransactionById(userId: string, transactionId: string) {
     const transaction = await this.prisma.transaction.findUnique({
-      where: { id: transactionId },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            icon: true,
-            color: true,
-          },
-        },
-      },
+      where: { id: transactionId, ...NOT_DELETED },
+      include: this.transactionInclude,
     });
 
     if (!transaction) {
@@ -87,43 +170,63 @@ export class TransactionsService {
     return transaction;
   }
 
-  // Create a new transaction
+  // Create a new transaction, or a transfer between two accounts
+  // Income and expenses without a category get the category and notes of the first matching rule
   async createTransaction(userId: string, dto: CreateTransactionDto) {
     try {
-      // Verify that the category exists and belongs to the user
-      const category = await this.prisma.category.findFirst({
-        where: {
-          id: dto.categoryId,
-          userId,
-        },
-      });
-
-      if (!category) {
-        throw new NotFoundException('Category not found or does not belong to user');
+      const isTransfer = dto.type === TransactionTypeEnum.TRANSFER;
+      const splits = dto.splits || [];
+      let categoryId = dto.categoryId;
+      let notes = dto.notes;
+
+      if (!isTransfer && !categoryId) {
+        const rule = await this.categoryRules.findMatch(userId, dto);
+
+        // Without a matching rule the client has to pick the category, help it with the likely ones
+        if (!rule) {
+          const suggestions = await this.suggestCategories(userId, {
+            description: dto.description || '',
+            amount: dto.amount,
+            type: dto.type,
+          });
+
+          throw new BadRequestException({
+            statusCode: 400,
+            error: 'Bad Request',
+            message: 'categoryId is required, no category rule matches the transaction',
+            suggestions,
+          });
+        }
+
+        categoryId = rule.categoryId;
+        notes = notes || rule.notes || undefined;
       }
 
-      // Create the transaction
+      await this.validateNewTransaction(userId, { ...dto, categoryId });
+
+      // Create the transaction together with its split lines
       const transaction = await this.prisma.transaction.create({
         data: {
           userId,
           amount: dto.amount,
           description: dto.description,
-          notes: dto.notes,
+          notes,
           date: dto.date,
           type: dto.type,
-          categoryId: dto.categoryId,
+          // Transfers are neither earned nor spent, so they have no category
+          categoryId: isTransfer ? null : categoryId,
           billId: dto.billId,
-        },
-        include: {
-          category: {
-            select: {
-              id: true,
-              name: true,
-              icon: true,
-              color: true,
-            },
+          accountId: dto.accountId,
+          transferAccountId: isTransfer ? dto.transferAccountId : null,
+          splits: {
+            create: splits.map(split => ({
+              categoryId: split.categoryId,
+              amount: split.amount,
+              note: split.note,
+            })),
           },
         },
+        include: this.transactionInclude,
       });
 
       return transaction;
@@ -132,47 +235,89 @@ export class TransactionsService {
     }
   }
 
-  // Update an existing transaction
+  // Update an existing transaction, replacing its split lines when provided
   async updateTransaction(userId: string, transactionId: string, dto: UpdateTransactionDto) {
     // Check if transaction exists and belongs to the user
-    await this.verifyOwnership(userId, transactionId);
+    const transaction = await this.verifyOwnership(userId, transactionId);
+
+    const isTransfer = (dto.type || transaction.type) === TransactionTypeEnum.TRANSFER;
+    const transferAccountId = isTransfer
+      ? (dto.transferAccountId !== undefined ? dto.transferAccountId : transaction.transferAccountId)
+      : null;
+
+    if (isTransfer) {
+      const accountId = dto.accountId !== undefined ? dto.accountId : transaction.accountId;
+      await this.validateTransfer(userId, accountId, transferAccountId, dto.splits || []);
+    } else {
+      // A transfer turned into income or an expense has no category yet
+      if (!dto.categoryId && !transaction.categoryId) {
+        throw new BadRequestException('categoryId is required for income and expenses');
+      }
 
-    // If categoryId is provided, verify that it exists and belongs to the user
-    if (dto.categoryId) {
-      const category = await this.prisma.category.findFirst({
-        where: {
-          id: dto.categoryId,
-          userId,
-        },
-      });
+      // If categoryId is provided, verify that it exists and belongs to the user
+      if (dto.categoryId) {
+        const category = await this.prisma.category.findFirst({
+          where: {
+            id: dto.categoryId,
+            userId,
+            ...NOT_DELETED,
+          },
+        });
+
+        if (!category) {
+          throw new NotFoundException('Category not found or does not belong to user');
+        }
+      }
+
+      if (dto.accountId) {
+        await this.verifyAccount(userId, dto.accountId);
+      }
 
-      if (!category) {
-        throw new NotFoundException('Category not found or does not belong to user');
+      // Validate against the split lines the transaction will have after the update
+      const amount = dto.amount !== undefined ? dto.amount : transaction.amount;
+      const splits = dto.splits
+        ? dto.splits
+        : await this.prisma.transactionSplit.findMany({ where: { transactionId } });
+
+      // A new type is checked against the split categories the transaction keeps too
+      if (dto.splits || (dto.type && dto.type !== transaction.type)) {
+        await this.validateSplits(userId, dto.type || transaction.type, amount, splits);
+      } else {
+        this.validateSplitTotal(amount, splits);
       }
     }
 
     // Update the transaction
-    const updatedTransaction = await this.prisma.transaction.update({
-      where: { id: transactionId },
-      data: {
-        ...(dto.amount !== undefined && { amount: dto.amount }),
-        ...(dto.description !== undefined && { description: dto.description }),
-        ...(dto.notes !== undefined && { notes: dto.notes }),
-        ...(dto.date && { date: dto.date }),
-        ...(dto.type && { type: dto.type }),
-        ...(dto.categoryId && { categoryId: dto.categoryId }),
-        ...(dto.billId !== undefined && { billId: dto.billId }),
-      },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            icon: true,
-            color: true,
-          },
+    const updatedTransaction = await this.prisma.$transaction(async (prisma) => {
+      // Transfers have no split lines, a transaction turned into one loses its splits
+      if (dto.splits || isTransfer) {
+        await prisma.transactionSplit.deleteMany({ where: { transactionId } });
+      }
+
+      return prisma.transaction.update({
+        where: { id: transactionId },
+        data: {
+          ...(dto.amount !== undefined && { amount: dto.amount }),
+          ...(dto.description !== undefined && { description: dto.description }),
+          ...(dto.notes !== undefined && { notes: dto.notes }),
+          ...(dto.date && { date: dto.date }),
+          ...(dto.type && { type: dto.type }),
+          ...(isTransfer ? { categoryId: null } : dto.categoryId && { categoryId: dto.categoryId }),
+          ...(dto.billId !== undefined && { billId: dto.billId }),
+          ...(dto.accountId !== undefined && { accountId: dto.accountId }),
+          transferAccountId,
+          ...(dto.splits && !isTransfer && {
+            splits: {
+              create: dto.splits.map(split => ({
+                categoryId: split.categoryId,
+                amount: split.amount,
+                note: split.note,
+              })),
+            },
+          }),
         },
-      },
+        include: this.transactionInclude,
+      });
     });
 
     return updatedTransaction;
@@ -183,9 +328,10 @@ export class TransactionsService {
     // Check if transaction exists and belongs to the user
     await this.verifyOwnership(userId, transactionId);
 
-    // Delete the transaction
-    await this.prisma.transaction.delete({
+    // Move the transaction to the trash, it can be restored until the retention window ends
+    await this.prisma.transaction.update({
       where: { id: transactionId },
+      data: { deletedAt: new Date() },
     });
 
     return { message: 'Transaction deleted successfully' };
@@ -194,27 +340,20 @@ export class TransactionsService {
   // Get transaction statistics
   async getTransactionStats(userId: string, fromDate?: Date, toDate?: Date) {
     // Build the where clause dynamically based on provided filters
-    const whereClause: any = { userId };
+    const whereClause: any = { userId, ...NOT_DELETED };
 
-    if (fromDate) {
-      whereClause.date = {
-        ...(whereClause.date || {}),
-        gte: fromDate,
-      };
+    // Date-only filters cover whole days in the user's timezone
+    const dateFilter = await this.buildDateFilter(userId, fromDate, toDate);
+    if (dateFilter) {
+      whereClause.date = dateFilter;
     }
 
-    if (toDate) {
-      whereClause.date = {
-        ...(whereClause.date || {}),
-        lte: toDate,
-      };
-    }
-
-    // Get all transactions for the period
+    // Get all income and expenses for the period, transfers only move money between accounts
     const transactions = await this.prisma.transaction.findMany({
-      where: whereClause,
+      where: { ...whereClause, ...NOT_TRANSFER },
       include: {
         category: true,
+        splits: { include: { category: true } },
       },
     });
 
@@ -230,25 +369,27 @@ export class TransactionsService {
     // Calculate balance
     const balance = totalIncome - totalExpenses;
 
-    // Category breakdown
+    // Category breakdown, split transactions count towards each category of their split lines
     const categoryBreakdown = transactions.reduce((acc, tx) => {
-      const categoryId = tx.categoryId;
-      const categoryName = tx.category.name;
-      
-      if (!acc[categoryId]) {
-        acc[categoryId] = {
-          id: categoryId,
-          name: categoryName,
-          color: tx.category.color,
-          icon: tx.category.icon,
-          amount: 0,
-          count: 0,
-        };
+      for (const portion of getCategoryPortions(tx)) {
+        const categoryId = portion.categoryId;
+        const categoryName = portion.category.name;
+        
+        if (!acc[categoryId]) {
+          acc[categoryId] = {
+            id: categoryId,
+            name: categoryName,
+            color: portion.category.color,
+            icon: portion.category.icon,
+            amount: 0,
+            count: 0,
+          };
+        }
+        
+        acc[categoryId].amount += portion.amount;
+        acc[categoryId].count += 1;
       }
       
-      acc[categoryId].amount += tx.amount;
-      acc[categoryId].count += 1;
-      
       return acc;
     }, {});
 
@@ -268,10 +409,106 @@ export class TransactionsService {
     };
   }
 
+  /**
+   * Suggest categories for a transaction, learned from the user's own categorised transactions
+   * Runs a naive Bayes classifier over the descriptions and amounts of the most recent transactions;
+   * split lines count as examples of their own category
+   *
+   * @param userId - Current authenticated user ID
+   * @param query - Description, and optionally the amount and type, of the transaction to categorise
+   * @returns Categories ranked by confidence, empty when the history has no matching transactions
+   */
+  async suggestCategories(userId: string, query: SuggestCategoryQueryDto) {
+    const [categories, history] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { userId, ...NOT_DELETED },
+        select: {
+          id: true,
+          name: true,
+          icon: true,
+          color: true,
+          type: true,
+        },
+      }),
+      this.prisma.transaction.findMany({
+        where: {
+          userId,
+          ...NOT_DELETED,
+          ...NOT_TRANSFER,
+          ...(query.type && { type: query.type }),
+        },
+        select: {
+          description: true,
+          amount: true,
+          categoryId: true,
+          splits: { select: { amount: true, categoryId: true } },
+        },
+        orderBy: { date: 'desc' },
+        take: SUGGESTION_HISTORY_SIZE,
+      }),
+    ]);
+
+    const categoriesById = new Map(categories.map(category => [category.id, category]));
+    const examples: CategoryExample[] = history
+      .flatMap(transaction => (transaction.splits.length > 0
+        ? transaction.splits.map(split => ({ description: transaction.description, amount: split.amount, categoryId: split.categoryId }))
+        : [{ description: transaction.description, amount: transaction.amount, categoryId: transaction.categoryId! }]))
+      // Trashed categories can no longer be picked
+      .filter(example => categoriesById.has(example.categoryId));
+
+    return rankCategories(examples, query.description, query.amount)
+      .slice(0, query.limit || 3)
+      .map(score => ({
+        categoryId: score.categoryId,
+        category: categoriesById.get(score.categoryId)!,
+        confidence: Math.round(score.confidence * 1000) / 1000,
+        transactionCount: score.examples,
+      }));
+  }
+
+  /**
+   * Check that a new transaction only refers to records of the user and is consistent
+   * Shared by transactions entered by hand and imported rows
+   *
+   * @param userId - Current authenticated user ID
+   * @param transaction - Type, amount and references of the transaction
+   */
+  async validateNewTransaction(userId: string, transaction: NewTransactionInput) {
+    const splits = transaction.splits || [];
+
+    if (transaction.type === TransactionTypeEnum.TRANSFER) {
+      await this.validateTransfer(userId, transaction.accountId, transaction.transferAccountId, splits);
+      return;
+    }
+
+    if (!transaction.categoryId) {
+      throw new BadRequestException('categoryId is required for income and expenses');
+    }
+
+    // Verify that the category exists and belongs to the user
+    const category = await this.prisma.category.findFirst({
+      where: {
+        id: transaction.categoryId,
+        userId,
+        ...NOT_DELETED,
+      },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Category not found or does not belong to user');
+    }
+
+    if (transaction.accountId) {
+      await this.verifyAccount(userId, transaction.accountId);
+    }
+
+    await this.validateSplits(userId, transaction.type, transaction.amount, splits);
+  }
+
   // Helper method to verify ownership
   private async verifyOwnership(userId: string, transactionId: string) {
     const transaction = await this.prisma.transaction.findUnique({
-      where: { id: transactionId },
+      where: { id: transactionId, ...NOT_DELETED },
     });
 
     if (!transaction) {
@@ -284,4 +521,169 @@ export class TransactionsService {
 
     return transaction;
   }
+
+  // Helper method to make sure an account exists and belongs to the user
+  private async verifyAccount(userId: string, accountId: string) {
+    const account = await this.prisma.account.findFirst({
+      where: {
+        id: accountId,
+        userId,
+      },
+    });
+
+    if (!account) {
+      throw new NotFoundException('Account not found or does not belong to user');
+    }
+
+    return account;
+  }
+
+  // Helper method to make sure a transfer moves money between two different accounts of the user
+  private async validateTransfer(
+    userId: string,
+    accountId: string | null | undefined,
+    transferAccountId: string | null | undefined,
+    splits: TransactionSplitDto[],
+  ) {
+    if (!accountId || !transferAccountId) {
+      throw new BadRequestException('Transfers need both accountId and transferAccountId');
+    }
+
+    if (accountId === transferAccountId) {
+      throw new BadRequestException('A transfer needs two different accounts');
+    }
+
+    if (splits.length > 0) {
+      throw new BadRequestException('Transfers cannot be split');
+    }
+
+    const [fromAccount, toAccount] = await Promise.all([
+      this.verifyAccount(userId, accountId),
+      this.verifyAccount(userId, transferAccountId),
+    ]);
+
+    // A single amount cannot be expressed in two currencies
+    if (fromAccount.currency !== toAccount.currency) {
+      throw new BadRequestException('Transfers between accounts in different currencies are not supported');
+    }
+  }
+
+  // Helper method to make sure split lines add up to the amount and use categories of the user of the same type
+  private async validateSplits(userId: string, type: string, amount: number, splits: { amount: number; categoryId: string }[]) {
+    this.validateSplitTotal(amount, splits);
+
+    if (splits.length === 0) return;
+
+    const categoryIds = [...new Set(splits.map(split => split.categoryId))];
+    const categories = await this.prisma.category.findMany({
+      where: {
+        id: { in: categoryIds },
+        userId,
+        ...NOT_DELETED,
+      },
+      select: { type: true },
+    });
+
+    if (categories.length !== categoryIds.length) {
+      throw new NotFoundException('Split category not found or does not belong to user');
+    }
+
+    // Split lines count towards their own category, so an expense cannot be split into income categories
+    if (categories.some(category => category.type !== type)) {
+      throw new BadRequestException(`Split categories must be ${type} categories, like the transaction`);
+    }
+  }
+
+  // Helper method to make sure split lines, if any, add up to the transaction amount
+  private validateSplitTotal(amount: number, splits: { amount: number }[]) {
+    if (splits.length === 0) return;
+
+    const splitTotal = splits.reduce((sum, split) => sum + split.amount, 0);
+
+    // Compare in cents to avoid floating point noise
+    if (Math.round(splitTotal * 100) !== Math.round(amount * 100)) {
+      throw new BadRequestException(
+        `Split amounts (${splitTotal}) must add up to the transaction amount (${amount})`,
+      );
+    }
+  }
+
+  // Helper method to sum the income and expenses of all transactions matching a filter
+  private async getTotals(whereClause: any) {
+    const groups = await this.prisma.transaction.groupBy({
+      by: ['type'],
+      where: whereClause,
+      _sum: { amount: true },
+      _count: { _all: true },
+    });
+
+    const sumOf = (type: TransactionTypeEnum) => groups.find(group => group.type === type)?._sum.amount || 0;
+    const totalIncome = sumOf(TransactionTypeEnum.INCOME);
+    const totalExpenses = sumOf(TransactionTypeEnum.EXPENSE);
+
+    return {
+      transactionCount: groups.reduce((sum, group) => sum + group._count._all, 0),
+      totalIncome,
+      totalExpenses,
+      balance: totalIncome - totalExpenses,
+    };
+  }
+
+  // Helper method to encode the position of a transaction in the sort order as an opaque cursor
+  private encodeCursor(transaction: { id: string; date: Date; amount: number; createdAt: Date }, sortBy: TransactionSortFieldEnum) {
+    const value = transaction[sortBy];
+
+    return Buffer.from(JSON.stringify({
+      sortBy,
+      value: value instanceof Date ? value.toISOString() : value,
+      id: transaction.id,
+    })).toString('base64url');
+  }
+
+  // Helper method to match the transactions that come after a cursor in the sort order
+  private buildCursorFilter(cursor: string, sortBy: TransactionSortFieldEnum, sortOrder: SortOrderEnum) {
+    let decoded: { sortBy?: string; value?: unknown; id?: unknown };
+
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (!decoded || decoded.sortBy !== sortBy || typeof decoded.id !== 'string' || !/^[a-f\d]{24}$/i.test(decoded.id)) {
+      throw new BadRequestException('Invalid cursor, it must come from a page with the same sorting');
+    }
+
+    const value = sortBy === TransactionSortFieldEnum.AMOUNT
+      ? decoded.value
+      : new Date(decoded.value as string);
+
+    if (
+      (value instanceof Date && isNaN(value.getTime()))
+      || (sortBy === TransactionSortFieldEnum.AMOUNT && typeof value !== 'number')
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const after = sortOrder === SortOrderEnum.DESC ? 'lt' : 'gt';
+
+    return {
+      OR: [
+        { [sortBy]: { [after]: value } },
+        { [sortBy]: value, id: { [after]: decoded.id } },
+      ],
+    };
+  }
+
+  // Helper method to build a date range filter resolved in the user's timezone
+  private async buildDateFilter(userId: string, fromDate?: Date, toDate?: Date) {
+    if (!fromDate && !toDate) return undefined;
+
+    const userCalendar = await this.calendar.getUserCalendar(userId);
+
+    return {
+      ...(fromDate && { gte: this.calendar.resolveDateFilter(fromDate, userCalendar, 'start') }),
+      ...(toDate && { lte: this.calendar.resolveDateFilter(toDate, userCalendar, 'end') }),
+    };
+  }
 }
@@ -0,0 +1,23 @@
+import { TransactionType } from '@prisma/client';
+
+// Filter leaving out transfers, which move money between accounts without being earned or spent
+export const NOT_TRANSFER = { type: { not: TransactionType.TRANSFER } };
+
+/**
+ * Get the effect of a transaction on the balance of an account
+ * Transfers take the amount out of their account and add it to their transfer account
+ *
+ * @param transaction - Transaction with its type, amount and accounts
+ * @param accountId - Account whose balance is computed
+ * @returns Signed amount added to the balance
+ */
+export function getBalanceEffect(
+  transaction: { type: TransactionType; amount: number; accountId: string | null; transferAccountId?: string | null },
+  accountId: string,
+): number {
+  if (transaction.type === TransactionType.TRANSFER) {
+    return transaction.transferAccountId === accountId ? transaction.amount : -transaction.amount;
+  }
+
+  return transaction.type === TransactionType.INCOME ? transaction.amount : -transaction.amount;
+}
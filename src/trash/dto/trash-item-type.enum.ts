@@ -0,0 +1,6 @@
+export enum TrashItemTypeEnum {
+  TRANSACTION = 'transaction',
+  BILL = 'bill',
+  SAVINGS_GOAL = 'savings-goal',
+  CATEGORY = 'category',
+}
@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TrashItemTypeEnum } from '../dto/trash-item-type.enum';
+
+export class TrashItemModel {
+  @ApiProperty({
+    description: 'ID of the deleted item',
+    example: 'cl9ebqkxk000098l23xjp7y1z',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Kind of item',
+    enum: TrashItemTypeEnum,
+    example: TrashItemTypeEnum.TRANSACTION,
+  })
+  type: TrashItemTypeEnum;
+
+  @ApiProperty({
+    description: 'Description of a transaction, or name of a bill, goal or category',
+    example: 'Grocery shopping',
+    nullable: true,
+  })
+  name: string | null;
+
+  @ApiProperty({
+    description: 'Amount of a transaction or bill, target amount of a goal; null for categories',
+    example: 45.99,
+    nullable: true,
+  })
+  amount: number | null;
+
+  @ApiProperty({
+    description: 'Date the item was moved to the trash',
+    example: '2023-05-15T14:30:00Z',
+  })
+  deletedAt: Date;
+
+  @ApiProperty({
+    description: 'Date after which the item is permanently deleted',
+    example: '2023-06-14T14:30:00Z',
+  })
+  expiresAt: Date;
+}
+
+export class RestoreResultModel {
+  @ApiProperty({
+    description: 'Result message',
+    example: 'Transaction restored successfully',
+  })
+  message: string;
+}
@@ -0,0 +1,26 @@
+import { PipeTransform, Injectable, BadRequestException } from '@nestjs/common';
+import { TrashItemTypeEnum } from '../dto/trash-item-type.enum';
+
+@Injectable()
+export class ValidateTrashItemTypePipe implements PipeTransform {
+  constructor(private readonly optional: boolean = false) {}
+
+  transform(value: any): string | undefined {
+    if (value === undefined || value === null || value === '') {
+      if (this.optional) {
+        return undefined;
+      }
+
+      throw new BadRequestException('Item type is required');
+    }
+
+    const type = value.toLowerCase();
+    if (!Object.values(TrashItemTypeEnum).includes(type as TrashItemTypeEnum)) {
+      throw new BadRequestException(
+        `Invalid item type. Must be one of: ${Object.values(TrashItemTypeEnum).join(', ')}`
+      );
+    }
+
+    return type;
+  }
+}
@@ -0,0 +1,6 @@
+// Number of days trashed items can be restored before the purge job removes them
+export const TRASH_RETENTION_DAYS = 30;
+
+// Where clause fragment matching rows that are not in the trash
+// Soft-deleted rows carry a deletedAt date; live rows have no deletedAt field at all
+export const NOT_DELETED = { deletedAt: { isSet: false } };
@@ -0,0 +1,85 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiBadRequestResponse, ApiBearerAuth, ApiForbiddenResponse, ApiNotFoundResponse, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags, ApiUnauthorizedResponse } from '@nestjs/swagger';
+import { JwtGuard } from 'src/auth/guard';
+import { GetUser } from 'src/auth/decorator';
+import { TrashService } from './trash.service';
+import { TrashItemTypeEnum } from './dto/trash-item-type.enum';
+import { RestoreResultModel, TrashItemModel } from './models/trash-item.model';
+import { ValidateTrashItemTypePipe } from './pipes/validate-trash-item-type.pipe';
+import { TRASH_RETENTION_DAYS } from './soft-delete';
+
+@ApiTags('trash')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
+@Controller('trash')
+export class TrashController {
+  constructor(private trashService: TrashService) {}
+
+  /**
+   * Get the deleted items that can still be restored
+   * 
+   * @param userId - Current authenticated user ID
+   * @param type - Optional filter for the kind of item
+   * @returns Array of trashed items, most recently deleted first
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get the trash',
+    description: `Lists deleted transactions, bills, savings goals and categories. Items stay restorable for ${TRASH_RETENTION_DAYS} days, then they are permanently deleted`,
+  })
+  @ApiQuery({
+    name: 'type',
+    required: false,
+    enum: TrashItemTypeEnum,
+    description: 'Filter items by kind',
+  })
+  @ApiOkResponse({
+    description: 'Trashed items retrieved successfully',
+    type: [TrashItemModel],
+  })
+  getTrash(
+    @GetUser('id') userId: string,
+    @Query('type', new ValidateTrashItemTypePipe(true)) type?: TrashItemTypeEnum,
+  ) {
+    return this.trashService.getTrash(userId, type);
+  }
+
+  /**
+   * Restore a deleted item
+   * 
+   * @param userId - Current authenticated user ID
+   * @param type - Kind of item
+   * @param itemId - ID of the item
+   * @returns Confirmation message
+   */
+  @Post(':type/:id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore a deleted item',
+    description: 'Takes an item out of the trash. A transaction or bill whose category is also in the trash can only be restored after its category',
+  })
+  @ApiParam({
+    name: 'type',
+    enum: TrashItemTypeEnum,
+    description: 'Kind of item',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Item ID',
+  })
+  @ApiOkResponse({
+    description: 'The item has been successfully restored',
+    type: RestoreResultModel,
+  })
+  @ApiBadRequestResponse({ description: 'Bad Request - Invalid item type, or the category of the item is in the trash' })
+  @ApiForbiddenResponse({ description: 'Forbidden - User does not own this item' })
+  @ApiNotFoundResponse({ description: 'Not Found - The item is not in the trash or its retention window has ended' })
+  restoreItem(
+    @GetUser('id') userId: string,
+    @Param('type', ValidateTrashItemTypePipe) type: TrashItemTypeEnum,
+    @Param('id') itemId: string,
+  ) {
+    return this.trashService.restoreItem(userId, type, itemId);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { TrashController } from './trash.controller';
+import { TrashService } from './trash.service';
+import { TrashScheduler } from './trash.scheduler';
+
+@Module({
+  controllers: [TrashController],
+  providers: [TrashService, TrashScheduler],
+})
+export class TrashModule {}
@@ -0,0 +1,27 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TrashService } from './trash.service';
+
+@Injectable()
+export class TrashScheduler {
+  private readonly logger = new Logger(TrashScheduler.name);
+
+  constructor(private trashService: TrashService) {}
+
+  // Permanently delete trashed items once a day, after their retention window has ended
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async handleExpiredItems() {
+    try {
+      const result = await this.trashService.purgeExpiredItems();
+      const purged = result.transactions + result.bills + result.savingsGoals + result.categories;
+
+      if (purged > 0) {
+        this.logger.log(
+          `Purged ${result.transactions} transactions, ${result.bills} bills, ${result.savingsGoals} savings goals and ${result.categories} categories from the trash`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to purge the trash', error instanceof Error ? error.stack : error);
+    }
+  }
+}
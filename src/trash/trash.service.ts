@@ -0,0 +1,226 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { addDays, subDays } from 'date-fns';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TrashItemTypeEnum } from './dto/trash-item-type.enum';
+import { NOT_DELETED, TRASH_RETENTION_DAYS } from './soft-delete';
+
+// Display names of each item type, used in messages
+const ITEM_LABELS: Record<TrashItemTypeEnum, string> = {
+  [TrashItemTypeEnum.TRANSACTION]: 'Transaction',
+  [TrashItemTypeEnum.BILL]: 'Bill',
+  [TrashItemTypeEnum.SAVINGS_GOAL]: 'Goal',
+  [TrashItemTypeEnum.CATEGORY]: 'Category',
+};
+
+@Injectable()
+export class TrashService {
+  constructor(private prisma: PrismaService) {}
+
+  // Get the items of the user that can still be restored, most recently deleted first
+  async getTrash(userId: string, type?: TrashItemTypeEnum) {
+    const where = {
+      userId,
+      deletedAt: { gte: this.getCutoff(new Date()) },
+    };
+    const includes = (itemType: TrashItemTypeEnum) => !type || type === itemType;
+
+    const [transactions, bills, goals, categories] = await Promise.all([
+      includes(TrashItemTypeEnum.TRANSACTION) ? this.prisma.transaction.findMany({ where }) : [],
+      includes(TrashItemTypeEnum.BILL) ? this.prisma.bill.findMany({ where }) : [],
+      includes(TrashItemTypeEnum.SAVINGS_GOAL) ? this.prisma.savingsGoal.findMany({ where }) : [],
+      includes(TrashItemTypeEnum.CATEGORY) ? this.prisma.category.findMany({ where }) : [],
+    ]);
+
+    const items = [
+      ...transactions.map(transaction =>
+        this.toTrashItem(TrashItemTypeEnum.TRANSACTION, transaction.id, transaction.description, transaction.amount, transaction.deletedAt!),
+      ),
+      ...bills.map(bill =>
+        this.toTrashItem(TrashItemTypeEnum.BILL, bill.id, bill.name, bill.amount, bill.deletedAt!),
+      ),
+      ...goals.map(goal =>
+        this.toTrashItem(TrashItemTypeEnum.SAVINGS_GOAL, goal.id, goal.name, goal.targetAmount, goal.deletedAt!),
+      ),
+      ...categories.map(category =>
+        this.toTrashItem(TrashItemTypeEnum.CATEGORY, category.id, category.name, null, category.deletedAt!),
+      ),
+    ];
+
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  /**
+   * Restore an item from the trash
+   * Transactions and bills can only be restored once their category is out of the trash,
+   * and subcategories once their parent is
+   *
+   * @param userId - Current authenticated user ID
+   * @param type - Kind of item
+   * @param itemId - ID of the item
+   * @returns Confirmation message
+   */
+  async restoreItem(userId: string, type: TrashItemTypeEnum, itemId: string) {
+    const item = await this.findTrashedItem(type, itemId);
+    const label = ITEM_LABELS[type];
+
+    if (!item || !item.deletedAt || item.deletedAt < this.getCutoff(new Date())) {
+      throw new NotFoundException(`${label} not found in the trash`);
+    }
+
+    if (item.userId !== userId) {
+      throw new ForbiddenException('Access to resource denied');
+    }
+
+    if ('categoryId' in item) {
+      // Split lines of a transaction may use other categories than its own
+      const splits = type === TrashItemTypeEnum.TRANSACTION
+        ? await this.prisma.transactionSplit.findMany({ where: { transactionId: itemId } })
+        : [];
+      // Transfers have no category of their own
+      const categoryIds = [...new Set([item.categoryId, ...splits.map(split => split.categoryId)])]
+        .filter((categoryId): categoryId is string => categoryId !== null);
+
+      const categoryCount = await this.prisma.category.count({
+        where: { id: { in: categoryIds }, ...NOT_DELETED },
+      });
+
+      if (categoryCount !== categoryIds.length) {
+        throw new BadRequestException(`A category of this ${label.toLowerCase()} is in the trash, restore it first`);
+      }
+    }
+
+    if ('parentId' in item && item.parentId) {
+      const parentCount = await this.prisma.category.count({
+        where: { id: item.parentId, ...NOT_DELETED },
+      });
+
+      if (parentCount === 0) {
+        throw new BadRequestException('The parent category is in the trash, restore it first');
+      }
+    }
+
+    // Only clear the deletion this request looked at, a concurrent restore or purge makes this a no-op
+    const restored = await this.clearDeletion(type, itemId, item.deletedAt);
+
+    if (restored.count === 0) {
+      throw new NotFoundException(`${label} not found in the trash`);
+    }
+
+    return { message: `${label} restored successfully` };
+  }
+
+  /**
+   * Permanently delete the items whose retention window has ended
+   * Categories still referenced by trashed transactions or bills are kept until those are purged,
+   * and parent categories until their subcategories are
+   *
+   * @param now - Reference time of the run
+   * @returns Number of purged items per type
+   */
+  async purgeExpiredItems(now: Date = new Date()) {
+    const expired = { deletedAt: { lt: this.getCutoff(now) } };
+
+    const transactionIds = (await this.prisma.transaction.findMany({ where: expired, select: { id: true } }))
+      .map(transaction => transaction.id);
+    const billIds = (await this.prisma.bill.findMany({ where: expired, select: { id: true } }))
+      .map(bill => bill.id);
+
+    const [, , , , , , { count: transactions }, { count: bills }, , { count: savingsGoals }] = await this.prisma.$transaction([
+      // Payments of live bills and goal contributions are kept, only their link to a purged transaction is dropped
+      this.prisma.billPayment.updateMany({
+        where: { transactionId: { in: transactionIds } },
+        data: { transactionId: null },
+      }),
+      this.prisma.goalContribution.updateMany({
+        where: { transactionId: { in: transactionIds } },
+        data: { transactionId: null },
+      }),
+      this.prisma.transactionSplit.deleteMany({ where: { transactionId: { in: transactionIds } } }),
+      this.prisma.autopayLog.deleteMany({ where: { billId: { in: billIds } } }),
+      this.prisma.billPayment.deleteMany({ where: { billId: { in: billIds } } }),
+      this.prisma.transaction.updateMany({
+        where: { billId: { in: billIds } },
+        data: { billId: null },
+      }),
+      this.prisma.transaction.deleteMany({ where: { id: { in: transactionIds } } }),
+      this.prisma.bill.deleteMany({ where: { id: { in: billIds } } }),
+      this.prisma.goalContribution.deleteMany({ where: { goal: expired } }),
+      this.prisma.savingsGoal.deleteMany({ where: expired }),
+    ]);
+
+    // Purged after transactions and bills, so categories they referenced are free to go in the same run
+    const categoryIds = (await this.prisma.category.findMany({
+      where: {
+        ...expired,
+        transactions: { none: {} },
+        bills: { none: {} },
+        recurringTransactions: { none: {} },
+        transactionSplits: { none: {} },
+        children: { none: {} },
+      },
+      select: { id: true },
+    })).map(category => category.id);
+
+    const [, , , { count: categories }] = await this.prisma.$transaction([
+      this.prisma.categoryAllocation.deleteMany({ where: { categoryId: { in: categoryIds } } }),
+      this.prisma.categoryRule.deleteMany({ where: { categoryId: { in: categoryIds } } }),
+      this.prisma.planItem.updateMany({
+        where: { categoryId: { in: categoryIds } },
+        data: { categoryId: null },
+      }),
+      this.prisma.category.deleteMany({ where: { id: { in: categoryIds } } }),
+    ]);
+
+    return { transactions, bills, savingsGoals, categories };
+  }
+
+  // Helper method to load a trashed item of the given type
+  private async findTrashedItem(type: TrashItemTypeEnum, itemId: string) {
+    const where = { id: itemId };
+
+    switch (type) {
+      case TrashItemTypeEnum.TRANSACTION:
+        return this.prisma.transaction.findUnique({ where });
+      case TrashItemTypeEnum.BILL:
+        return this.prisma.bill.findUnique({ where });
+      case TrashItemTypeEnum.SAVINGS_GOAL:
+        return this.prisma.savingsGoal.findUnique({ where });
+      case TrashItemTypeEnum.CATEGORY:
+        return this.prisma.category.findUnique({ where });
+    }
+  }
+
+  // Helper method to take an item out of the trash if it was deleted at the given date
+  private async clearDeletion(type: TrashItemTypeEnum, itemId: string, deletedAt: Date) {
+    const where = { id: itemId, deletedAt };
+    const data = { deletedAt: { unset: true } };
+
+    switch (type) {
+      case TrashItemTypeEnum.TRANSACTION:
+        return this.prisma.transaction.updateMany({ where, data });
+      case TrashItemTypeEnum.BILL:
+        return this.prisma.bill.updateMany({ where, data });
+      case TrashItemTypeEnum.SAVINGS_GOAL:
+        return this.prisma.savingsGoal.updateMany({ where, data });
+      case TrashItemTypeEnum.CATEGORY:
+        return this.prisma.category.updateMany({ where, data });
+    }
+  }
+
+  // Helper method to build the trash entry of an item
+  private toTrashItem(type: TrashItemTypeEnum, id: string, name: string | null, amount: number | null, deletedAt: Date) {
+    return {
+      id,
+      type,
+      name,
+      amount,
+      deletedAt,
+      expiresAt: addDays(deletedAt, TRASH_RETENTION_DAYS),
+    };
+  }
+
+  // Helper method to get the deletion date before which items are no longer restorable
+  private getCutoff(now: Date) {
+    return subDays(now, TRASH_RETENTION_DAYS);
+  }
+}
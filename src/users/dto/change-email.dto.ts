@@ -0,0 +1,20 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangeEmailDto {
+  @ApiProperty({
+    description: 'New email address',
+    example: 'john.doe@example.com',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  newEmail: string;
+
+  @ApiProperty({
+    description: 'Current password to confirm the change',
+    example: 'Password123!',
+  })
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+}
@@ -0,0 +1,3 @@
+export * from './update-user.dto';
+export * from './change-email.dto';
+export * from './change-password.dto';
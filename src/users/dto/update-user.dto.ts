@@ -0,0 +1,33 @@
+import { IsNotEmpty, IsOptional, IsString, IsUrl } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateUserDto {
+  @ApiProperty({
+    description: 'User first name',
+    example: 'John',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  firstName?: string;
+
+  @ApiProperty({
+    description: 'User last name',
+    example: 'Doe',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  lastName?: string;
+
+  @ApiProperty({
+    description: 'User profile image URL',
+    example: 'https://example.com/profiles/avatar.jpg',
+    required: false,
+  })
+  @IsUrl()
+  @IsOptional()
+  profileImageUrl?: string;
+}
@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UserProfileModel {
+  @ApiProperty({
+    description: 'Unique identifier for the user',
+    example: 'cl9ebq7xj000023l29wbg5b2j',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User email address',
+    example: 'user@example.com',
+  })
+  email: string;
+
+  @ApiProperty({
+    description: 'User first name',
+    example: 'John',
+    nullable: true,
+  })
+  firstName: string | null;
+
+  @ApiProperty({
+    description: 'User last name',
+    example: 'Doe',
+    nullable: true,
+  })
+  lastName: string | null;
+
+  @ApiProperty({
+    description: 'User profile image URL',
+    example: 'https://example.com/profiles/avatar.jpg',
+    nullable: true,
+  })
+  profileImageUrl: string | null;
+
+  @ApiProperty({
+    description: 'IANA timezone of the user (changed through the settings preferences)',
+    example: 'Europe/Berlin',
+  })
+  timezone: string;
+
+  @ApiProperty({
+    description: 'Date when the user was created',
+    example: '2023-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Date when the user was last updated',
+    example: '2023-04-20T14:15:30.000Z',
+  })
+  updatedAt: Date;
+}
+
+export class UserMessageModel {
+  @ApiProperty({
+    description: 'Success message',
+    example: 'Password changed successfully',
+  })
+  message: string;
+}
@@ -1,16 +1,116 @@
-import { Controller, Get, Patch, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, HttpCode, HttpStatus, Patch, Post, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiForbiddenResponse, ApiOkResponse, ApiOperation, ApiTags, ApiUnauthorizedResponse } from '@nestjs/swagger';
 import { User } from 'generated/prisma';
 import { JwtGuard } from 'src/auth/guard';
 import { GetUser } from 'src/common/decorate';
+import { UsersService } from './users.service';
+import { ChangeEmailDto, ChangePasswordDto, UpdateUserDto } from './dto';
+import { UserMessageModel, UserProfileModel } from './models/user.model';
 
+@ApiTags('users')
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Unauthorized - JWT token is missing or invalid' })
+@UseGuards(JwtGuard)
 @Controller('users')
 export class UserController {
-  @UseGuards(JwtGuard)
+  constructor(private usersService: UsersService) {}
+
   @Get('me')
   getMe(@GetUser() user: User) {
     return user;
   }
 
+  /**
+   * Get the profile of the authenticated user
+   *
+   * @param userId - Current authenticated user ID
+   * @returns The profile
+   */
+  @Get('profile')
+  @ApiOperation({
+    summary: 'Get profile',
+    description: 'Returns the name, email, profile image and timezone of the current user',
+  })
+  @ApiOkResponse({
+    description: 'The profile of the current user',
+    type: UserProfileModel,
+  })
+  getProfile(@GetUser('id') userId: string) {
+    return this.usersService.getProfile(userId);
+  }
+
+  /**
+   * Update the profile of the authenticated user
+   *
+   * @param userId - Current authenticated user ID
+   * @param dto - Profile fields to update
+   * @returns The updated profile
+   */
   @Patch()
-  editUser() {}
+  @ApiOperation({
+    summary: 'Update profile',
+    description: 'Updates the name and profile image of the current user',
+  })
+  @ApiOkResponse({
+    description: 'The profile has been successfully updated',
+    type: UserProfileModel,
+  })
+  editUser(
+    @GetUser('id') userId: string,
+    @Body() dto: UpdateUserDto,
+  ) {
+    return this.usersService.updateProfile(userId, dto);
+  }
+
+  /**
+   * Change the login email
+   *
+   * @param userId - Current authenticated user ID
+   * @param dto - New email and current password
+   * @returns The updated profile
+   */
+  @Post('change-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change email',
+    description: 'Changes the login email of the current user. Requires the current password.',
+  })
+  @ApiOkResponse({
+    description: 'The email has been successfully changed',
+    type: UserProfileModel,
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - Current password is incorrect or email already in use' })
+  changeEmail(
+    @GetUser('id') userId: string,
+    @Body() dto: ChangeEmailDto,
+  ) {
+    return this.usersService.changeEmail(userId, dto);
+  }
+
+  /**
+   * Change the password
+   *
+   * @param userId - Current authenticated user ID
+   * @param sessionId - Session of the request, kept signed in
+   * @param dto - Current and new password
+   * @returns Success message
+   */
+  @Post('change-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change password',
+    description: 'Changes the password of the current user and signs out all other devices. Requires the current password.',
+  })
+  @ApiOkResponse({
+    description: 'The password has been successfully changed',
+    type: UserMessageModel,
+  })
+  @ApiForbiddenResponse({ description: 'Forbidden - Current password is incorrect' })
+  changePassword(
+    @GetUser('id') userId: string,
+    @GetUser('sessionId') sessionId: string | undefined,
+    @Body() dto: ChangePasswordDto,
+  ) {
+    return this.usersService.changePassword(userId, dto, sessionId);
+  }
 }
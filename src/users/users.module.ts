@@ -1,9 +1,14 @@
 import { Module } from "@nestjs/common";
 import { UserController } from "./users.controller";
+import { UsersService } from "./users.service";
+import { AuthModule } from "src/auth/auth.module";
 
 
 @Module({
+    imports: [AuthModule],
     controllers: [UserController],
+    providers: [UsersService],
+    exports: [UsersService],
 })
 
-export class UserModule {}
\ No newline at end of file
+export class UserModule {}
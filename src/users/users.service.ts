@@ -0,0 +1,109 @@
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import * as argon from 'argon2';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SessionsService } from 'src/auth/sessions.service';
+import { ChangeEmailDto, ChangePasswordDto, UpdateUserDto } from './dto';
+
+@Injectable()
+export class UsersService {
+  constructor(
+    private prisma: PrismaService,
+    private sessions: SessionsService,
+  ) {}
+
+  // Profile fields exposed by the users API
+  private readonly profileSelect = {
+    id: true,
+    email: true,
+    firstName: true,
+    lastName: true,
+    profileImageUrl: true,
+    timezone: true,
+    createdAt: true,
+    updatedAt: true,
+  };
+
+  // Get the profile of a user
+  async getProfile(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: this.profileSelect,
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  // Update profile fields (name and avatar)
+  async updateProfile(userId: string, dto: UpdateUserDto) {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(dto.firstName !== undefined && { firstName: dto.firstName }),
+        ...(dto.lastName !== undefined && { lastName: dto.lastName }),
+        ...(dto.profileImageUrl !== undefined && { profileImageUrl: dto.profileImageUrl }),
+      },
+      select: this.profileSelect,
+    });
+  }
+
+  // Change the login email after confirming the current password
+  async changeEmail(userId: string, dto: ChangeEmailDto) {
+    await this.verifyPassword(userId, dto.currentPassword);
+
+    try {
+      return await this.prisma.user.update({
+        where: { id: userId },
+        data: { email: dto.newEmail },
+        select: this.profileSelect,
+      });
+    } catch (error) {
+      if (error instanceof PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new ForbiddenException('Email already in use');
+        }
+      }
+      throw error;
+    }
+  }
+
+  // Change the password after confirming the current one
+  async changePassword(userId: string, dto: ChangePasswordDto, currentSessionId?: string) {
+    await this.verifyPassword(userId, dto.currentPassword);
+
+    const hashedPassword = await argon.hash(dto.newPassword);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword },
+    });
+
+    // Sign out every other device; the one making the request stays logged in
+    await this.sessions.revokeAllSessions(userId, currentSessionId);
+
+    return { message: 'Password changed successfully' };
+  }
+
+  // Helper method to check the current password
+  private async verifyPassword(userId: string, password: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const passwordMatches = await argon.verify(user.password, password);
+
+    if (!passwordMatches) {
+      throw new ForbiddenException('Current password is incorrect');
+    }
+
+    return user;
+  }
+}